@@ -3,6 +3,8 @@ import { generateKeyPairSigner, type TransactionSigner } from "@solana/kit";
 import { createPaymentHeader } from "./createPaymentHeader";
 import { PaymentRequirements } from "../types/verify";
 import * as exactSvmClient from "../schemes/exact/svm/client";
+import { createSpendingPolicy } from "./spendingPolicy";
+import { SpendingPolicyError } from "./paymentError";
 
 vi.mock("../schemes/exact/svm/client", () => ({
   createPaymentHeader: vi.fn(),
@@ -85,4 +87,40 @@ describe("createPaymentHeader", () => {
       );
     });
   });
+
+  describe("Spending Policy", () => {
+    it("should sign payments the spending policy allows", async () => {
+      vi.mocked(exactSvmClient.createPaymentHeader).mockResolvedValue("mock_payment_header");
+      const config = { spendingPolicy: createSpendingPolicy({ maxAmountPerRequest: BigInt(1000) }) };
+
+      const header = await createPaymentHeader(svmSigner, 1, paymentRequirements, config);
+
+      expect(header).toBe("mock_payment_header");
+    });
+
+    it("should throw before signing payments the spending policy does not allow", async () => {
+      vi.mocked(exactSvmClient.createPaymentHeader).mockClear();
+      const config = { spendingPolicy: createSpendingPolicy({ maxAmountPerRequest: BigInt(999) }) };
+
+      const error = await createPaymentHeader(svmSigner, 1, paymentRequirements, config).catch(
+        error => error,
+      );
+
+      expect(error).toBeInstanceOf(SpendingPolicyError);
+      expect(error.code).toBe("spending_policy_violation");
+      expect(error.violations).toEqual([
+        expect.objectContaining({ reason: "max_amount_per_request_exceeded", limit: "999" }),
+      ]);
+      expect(exactSvmClient.createPaymentHeader).not.toHaveBeenCalled();
+    });
+
+    it("should not count payments that could not be signed against the budgets", async () => {
+      vi.mocked(exactSvmClient.createPaymentHeader).mockRejectedValueOnce(new Error("User rejected the request"));
+      const spendingPolicy = createSpendingPolicy({ budgets: [{ network: paymentRequirements.network, asset: paymentRequirements.asset, hourly: BigInt(paymentRequirements.maxAmountRequired) }] });
+
+      await expect(createPaymentHeader(svmSigner, 1, paymentRequirements, { spendingPolicy })).rejects.toThrow("User rejected the request");
+
+      expect(await spendingPolicy.evaluate(paymentRequirements)).toEqual({ allowed: true });
+    });
+  });
 });
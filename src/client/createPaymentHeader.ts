@@ -1,8 +1,8 @@
-import { createPaymentHeader as createPaymentHeaderExactEVM } from "../schemes/exact/evm/client";
-import { createPaymentHeader as createPaymentHeaderExactSVM } from "../schemes/exact/svm/client";
-import { isEvmSignerWallet, isMultiNetworkSigner, isSvmSignerWallet, MultiNetworkSigner, Signer, SupportedEVMNetworks, SupportedSVMNetworks } from "../types/shared";
+import { getSchemeRegistry } from "../schemes/registry";
+import { MultiNetworkSigner, Signer } from "../types/shared";
 import { PaymentRequirements } from "../types/verify";
 import { X402Config } from "../types/config";
+import { SpendingPolicyError } from "./paymentError";
 
 /**
  * Creates a payment header based on the provided client and payment requirements.
@@ -12,6 +12,7 @@ import { X402Config } from "../types/config";
  * @param paymentRequirements - The payment requirements containing scheme and network information
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
  * @returns A promise that resolves to the created payment header string
+ * @throws SpendingPolicyError if `config.spendingPolicy` does not allow the payment. Allowed payments are recorded once signed
  */
 export async function createPaymentHeader(
   client: Signer | MultiNetworkSigner,
@@ -19,37 +20,34 @@ export async function createPaymentHeader(
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
 ): Promise<string> {
-  // exact scheme
-  if (paymentRequirements.scheme === "exact") {
-    // evm
-    if (SupportedEVMNetworks.includes(paymentRequirements.network)) {
-      const evmClient = isMultiNetworkSigner(client) ? client.evm : client;
+  const registry = getSchemeRegistry();
 
-      if (!isEvmSignerWallet(evmClient)) {
-        throw new Error("Invalid evm wallet client provided");
-      }
-
-      return await createPaymentHeaderExactEVM(
-        evmClient,
-        x402Version,
-        paymentRequirements,
-      );
-    }
-    // svm
-    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      const svmClient = isMultiNetworkSigner(client) ? client.svm : client;
-      if (!isSvmSignerWallet(svmClient)) {
-        throw new Error("Invalid svm wallet client provided");
-      }
+  if (!registry.hasScheme(paymentRequirements.scheme)) {
+    throw new Error("Unsupported scheme");
+  }
 
-      return await createPaymentHeaderExactSVM(
-        svmClient,
-        x402Version,
-        paymentRequirements,
-        config,
-      );
-    }
+  const implementation = registry.get(paymentRequirements.scheme, paymentRequirements.network);
+  if (!implementation) {
     throw new Error("Unsupported network");
   }
-  throw new Error("Unsupported scheme");
-}
\ No newline at end of file
+
+  const authorization = await config?.spendingPolicy?.authorize(paymentRequirements, client);
+  if (authorization && !authorization.allowed) {
+    throw new SpendingPolicyError(authorization.violations, paymentRequirements);
+  }
+
+  let paymentHeader: string;
+  try {
+    paymentHeader = await implementation.createPaymentHeader(
+      client,
+      x402Version,
+      paymentRequirements,
+      config,
+    );
+  } catch (error) {
+    authorization?.release();
+    throw error;
+  }
+  await authorization?.record();
+  return paymentHeader;
+}
@@ -1,4 +1,9 @@
 export * from "./createPaymentHeader";
+export * from "./paymentError";
 export * from "./preparePaymentHeader";
+export * from "./priceAwareSelector";
 export * from "./selectPaymentRequirements";
-export * from "./signPaymentHeader";
\ No newline at end of file
+export * from "./signPaymentHeader";
+export * from "./spendingLedger";
+export * from "./spendingPolicy";
+export * from "./wrapFetchWithPayment";
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { PaymentRequirements, x402PaymentRequiredResponse } from "../types/verify";
+import type { SpendingViolation } from "./spendingPolicy";
+
+export type PaymentErrorCode =
+  /** The 402 response did not carry valid payment requirements */
+  | "invalid_payment_requirements"
+  /** The wallet cannot afford any of the payment requirements */
+  | "insufficient_funds"
+  /** The wallet's balance could not be read, so it is unknown whether it can afford the payment requirements */
+  | "balance_check_failed"
+  /** The selected payment requirements ask for more than the allowed maximum */
+  | "max_value_exceeded"
+  /** The server answered the paid retry with another 402 */
+  | "payment_rejected"
+  /** The spending policy does not allow the payment */
+  | "spending_policy_violation";
+
+/**
+ * Error thrown by `wrapFetchWithPayment` and `createPaymentHeader` when a request cannot be paid for
+ */
+export class PaymentError extends Error {
+  /**
+   * Creates a payment error
+   *
+   * @param message - The error message
+   * @param code - What went wrong
+   * @param paymentRequirements - The payment requirements that were selected, if any
+   * @param response - The body of the last 402 response, if any
+   */
+  constructor(
+    message: string,
+    readonly code: PaymentErrorCode,
+    readonly paymentRequirements?: PaymentRequirements,
+    readonly response?: x402PaymentRequiredResponse,
+  ) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+/**
+ * Error thrown when the spending policy does not allow a payment, before anything is signed
+ */
+export class SpendingPolicyError extends PaymentError {
+  /**
+   * Creates a spending policy error
+   *
+   * @param violations - The rules of the policy that the payment violates
+   * @param paymentRequirements - The payment requirements that were rejected
+   */
+  constructor(
+    readonly violations: SpendingViolation[],
+    paymentRequirements: PaymentRequirements,
+  ) {
+    super(`Payment violates the spending policy: ${violations.map(violation => violation.message).join("; ")}`, "spending_policy_violation", paymentRequirements);
+    this.name = "SpendingPolicyError";
+  }
+}
@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { generateKeyPairSigner } from "@solana/kit";
+import { fetchMaybeToken, fetchMint } from "@solana-program/token-2022";
+import { privateKeyToAccount } from "viem/accounts";
+import { createPriceAwareSelector } from "./priceAwareSelector";
+import { PaymentError } from "./paymentError";
+import { getERC20Balance, getERC20Decimals } from "../shared/evm";
+import { PaymentRequirements } from "../types/verify";
+import { Network } from "../types/shared";
+
+vi.mock("../shared/evm", async importOriginal => ({
+  ...(await importOriginal<typeof import("../shared/evm")>()),
+  getERC20Balance: vi.fn(),
+  getERC20Decimals: vi.fn(),
+}));
+
+vi.mock("@solana-program/token-2022", async importOriginal => ({
+  ...(await importOriginal<typeof import("@solana-program/token-2022")>()),
+  fetchMint: vi.fn(),
+  fetchMaybeToken: vi.fn(),
+}));
+
+const baseUsdc = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const avalancheUsdc = "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E";
+const solanaUsdc = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const otherToken = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd";
+
+/**
+ * Test helper to create a payment requirement with the given network, asset and amount.
+ *
+ * @param network - The network to create the payment requirement for.
+ * @param asset - The asset to create the payment requirement for.
+ * @param maxAmountRequired - The amount in atomic units.
+ * @returns The created payment requirement.
+ */
+function makeRequirement(network: Network, asset: string, maxAmountRequired: string): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network,
+    maxAmountRequired,
+    resource: "https://example.com/resource",
+    description: "Test",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890",
+    maxTimeoutSeconds: 300,
+    asset,
+  };
+}
+
+describe("createPriceAwareSelector", () => {
+  const account = privateKeyToAccount("0x0123456789012345678901234567890123456789012345678901234567890123");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getERC20Balance).mockResolvedValue(BigInt(1000000));
+  });
+
+  it("selects the cheapest requirement in USD", async () => {
+    const selector = createPriceAwareSelector(account);
+
+    const selected = await selector([makeRequirement("base", baseUsdc, "20000"), makeRequirement("avalanche", avalancheUsdc, "10000")]);
+
+    expect(selected.network).toBe("avalanche");
+    expect(getERC20Balance).toHaveBeenCalledWith(expect.anything(), baseUsdc, account.address);
+  });
+
+  it("skips requirements the wallet cannot afford", async () => {
+    vi.mocked(getERC20Balance).mockImplementation(async (_client, asset) => (asset === avalancheUsdc ? BigInt(5000) : BigInt(1000000)));
+    const selector = createPriceAwareSelector(account);
+
+    const selected = await selector([makeRequirement("avalanche", avalancheUsdc, "10000"), makeRequirement("base", baseUsdc, "20000")]);
+
+    expect(selected.network).toBe("base");
+  });
+
+  it("throws when no requirement is affordable", async () => {
+    vi.mocked(getERC20Balance).mockResolvedValue(BigInt(0));
+    const selector = createPriceAwareSelector(account);
+
+    const error = await selector([makeRequirement("base", baseUsdc, "10000")]).catch(error => error);
+
+    expect(error).toBeInstanceOf(PaymentError);
+    expect(error.code).toBe("insufficient_funds");
+  });
+
+  it("skips requirements whose balance cannot be read", async () => {
+    vi.mocked(getERC20Balance).mockImplementation(async (_client, asset) => {
+      if (asset === avalancheUsdc) {
+        throw new Error("RPC unavailable");
+      }
+      return BigInt(1000000);
+    });
+    const selector = createPriceAwareSelector(account);
+
+    const selected = await selector([makeRequirement("avalanche", avalancheUsdc, "10000"), makeRequirement("base", baseUsdc, "20000")]);
+
+    expect(selected.network).toBe("base");
+  });
+
+  it("reports failed balance checks instead of insufficient funds", async () => {
+    vi.mocked(getERC20Balance).mockRejectedValue(new Error("RPC unavailable"));
+    const selector = createPriceAwareSelector(account);
+
+    const error = await selector([makeRequirement("base", baseUsdc, "10000")]).catch(error => error);
+
+    expect(error).toBeInstanceOf(PaymentError);
+    expect(error.code).toBe("balance_check_failed");
+    expect(error.message).toContain("RPC unavailable");
+  });
+
+  it("rethrows errors of the USD price lookup", async () => {
+    const selector = createPriceAwareSelector(account, {
+      getUsdPrice: () => {
+        throw new Error("Price feed unavailable");
+      },
+    });
+
+    await expect(selector([makeRequirement("base", baseUsdc, "10000")])).rejects.toThrow("Price feed unavailable");
+  });
+
+  it("normalizes other assets by their decimals and USD price", async () => {
+    vi.mocked(getERC20Balance).mockResolvedValue(BigInt(10) ** BigInt(18));
+    vi.mocked(getERC20Decimals).mockResolvedValue(18);
+    const selector = createPriceAwareSelector(account, {
+      getUsdPrice: (_network, asset) => (asset === otherToken ? 2 : undefined),
+    });
+
+    // 0.004 tokens at $2 is $0.008, cheaper than $0.01 of USDC
+    const selected = await selector([makeRequirement("base", baseUsdc, "10000"), makeRequirement("base", otherToken, (BigInt(4) * BigInt(10) ** BigInt(15)).toString())]);
+
+    expect(selected.asset).toBe(otherToken);
+  });
+
+  it("ranks assets without a USD price last", async () => {
+    const selector = createPriceAwareSelector(account);
+
+    const selected = await selector([makeRequirement("base", otherToken, "1"), makeRequirement("base", baseUsdc, "10000")]);
+
+    expect(selected.asset).toBe(baseUsdc);
+    expect(getERC20Decimals).not.toHaveBeenCalled();
+  });
+
+  it("breaks price ties by settlement latency", async () => {
+    const selector = createPriceAwareSelector(account, { settlementLatencyMs: { base: 5000, avalanche: 1000 } });
+
+    const selected = await selector([makeRequirement("base", baseUsdc, "10000"), makeRequirement("avalanche", avalancheUsdc, "10000")]);
+
+    expect(selected.network).toBe("avalanche");
+  });
+
+  it("skips requirements on unregistered networks", async () => {
+    const selector = createPriceAwareSelector(account);
+
+    const selected = await selector([makeRequirement("unknown-network" as Network, baseUsdc, "10000"), makeRequirement("base", baseUsdc, "20000")]);
+
+    expect(selected.network).toBe("base");
+  });
+
+  it("filters requirements by network and scheme", async () => {
+    const selector = createPriceAwareSelector(account);
+
+    const selected = await selector([makeRequirement("avalanche", avalancheUsdc, "1"), makeRequirement("base", baseUsdc, "10000")], "base", "exact");
+
+    expect(selected.network).toBe("base");
+    expect(getERC20Balance).toHaveBeenCalledTimes(1);
+  });
+
+  it("checks the SPL token account of SVM signers", async () => {
+    const svmSigner = await generateKeyPairSigner();
+    vi.mocked(fetchMint).mockResolvedValue({ programAddress: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA", data: { decimals: 6 } } as never);
+    vi.mocked(fetchMaybeToken).mockResolvedValue({ exists: true, data: { amount: BigInt(10000) } } as never);
+    const selector = createPriceAwareSelector({ evm: account, svm: svmSigner });
+
+    const selected = await selector([makeRequirement("solana", solanaUsdc, "10000"), makeRequirement("base", baseUsdc, "20000")]);
+
+    expect(selected.network).toBe("solana");
+  });
+
+  it("skips SVM requirements without a token account", async () => {
+    const svmSigner = await generateKeyPairSigner();
+    vi.mocked(fetchMint).mockResolvedValue({ programAddress: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA", data: { decimals: 6 } } as never);
+    vi.mocked(fetchMaybeToken).mockResolvedValue({ exists: false } as never);
+    const selector = createPriceAwareSelector({ evm: account, svm: svmSigner });
+
+    const selected = await selector([makeRequirement("solana", solanaUsdc, "10000"), makeRequirement("base", baseUsdc, "20000")]);
+
+    expect(selected.network).toBe("base");
+  });
+});
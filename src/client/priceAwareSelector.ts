@@ -0,0 +1,178 @@
+import { Address as SolanaAddress } from "@solana/kit";
+import { fetchMaybeToken, fetchMint, findAssociatedTokenPda } from "@solana-program/token-2022";
+import { Address } from "viem";
+import { getERC20Balance, getERC20Decimals, getUsdcChainConfigForChain } from "../shared/evm";
+import { getNetworkId } from "../shared/network";
+import { getRpcClient } from "../shared/svm";
+import { X402Config } from "../types/config";
+import { evm, getNetworkRegistry, isEvmSignerWallet, isMultiNetworkSigner, isSvmSignerWallet, MultiNetworkSigner, Network, Signer, SupportedEVMNetworks, SupportedSVMNetworks } from "../types/shared";
+import { PaymentRequirements } from "../types/verify";
+import { PaymentError } from "./paymentError";
+import { PaymentRequirementsSelector } from "./selectPaymentRequirements";
+
+const USDC_DECIMALS = 6;
+
+// rough time from broadcast to confirmation, used to rank otherwise equally priced networks
+const DEFAULT_SETTLEMENT_LATENCY_MS: Partial<Record<Network, number>> = {
+  solana: 800,
+  "solana-devnet": 800,
+  sei: 500,
+  "sei-testnet": 500,
+  iotex: 5000,
+};
+const DEFAULT_EVM_SETTLEMENT_LATENCY_MS = 2000;
+
+export type PriceAwareSelectorOptions = {
+  /**
+   * Gets the USD price of one whole unit of an asset, or undefined if it is unknown.
+   * USDC is priced at $1 when this returns undefined.
+   */
+  getUsdPrice?: (network: Network, asset: string) => number | undefined | Promise<number | undefined>;
+  /** Estimated settlement latency per network, in milliseconds, overriding the defaults */
+  settlementLatencyMs?: Partial<Record<Network, number>>;
+  /** How many USD a second of settlement latency is worth when ranking. Defaults to $0.0001 */
+  latencyUsdPerSecond?: number;
+  /** Optional configuration for X402 operations (e.g., custom RPC URLs) */
+  config?: X402Config;
+};
+
+type RankedPaymentRequirements = {
+  paymentRequirements: PaymentRequirements;
+  costUsd: number;
+  latencyMs: number;
+};
+
+/**
+ * Creates a payment requirements selector that picks the cheapest payment the wallet can afford.
+ *
+ * Each candidate's balance is read on chain and candidates the wallet cannot afford, or whose balance
+ * cannot be read, are skipped.
+ * The others are ranked by their USD cost, normalized by the decimals of the asset, plus the cost
+ * of their estimated settlement latency. Candidates with an unknown USD price are ranked last.
+ *
+ * @param walletClient - The signer that will pay
+ * @param options - The ranking options
+ * @param options.getUsdPrice - Gets the USD price of one whole unit of an asset
+ * @param options.settlementLatencyMs - Estimated settlement latency per network, in milliseconds
+ * @param options.latencyUsdPerSecond - How many USD a second of settlement latency is worth
+ * @param options.config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns The async payment requirements selector
+ * @throws PaymentError with code "insufficient_funds" from the selector if no candidate is affordable, or
+ * "balance_check_failed" if no candidate is known to be affordable because balances could not be read
+ */
+export function createPriceAwareSelector(walletClient: Signer | MultiNetworkSigner, { getUsdPrice, settlementLatencyMs = {}, latencyUsdPerSecond = 0.0001, config }: PriceAwareSelectorOptions = {}): (...args: Parameters<PaymentRequirementsSelector>) => Promise<PaymentRequirements> {
+  /**
+   * Ranks a candidate, or returns undefined if the wallet cannot afford it
+   *
+   * @param paymentRequirements - The candidate payment requirements
+   * @param balanceErrors - Collects the errors of the balance reads that failed
+   * @returns The ranked candidate, or undefined if it is not affordable or its balance could not be read
+   */
+  async function rank(paymentRequirements: PaymentRequirements, balanceErrors: unknown[]): Promise<RankedPaymentRequirements | undefined> {
+    const { network, asset } = paymentRequirements;
+    const amount = BigInt(paymentRequirements.maxAmountRequired);
+
+    // requirements on networks that are not registered cannot be paid
+    if (!getNetworkRegistry().get(network)) {
+      return undefined;
+    }
+
+    let balance: bigint | undefined;
+    try {
+      balance = await getBalance(walletClient, network, asset, config);
+    } catch (error) {
+      // affordability cannot be confirmed, so the candidate is not worth signing for
+      balanceErrors.push(error);
+      return undefined;
+    }
+    if (balance === undefined || balance < amount) {
+      return undefined;
+    }
+
+    const isUsdc = asset.toLowerCase() === getUsdcChainConfigForChain(getNetworkId(network))?.usdcAddress.toLowerCase();
+    const usdPrice = (await getUsdPrice?.(network, asset)) ?? (isUsdc ? 1 : undefined);
+    const latencyMs = settlementLatencyMs[network] ?? DEFAULT_SETTLEMENT_LATENCY_MS[network] ?? DEFAULT_EVM_SETTLEMENT_LATENCY_MS;
+    if (usdPrice === undefined) {
+      return { paymentRequirements, costUsd: Infinity, latencyMs };
+    }
+
+    const decimals = isUsdc ? USDC_DECIMALS : await getDecimals(network, asset, config);
+    return { paymentRequirements, costUsd: (Number(amount) / 10 ** decimals) * usdPrice, latencyMs };
+  }
+
+  return async (paymentRequirements, network, scheme) => {
+    const candidates = paymentRequirements.filter(requirement => {
+      const isExpectedScheme = !scheme || requirement.scheme === scheme;
+      const isExpectedChain = !network || (Array.isArray(network) ? network.includes(requirement.network) : network == requirement.network);
+      return isExpectedScheme && isExpectedChain;
+    });
+
+    const balanceErrors: unknown[] = [];
+    const ranked = (await Promise.all(candidates.map(candidate => rank(candidate, balanceErrors)))).filter(candidate => candidate !== undefined);
+    if (ranked.length === 0 && balanceErrors.length > 0) {
+      const [error] = balanceErrors;
+      throw new PaymentError(`The wallet's balance could not be checked: ${error instanceof Error ? error.message : String(error)}`, "balance_check_failed", paymentRequirements[0]);
+    }
+    if (ranked.length === 0) {
+      throw new PaymentError("The wallet cannot afford any of the accepted payment requirements", "insufficient_funds", paymentRequirements[0]);
+    }
+
+    const score = (candidate: RankedPaymentRequirements) => candidate.costUsd + (candidate.latencyMs / 1000) * latencyUsdPerSecond;
+    ranked.sort((a, b) => score(a) - score(b) || a.latencyMs - b.latencyMs);
+    return ranked[0].paymentRequirements;
+  };
+}
+
+/**
+ * Gets the balance of an asset held by the signer paying on a network
+ *
+ * @param walletClient - The signer
+ * @param network - The network of the asset
+ * @param asset - The address of the asset
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns The balance in atomic units, or undefined if the signer cannot pay on the network
+ */
+async function getBalance(walletClient: Signer | MultiNetworkSigner, network: Network, asset: string, config?: X402Config): Promise<bigint | undefined> {
+  if (SupportedEVMNetworks.includes(network)) {
+    const signer = isMultiNetworkSigner(walletClient) ? walletClient.evm : walletClient;
+    if (!isEvmSignerWallet(signer)) {
+      return undefined;
+    }
+    const address = "account" in signer ? signer.account.address : signer.address;
+    return await getERC20Balance(evm.createConnectedClient(network), asset as Address, address);
+  }
+
+  if (SupportedSVMNetworks.includes(network)) {
+    const signer = isMultiNetworkSigner(walletClient) ? walletClient.svm : walletClient;
+    if (!isSvmSignerWallet(signer)) {
+      return undefined;
+    }
+    const rpc = getRpcClient(network, config?.svmConfig?.rpcUrl);
+    const mint = await fetchMint(rpc, asset as SolanaAddress);
+    const [tokenAccount] = await findAssociatedTokenPda({
+      mint: asset as SolanaAddress,
+      owner: signer.address,
+      tokenProgram: mint.programAddress,
+    });
+    const account = await fetchMaybeToken(rpc, tokenAccount);
+    return account.exists ? account.data.amount : BigInt(0);
+  }
+
+  return undefined;
+}
+
+/**
+ * Gets the number of decimals of an asset
+ *
+ * @param network - The network of the asset
+ * @param asset - The address of the asset
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns The decimals of the asset
+ */
+async function getDecimals(network: Network, asset: string, config?: X402Config): Promise<number> {
+  if (SupportedSVMNetworks.includes(network)) {
+    const mint = await fetchMint(getRpcClient(network, config?.svmConfig?.rpcUrl), asset as SolanaAddress);
+    return mint.data.decimals;
+  }
+  return await getERC20Decimals(evm.createConnectedClient(network), asset as Address);
+}
@@ -42,12 +42,12 @@ export function selectPaymentRequirements(paymentRequirements: PaymentRequiremen
 }
 
 /**
- * Selector for payment requirements.
+ * Selector for payment requirements. Selectors may be async, e.g. to check balances on chain.
  *
  * @param paymentRequirements - The payment requirements to select from.
  * @param network - The network to check against. If not provided, the network will not be checked.
  * @param scheme - The scheme to check against. If not provided, the scheme will not be checked.
  * @returns The payment requirement that is the most appropriate for the user.
  */
-export type PaymentRequirementsSelector = (paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: "exact") => PaymentRequirements;
+export type PaymentRequirementsSelector = (paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: "exact") => PaymentRequirements | Promise<PaymentRequirements>;
 
@@ -0,0 +1,63 @@
+import { Network } from "../types/shared";
+
+/**
+ * A payment signed under a spending policy
+ */
+export type SpendingLedgerEntry = {
+  network: Network;
+  asset: string;
+  /** The amount in atomic units of the asset, as a string so that entries can be serialized */
+  amount: string;
+  scheme: string;
+  payTo: string;
+  resource: string;
+  /** The address of the signer that paid, if known */
+  payer?: string;
+  /** Unix timestamp in milliseconds */
+  timestamp: number;
+};
+
+/**
+ * Stores the spend history that budgets are checked against.
+ * Implementations shared by several clients must make `record` durable before it resolves.
+ */
+export interface SpendingLedger {
+  /**
+   * Records a payment
+   *
+   * @param entry - The payment to record
+   */
+  record(entry: SpendingLedgerEntry): Promise<void>;
+  /**
+   * Gets the total amount spent on an asset since a given time
+   *
+   * @param network - The network of the asset
+   * @param asset - The address of the asset
+   * @param since - Unix timestamp in milliseconds after which payments are counted
+   * @returns The amount spent in atomic units
+   */
+  getSpent(network: Network, asset: string, since: number): Promise<bigint>;
+}
+
+// budgets are at most daily, so older entries can be forgotten
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates a spending ledger that keeps the last day of payments in memory, for a single client process
+ *
+ * @returns The in-memory spending ledger
+ */
+export function createInMemorySpendingLedger(): SpendingLedger {
+  let entries: SpendingLedgerEntry[] = [];
+
+  return {
+    record: async entry => {
+      entries = entries.filter(existing => existing.timestamp > Date.now() - RETENTION_MS);
+      entries.push(entry);
+    },
+    getSpent: async (network, asset, since) =>
+      entries
+        .filter(entry => entry.network === network && entry.asset.toLowerCase() === asset.toLowerCase() && entry.timestamp > since)
+        .reduce((total, entry) => total + BigInt(entry.amount), BigInt(0)),
+  };
+}
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSpendingPolicy, SpendingPolicy } from "./spendingPolicy";
+import { createInMemorySpendingLedger } from "./spendingLedger";
+import { PaymentRequirements } from "../types/verify";
+
+const asset = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const payTo = "0x1234567890123456789012345678901234567890";
+
+const paymentRequirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "10000",
+  resource: "https://api.example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo,
+  maxTimeoutSeconds: 300,
+  asset,
+};
+
+/**
+ * Authorizes a payment and records it, as if it went through
+ *
+ * @param policy - The spending policy
+ * @param requirements - The payment requirements to pay
+ * @returns The authorization of the payment
+ */
+async function pay(policy: SpendingPolicy, requirements: PaymentRequirements = paymentRequirements) {
+  const authorization = await policy.authorize(requirements);
+  if (authorization.allowed) {
+    await authorization.record();
+  }
+  return authorization;
+}
+
+describe("createSpendingPolicy", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should allow payments when no rule applies", async () => {
+    const policy = createSpendingPolicy({});
+
+    expect(await policy.evaluate(paymentRequirements)).toEqual({ allowed: true });
+  });
+
+  it("should reject payments above the maximum per request", async () => {
+    const policy = createSpendingPolicy({ maxAmountPerRequest: BigInt(9999) });
+
+    expect(await policy.evaluate(paymentRequirements)).toEqual({
+      allowed: false,
+      violations: [
+        expect.objectContaining({
+          reason: "max_amount_per_request_exceeded",
+          limit: "9999",
+          amount: "10000",
+        }),
+      ],
+    });
+  });
+
+  it("should apply the rules of the scheme", async () => {
+    const policy = createSpendingPolicy({
+      schemes: { exact: { maxAmountPerRequest: BigInt(5000) }, upto: { allowed: false } },
+    });
+
+    expect(await policy.evaluate(paymentRequirements)).toMatchObject({
+      violations: [{ reason: "max_amount_per_request_exceeded", limit: "5000" }],
+    });
+    expect(
+      await policy.evaluate({ ...paymentRequirements, scheme: "upto", maxAmountRequired: "1" }),
+    ).toMatchObject({ violations: [{ reason: "scheme_not_allowed" }] });
+  });
+
+  it("should check recipients against the allow and deny lists case-insensitively on EVM", async () => {
+    const allowPolicy = createSpendingPolicy({ payTo: { allow: [payTo.toUpperCase()] } });
+    const denyPolicy = createSpendingPolicy({ payTo: { deny: [payTo] } });
+    const otherPolicy = createSpendingPolicy({
+      payTo: { allow: ["0x0000000000000000000000000000000000000001"] },
+    });
+
+    expect(await allowPolicy.evaluate(paymentRequirements)).toEqual({ allowed: true });
+    expect(await denyPolicy.evaluate(paymentRequirements)).toMatchObject({
+      violations: [{ reason: "pay_to_denied" }],
+    });
+    expect(await otherPolicy.evaluate(paymentRequirements)).toMatchObject({
+      violations: [{ reason: "pay_to_not_allowed" }],
+    });
+  });
+
+  it("should check resource hosts against the allow and deny lists", async () => {
+    const allowPolicy = createSpendingPolicy({ resourceHosts: { allow: ["API.example.com"] } });
+    const denyPolicy = createSpendingPolicy({
+      resourceHosts: { allow: ["api.example.com"], deny: ["api.example.com"] },
+    });
+    const otherPolicy = createSpendingPolicy({ resourceHosts: { allow: ["example.org"] } });
+
+    expect(await allowPolicy.evaluate(paymentRequirements)).toEqual({ allowed: true });
+    expect(await denyPolicy.evaluate(paymentRequirements)).toMatchObject({
+      violations: [{ reason: "resource_host_denied" }],
+    });
+    expect(await otherPolicy.evaluate(paymentRequirements)).toMatchObject({
+      violations: [{ reason: "resource_host_not_allowed" }],
+    });
+  });
+
+  it("should enforce rolling hourly and daily budgets per asset and network", async () => {
+    const policy = createSpendingPolicy({
+      budgets: [
+        {
+          network: "base-sepolia",
+          asset: asset.toLowerCase(),
+          hourly: BigInt(20000),
+          daily: BigInt(30000),
+        },
+      ],
+    });
+
+    expect(await pay(policy)).toMatchObject({ allowed: true });
+    expect(await pay(policy)).toMatchObject({ allowed: true });
+    expect(await pay(policy)).toMatchObject({
+      violations: [{ reason: "hourly_budget_exceeded", limit: "20000", amount: "30000" }],
+    });
+    expect(await policy.evaluate({ ...paymentRequirements, network: "base" })).toEqual({
+      allowed: true,
+    });
+
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    expect(await pay(policy)).toMatchObject({ allowed: true });
+    expect(await pay(policy)).toMatchObject({
+      violations: [{ reason: "daily_budget_exceeded", limit: "30000", amount: "40000" }],
+    });
+
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(await pay(policy)).toMatchObject({ allowed: true });
+  });
+
+  it("should not let concurrent payments overspend a budget", async () => {
+    const policy = createSpendingPolicy({
+      budgets: [{ network: "base-sepolia", asset, hourly: BigInt(10000) }],
+    });
+
+    const results = await Promise.all([
+      policy.authorize(paymentRequirements),
+      policy.authorize(paymentRequirements),
+    ]);
+
+    expect(results.filter(result => result.allowed)).toHaveLength(1);
+  });
+
+  it("should hold authorized payments against the budgets until they are released", async () => {
+    const ledger = createInMemorySpendingLedger();
+    const record = vi.spyOn(ledger, "record");
+    const policy = createSpendingPolicy({
+      ledger,
+      budgets: [{ network: "base-sepolia", asset, hourly: BigInt(10000) }],
+    });
+
+    const authorization = await policy.authorize(paymentRequirements);
+    expect(await policy.evaluate(paymentRequirements)).toMatchObject({
+      violations: [{ reason: "hourly_budget_exceeded" }],
+    });
+    if (authorization.allowed) {
+      authorization.release();
+    }
+
+    expect(await policy.evaluate(paymentRequirements)).toEqual({ allowed: true });
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it("should record authorized payments in the ledger", async () => {
+    const ledger = createInMemorySpendingLedger();
+    const record = vi.spyOn(ledger, "record");
+    const policy = createSpendingPolicy({ ledger, maxAmountPerRequest: BigInt(10000) });
+
+    await pay(policy);
+    await pay(policy, { ...paymentRequirements, maxAmountRequired: "10001" });
+
+    expect(record).toHaveBeenCalledTimes(1);
+    expect(record).toHaveBeenCalledWith({
+      network: "base-sepolia",
+      asset,
+      amount: "10000",
+      scheme: "exact",
+      payTo,
+      resource: paymentRequirements.resource,
+      payer: undefined,
+      timestamp: Date.now(),
+    });
+    expect(await ledger.getSpent("base-sepolia", asset, 0)).toBe(BigInt(10000));
+  });
+});
@@ -0,0 +1,314 @@
+import { getAddress } from "viem";
+import { isEvmSignerWallet, isMultiNetworkSigner, isSvmSignerWallet, MultiNetworkSigner, Network, Signer, SupportedEVMNetworks } from "../types/shared";
+import { PaymentRequirements } from "../types/verify";
+import { createInMemorySpendingLedger, SpendingLedger, SpendingLedgerEntry } from "./spendingLedger";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type SpendingViolationReason =
+  | "max_amount_per_request_exceeded"
+  | "hourly_budget_exceeded"
+  | "daily_budget_exceeded"
+  | "pay_to_denied"
+  | "pay_to_not_allowed"
+  | "resource_host_denied"
+  | "resource_host_not_allowed"
+  | "scheme_not_allowed";
+
+export type SpendingViolation = {
+  reason: SpendingViolationReason;
+  message: string;
+  /** The limit that was exceeded, in atomic units, for amount violations */
+  limit?: string;
+  /** The amount that would have been spent against the limit, in atomic units */
+  amount?: string;
+};
+
+export type SpendingEvaluation = { allowed: true } | { allowed: false; violations: SpendingViolation[] };
+
+/**
+ * An authorized payment is held against the budgets until it is recorded once it went through,
+ * or released if it did not
+ */
+export type SpendingAuthorization =
+  | {
+      allowed: true;
+      /** Records the payment in the ledger */
+      record: () => Promise<void>;
+      /** Releases the payment without recording it, e.g. when it could not be signed or sent */
+      release: () => void;
+    }
+  | { allowed: false; violations: SpendingViolation[] };
+
+/**
+ * A rolling budget for one asset on one network, in atomic units of the asset
+ */
+export type SpendingBudget = {
+  network: Network;
+  asset: string;
+  /** The maximum spent over the last hour */
+  hourly?: bigint;
+  /** The maximum spent over the last 24 hours */
+  daily?: bigint;
+};
+
+export type SpendingListRule = {
+  /** If set, only these values are allowed */
+  allow?: string[];
+  /** These values are denied, even if allowed */
+  deny?: string[];
+};
+
+export type SchemeSpendingRule = {
+  /** Set to false to never pay with the scheme */
+  allowed?: boolean;
+  /** The maximum amount of a single payment with the scheme, in atomic units */
+  maxAmountPerRequest?: bigint;
+};
+
+export type SpendingPolicyConfig = {
+  /** The maximum amount of a single payment, in atomic units */
+  maxAmountPerRequest?: bigint;
+  /** Rolling hourly and daily budgets per asset and network */
+  budgets?: SpendingBudget[];
+  /** Allowed and denied recipients. EVM addresses are compared case-insensitively */
+  payTo?: SpendingListRule;
+  /** Allowed and denied hosts of the paid resources, e.g. "api.example.com" */
+  resourceHosts?: SpendingListRule;
+  /** Rules per scheme, e.g. `{ upto: { allowed: false } }` */
+  schemes?: Record<string, SchemeSpendingRule>;
+  /** The store of the spend history. Defaults to an in-memory ledger */
+  ledger?: SpendingLedger;
+};
+
+/**
+ * Limits what a client signs. Passed to `createPaymentHeader` through `X402Config.spendingPolicy`.
+ */
+export type SpendingPolicy = {
+  /**
+   * Checks a payment against the policy without recording it
+   *
+   * @param paymentRequirements - The payment requirements about to be signed
+   * @returns Whether the payment is allowed, with the violated rules if not
+   */
+  evaluate: (paymentRequirements: PaymentRequirements) => Promise<SpendingEvaluation>;
+  /**
+   * Checks a payment against the policy and holds it against the budgets if it is allowed, until
+   * it is recorded or released. Concurrent calls are serialized so that they cannot overspend a
+   * budget together.
+   *
+   * @param paymentRequirements - The payment requirements about to be signed
+   * @param signer - The signer paying, recorded in the ledger
+   * @returns The authorization of the payment, with the violated rules if it is not allowed
+   */
+  authorize: (paymentRequirements: PaymentRequirements, signer?: Signer | MultiNetworkSigner) => Promise<SpendingAuthorization>;
+};
+
+/**
+ * Creates a spending policy, evaluated before a payment is signed
+ *
+ * @param config - The rules of the policy
+ * @returns The spending policy
+ */
+export function createSpendingPolicy(config: SpendingPolicyConfig): SpendingPolicy {
+  const ledger = config.ledger ?? createInMemorySpendingLedger();
+  // the payments authorized but neither recorded nor released yet
+  const held = new Set<Omit<SpendingLedgerEntry, "timestamp">>();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Gets the total amount of the payments held on an asset
+   *
+   * @param network - The network of the asset
+   * @param asset - The address of the asset
+   * @returns The amount held in atomic units
+   */
+  function getHeld(network: Network, asset: string): bigint {
+    return [...held]
+      .filter(entry => entry.network === network && normalizeAddress(entry.asset, network) === normalizeAddress(asset, network))
+      .reduce((total, entry) => total + BigInt(entry.amount), BigInt(0));
+  }
+
+  /**
+   * Checks a payment against the policy
+   *
+   * @param paymentRequirements - The payment requirements about to be signed
+   * @returns Whether the payment is allowed, with the violated rules if not
+   */
+  async function evaluate(paymentRequirements: PaymentRequirements): Promise<SpendingEvaluation> {
+    const { scheme, network, asset, payTo, resource } = paymentRequirements;
+    const amount = BigInt(paymentRequirements.maxAmountRequired);
+    const violations: SpendingViolation[] = [];
+
+    const schemeRule = config.schemes?.[scheme];
+    if (schemeRule?.allowed === false) {
+      violations.push({ reason: "scheme_not_allowed", message: `Payments with scheme ${scheme} are not allowed` });
+    }
+
+    for (const maxAmount of [config.maxAmountPerRequest, schemeRule?.maxAmountPerRequest]) {
+      if (maxAmount !== undefined && amount > maxAmount) {
+        violations.push({
+          reason: "max_amount_per_request_exceeded",
+          message: `Payment amount ${amount} exceeds the maximum of ${maxAmount} per request`,
+          limit: maxAmount.toString(),
+          amount: amount.toString(),
+        });
+      }
+    }
+
+    const payToViolation = checkList(config.payTo, normalizeAddress(payTo, network), value => normalizeAddress(value, network));
+    if (payToViolation) {
+      violations.push({
+        reason: payToViolation === "denied" ? "pay_to_denied" : "pay_to_not_allowed",
+        message: `Payments to ${payTo} are ${payToViolation === "denied" ? "denied" : "not allowed"}`,
+      });
+    }
+
+    const host = getHost(resource);
+    const hostViolation = checkList(config.resourceHosts, host, value => value.toLowerCase());
+    if (hostViolation) {
+      violations.push({
+        reason: hostViolation === "denied" ? "resource_host_denied" : "resource_host_not_allowed",
+        message: `Payments for resources on ${host || resource} are ${hostViolation === "denied" ? "denied" : "not allowed"}`,
+      });
+    }
+
+    const now = Date.now();
+    const budgets = (config.budgets ?? []).filter(budget => budget.network === network && normalizeAddress(budget.asset, network) === normalizeAddress(asset, network));
+    for (const budget of budgets) {
+      for (const [limit, windowMs, reason, period] of [
+        [budget.hourly, HOUR_MS, "hourly_budget_exceeded", "hourly"],
+        [budget.daily, DAY_MS, "daily_budget_exceeded", "daily"],
+      ] as const) {
+        if (limit === undefined) {
+          continue;
+        }
+        const spent = (await ledger.getSpent(network, asset, now - windowMs)) + getHeld(network, asset);
+        if (spent + amount > limit) {
+          violations.push({
+            reason,
+            message: `Payment amount ${amount} would bring the ${period} spend on ${asset} to ${spent + amount}, above the budget of ${limit}`,
+            limit: limit.toString(),
+            amount: (spent + amount).toString(),
+          });
+        }
+      }
+    }
+
+    return violations.length > 0 ? { allowed: false, violations } : { allowed: true };
+  }
+
+  /**
+   * Checks a payment against the policy and holds it if it is allowed
+   *
+   * @param paymentRequirements - The payment requirements about to be signed
+   * @param signer - The signer paying, recorded in the ledger
+   * @returns The authorization of the payment, with the violated rules if it is not allowed
+   */
+  function authorize(paymentRequirements: PaymentRequirements, signer?: Signer | MultiNetworkSigner): Promise<SpendingAuthorization> {
+    const result = queue.then(async (): Promise<SpendingAuthorization> => {
+      const evaluation = await evaluate(paymentRequirements);
+      if (!evaluation.allowed) {
+        return evaluation;
+      }
+
+      const entry = {
+        network: paymentRequirements.network,
+        asset: paymentRequirements.asset,
+        amount: paymentRequirements.maxAmountRequired,
+        scheme: paymentRequirements.scheme,
+        payTo: paymentRequirements.payTo,
+        resource: paymentRequirements.resource,
+        payer: signer && getSignerAddress(signer, paymentRequirements.network),
+      };
+      let isHeld = true;
+      held.add(entry);
+      return {
+        allowed: true,
+        record: async () => {
+          if (!isHeld) {
+            return;
+          }
+          isHeld = false;
+          // the payment stays held until it is recorded, so that it is never left out of the budgets
+          try {
+            await ledger.record({ ...entry, timestamp: Date.now() });
+          } finally {
+            held.delete(entry);
+          }
+        },
+        release: () => {
+          isHeld = false;
+          held.delete(entry);
+        },
+      };
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  return { evaluate, authorize };
+}
+
+/**
+ * Checks a value against an allow and deny list
+ *
+ * @param rule - The allow and deny lists
+ * @param value - The normalized value to check
+ * @param normalize - Normalizes the values of the lists
+ * @returns "denied" or "not_allowed" if the value violates the rule, undefined otherwise
+ */
+function checkList(rule: SpendingListRule | undefined, value: string, normalize: (value: string) => string): "denied" | "not_allowed" | undefined {
+  if (rule?.deny?.some(denied => normalize(denied) === value)) {
+    return "denied";
+  }
+  if (rule?.allow && !rule.allow.some(allowed => normalize(allowed) === value)) {
+    return "not_allowed";
+  }
+  return undefined;
+}
+
+/**
+ * Normalizes an address for comparison, since EVM addresses are case-insensitive
+ *
+ * @param address - The address to normalize
+ * @param network - The network of the address
+ * @returns The normalized address
+ */
+function normalizeAddress(address: string, network: Network): string {
+  return SupportedEVMNetworks.includes(network) ? address.toLowerCase() : address;
+}
+
+/**
+ * Gets the host of a resource URL
+ *
+ * @param resource - The resource URL
+ * @returns The lowercase host, or an empty string if the resource is not a URL
+ */
+function getHost(resource: string): string {
+  try {
+    return new URL(resource).host.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Gets the address of the signer paying on a network
+ *
+ * @param signer - The signer
+ * @param network - The network of the payment
+ * @returns The address of the signer, if it can be determined
+ */
+function getSignerAddress(signer: Signer | MultiNetworkSigner, network: Network): string | undefined {
+  const networkSigner = isMultiNetworkSigner(signer) ? (SupportedEVMNetworks.includes(network) ? signer.evm : signer.svm) : signer;
+  if (isSvmSignerWallet(networkSigner)) {
+    return networkSigner.address;
+  }
+  if (isEvmSignerWallet(networkSigner)) {
+    const address = "account" in networkSigner ? networkSigner.account?.address : networkSigner.address;
+    return address ? getAddress(address) : undefined;
+  }
+  return undefined;
+}
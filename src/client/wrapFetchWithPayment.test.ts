@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { wrapFetchWithPayment } from "./wrapFetchWithPayment";
+import { createPaymentHeader } from "./createPaymentHeader";
+import { PaymentError } from "./paymentError";
+import { createSpendingPolicy } from "./spendingPolicy";
+import { Signer } from "../types/shared";
+import { encodePayment } from "../schemes/utils";
+import { withFetchPayment, x402ResourceServer } from "../server";
+import { decodePaymentSignatureHeader, encodePaymentRequiredHeader, encodePaymentResponseHeader, paymentRequiredToV2, PaymentRequirements, settleResponseHeader } from "../types/verify";
+
+vi.mock("./createPaymentHeader", () => ({
+  createPaymentHeader: vi.fn().mockResolvedValue("payment-header"),
+}));
+
+describe("wrapFetchWithPayment", () => {
+  const walletClient = { account: {}, chain: { id: 84532 }, transport: {} } as unknown as Signer;
+
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "10000",
+    resource: "https://example.com/resource",
+    description: "Test resource",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890",
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  };
+
+  const paymentRequired = (accepts: PaymentRequirements[] = [paymentRequirements], error?: string) =>
+    new Response(JSON.stringify({ x402Version: 1, accepts, ...(error ? { error } : {}) }), { status: 402 });
+
+  const settlement = { success: true, transaction: "0xtx", network: "base-sepolia" as const, payer: "0x1234567890123456789012345678901234567890" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return responses that do not require payment as is", async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response("ok"));
+
+    const response = await wrapFetchWithPayment(fetch, walletClient)("https://example.com/resource");
+
+    expect(await response.text()).toBe("ok");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pay and retry once with the payment header", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(paymentRequired())
+      .mockResolvedValueOnce(new Response("paid", { headers: { "X-PAYMENT-RESPONSE": settleResponseHeader(settlement) } }));
+
+    const response = await wrapFetchWithPayment(fetch, walletClient)("https://example.com/resource", { headers: { Accept: "application/json" } });
+
+    expect(await response.text()).toBe("paid");
+    expect(response.paymentResponse).toEqual(settlement);
+    expect(createPaymentHeader).toHaveBeenCalledWith(walletClient, 1, paymentRequirements, undefined);
+    const headers = fetch.mock.calls[1][1].headers as Headers;
+    expect(headers.get("X-PAYMENT")).toBe("payment-header");
+    expect(headers.get("Accept")).toBe("application/json");
+    expect(headers.get("Access-Control-Expose-Headers")).toBe("X-PAYMENT-RESPONSE");
+  });
+
+  it("should select the requirements with the custom selector", async () => {
+    const otherRequirements = { ...paymentRequirements, maxAmountRequired: "5000" };
+    const fetch = vi.fn().mockResolvedValueOnce(paymentRequired([paymentRequirements, otherRequirements])).mockResolvedValueOnce(new Response("paid"));
+    const paymentRequirementsSelector = vi.fn().mockReturnValue(otherRequirements);
+
+    await wrapFetchWithPayment(fetch, walletClient, { paymentRequirementsSelector })("https://example.com/resource");
+
+    expect(paymentRequirementsSelector).toHaveBeenCalledWith([paymentRequirements, otherRequirements], "base-sepolia", "exact");
+    expect(createPaymentHeader).toHaveBeenCalledWith(walletClient, 1, otherRequirements, undefined);
+  });
+
+  it("should refuse to pay more than the maximum value", async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(paymentRequired());
+
+    const error = await wrapFetchWithPayment(fetch, walletClient, { maxValue: BigInt(9999) })("https://example.com/resource").catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentError);
+    expect(error.code).toBe("max_value_exceeded");
+    expect(createPaymentHeader).not.toHaveBeenCalled();
+  });
+
+  it("should throw a PaymentError when the paid retry returns 402 again", async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(paymentRequired()).mockResolvedValueOnce(paymentRequired([paymentRequirements], "insufficient_funds"));
+
+    const error = await wrapFetchWithPayment(fetch, walletClient)("https://example.com/resource").catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentError);
+    expect(error).toMatchObject({
+      code: "payment_rejected",
+      message: "Payment was rejected: insufficient_funds",
+      paymentRequirements,
+      response: { error: "insufficient_funds" },
+    });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should record the spend of the spending policy once the paid request went through", async () => {
+    const spendingPolicy = createSpendingPolicy({ budgets: [{ network: "base-sepolia", asset: paymentRequirements.asset, hourly: BigInt(10000) }] });
+    const fetch = vi.fn().mockResolvedValueOnce(paymentRequired()).mockResolvedValueOnce(new Response("paid"));
+
+    await wrapFetchWithPayment(fetch, walletClient, { config: { spendingPolicy } })("https://example.com/resource");
+
+    expect(createPaymentHeader).toHaveBeenCalledWith(walletClient, 1, paymentRequirements, { spendingPolicy: undefined });
+    expect(await spendingPolicy.evaluate(paymentRequirements)).toMatchObject({ violations: [{ reason: "hourly_budget_exceeded" }] });
+  });
+
+  it("should not record the spend of the spending policy for rejected payments", async () => {
+    const spendingPolicy = createSpendingPolicy({ budgets: [{ network: "base-sepolia", asset: paymentRequirements.asset, hourly: BigInt(10000) }] });
+    const fetch = vi.fn().mockResolvedValueOnce(paymentRequired()).mockResolvedValueOnce(paymentRequired([paymentRequirements], "insufficient_funds"));
+
+    await expect(wrapFetchWithPayment(fetch, walletClient, { config: { spendingPolicy } })("https://example.com/resource")).rejects.toMatchObject({ code: "payment_rejected" });
+
+    expect(await spendingPolicy.evaluate(paymentRequirements)).toEqual({ allowed: true });
+  });
+
+  it("should not record the spend of the spending policy when the paid request fails", async () => {
+    const spendingPolicy = createSpendingPolicy({ budgets: [{ network: "base-sepolia", asset: paymentRequirements.asset, hourly: BigInt(10000) }] });
+    const fetch = vi.fn().mockResolvedValueOnce(paymentRequired()).mockRejectedValueOnce(new TypeError("fetch failed"));
+
+    await expect(wrapFetchWithPayment(fetch, walletClient, { config: { spendingPolicy } })("https://example.com/resource")).rejects.toThrow("fetch failed");
+
+    expect(await spendingPolicy.evaluate(paymentRequirements)).toEqual({ allowed: true });
+  });
+
+  it("should throw a PaymentError when the 402 response has no valid requirements", async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(new Response("Payment Required", { status: 402 }));
+
+    await expect(wrapFetchWithPayment(fetch, walletClient)("https://example.com/resource")).rejects.toMatchObject({ code: "invalid_payment_requirements" });
+  });
+
+  it("should pay the 402 responses of x402ResourceServer", async () => {
+    const server = new x402ResourceServer(paymentRequirements.payTo as `0x${string}`, { "GET /resource": { price: "$0.01", network: "base-sepolia" } });
+    const serverResponse = await withFetchPayment(server, async () => new Response("paid"))(new Request("https://example.com/resource"));
+    // answer with the version 1 body only, whose error is free text
+    const body = await serverResponse.json();
+    expect(body.error).toBe("X-PAYMENT header is required");
+    const fetch = vi.fn().mockResolvedValueOnce(new Response(JSON.stringify(body), { status: 402 })).mockResolvedValueOnce(new Response("paid"));
+
+    const response = await wrapFetchWithPayment(fetch, walletClient)("https://example.com/resource");
+
+    expect(await response.text()).toBe("paid");
+    expect(createPaymentHeader).toHaveBeenCalledWith(walletClient, 1, expect.objectContaining({ network: "base-sepolia", maxAmountRequired: "10000", asset: paymentRequirements.asset }), undefined);
+  });
+
+  it("should report free-text errors of rejected payments", async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(paymentRequired()).mockResolvedValueOnce(paymentRequired([paymentRequirements], "Payment amount is too low"));
+
+    await expect(wrapFetchWithPayment(fetch, walletClient)("https://example.com/resource")).rejects.toMatchObject({ code: "payment_rejected", message: "Payment was rejected: Payment amount is too low" });
+  });
+
+  it("should retry requests with a copy of the original request", async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(paymentRequired()).mockResolvedValueOnce(new Response("paid"));
+    const request = new Request("https://example.com/resource", { method: "POST", body: "body", headers: { "X-Custom": "value" } });
+
+    await wrapFetchWithPayment(fetch, walletClient)(request);
+
+    const [retryRequest, retryInit] = fetch.mock.calls[1];
+    expect(await (retryRequest as Request).text()).toBe("body");
+    expect((retryInit.headers as Headers).get("X-Custom")).toBe("value");
+  });
+
+  it("should pay with version 2 when the server sends a PAYMENT-REQUIRED header", async () => {
+    const payload = { signature: "0x1234", authorization: { from: settlement.payer, to: paymentRequirements.payTo, value: "10000", validAfter: "0", validBefore: "1740672154", nonce: `0x${"12".repeat(32)}` } };
+    vi.mocked(createPaymentHeader).mockResolvedValueOnce(encodePayment({ x402Version: 2, scheme: "exact", network: "base-sepolia", payload }));
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("{}", { status: 402, headers: { "PAYMENT-REQUIRED": encodePaymentRequiredHeader(paymentRequiredToV2([paymentRequirements])) } }))
+      .mockResolvedValueOnce(new Response("paid", { headers: { "PAYMENT-RESPONSE": encodePaymentResponseHeader(settlement) } }));
+
+    const response = await wrapFetchWithPayment(fetch, walletClient)("https://example.com/resource");
+
+    expect(response.paymentResponse).toEqual(settlement);
+    expect(createPaymentHeader).toHaveBeenCalledWith(walletClient, 2, paymentRequirements, undefined);
+    const headers = fetch.mock.calls[1][1].headers as Headers;
+    expect(headers.get("X-PAYMENT")).toBeNull();
+    expect(decodePaymentSignatureHeader(headers.get("PAYMENT-SIGNATURE")!)).toEqual({
+      x402Version: 2,
+      resource: { url: paymentRequirements.resource, description: paymentRequirements.description, mimeType: paymentRequirements.mimeType },
+      accepted: { scheme: "exact", network: "eip155:84532", amount: "10000", asset: paymentRequirements.asset, payTo: paymentRequirements.payTo, maxTimeoutSeconds: 300 },
+      payload,
+    });
+    expect(headers.get("Access-Control-Expose-Headers")).toBe("PAYMENT-RESPONSE");
+  });
+});
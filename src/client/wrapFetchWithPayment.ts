@@ -0,0 +1,163 @@
+import { ChainIdToNetwork, isEvmSignerWallet, isMultiNetworkSigner, isSvmSignerWallet, MultiNetworkSigner, Network, Signer, SupportedSVMNetworks } from "../types/shared";
+import { X402Config } from "../types/config";
+import { decodePayment } from "../schemes/utils";
+import { decodePaymentRequiredHeader, decodePaymentResponseHeader, encodePaymentSignatureHeader, paymentPayloadToV2, paymentRequiredFromV2, PaymentRequirements, PaymentRequirementsSchema, SettleResponse, settleResponseFromHeader, x402Headers, x402PaymentRequiredResponse, x402PaymentRequiredResponseSchema } from "../types/verify";
+import { createPaymentHeader } from "./createPaymentHeader";
+import { PaymentError, SpendingPolicyError } from "./paymentError";
+import { PaymentRequirementsSelector, selectPaymentRequirements } from "./selectPaymentRequirements";
+
+export type WrapFetchWithPaymentOptions = {
+  /** The maximum amount to pay for a single request, in atomic units of the asset. Defaults to 0.1 USDC */
+  maxValue?: bigint;
+  /** Selects the payment requirements to pay from those accepted by the server */
+  paymentRequirementsSelector?: PaymentRequirementsSelector;
+  /** Optional configuration for X402 operations (e.g., custom RPC URLs) */
+  config?: X402Config;
+};
+
+/**
+ * A response to a paid request, with the settlement decoded from its X-PAYMENT-RESPONSE header
+ */
+export type PaidResponse = Response & {
+  /** The settlement of the payment, or undefined if no payment was made or the server did not report it */
+  paymentResponse?: SettleResponse;
+};
+
+/**
+ * Wraps fetch so that 402 Payment Required responses are paid automatically.
+ *
+ * When a request is answered with 402, the payment requirements of the response are parsed, one is
+ * selected and paid by signing a payment header, and the request is retried once with the
+ * X-PAYMENT header. The settlement returned in X-PAYMENT-RESPONSE is exposed as `paymentResponse`.
+ * Servers sending a version 2 PAYMENT-REQUIRED header are paid with version 2 instead, through
+ * the PAYMENT-SIGNATURE and PAYMENT-RESPONSE headers.
+ *
+ * @param fetch - The fetch function to wrap
+ * @param walletClient - The signer used to pay for requests
+ * @param options - The payment options
+ * @param options.maxValue - The maximum amount to pay for a single request, in atomic units
+ * @param options.paymentRequirementsSelector - Selects the payment requirements to pay
+ * @param options.config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A fetch function paying for 402 responses
+ * @throws PaymentError if the payment requirements are invalid, exceed `maxValue` or the payment is rejected
+ */
+export function wrapFetchWithPayment(fetch: typeof globalThis.fetch, walletClient: Signer | MultiNetworkSigner, { maxValue = BigInt(0.1 * 10 ** 6), paymentRequirementsSelector = selectPaymentRequirements, config }: WrapFetchWithPaymentOptions = {}) {
+  return async (input: RequestInfo | URL, init?: RequestInit): Promise<PaidResponse> => {
+    // a request body can only be read once, so keep a copy for the paid retry
+    const isRequest = typeof Request !== "undefined" && input instanceof Request;
+    const retryInput = isRequest ? input.clone() : input;
+
+    const response = await fetch(input, init);
+    if (response.status !== 402) {
+      return response;
+    }
+
+    const paymentRequired = await parsePaymentRequired(response);
+    if (!paymentRequired || paymentRequired.accepts.length === 0) {
+      throw new PaymentError("The 402 response does not contain valid payment requirements", "invalid_payment_requirements");
+    }
+    const { x402Version, accepts } = paymentRequired;
+
+    const paymentRequirements = await paymentRequirementsSelector(accepts, getSignerNetworks(walletClient), "exact");
+    if (BigInt(paymentRequirements.maxAmountRequired) > maxValue) {
+      throw new PaymentError(`Payment amount ${paymentRequirements.maxAmountRequired} exceeds the maximum allowed ${maxValue}`, "max_value_exceeded", paymentRequirements, paymentRequired.response);
+    }
+
+    // the spend is recorded once the paid request went through, and released if it did not
+    const authorization = await config?.spendingPolicy?.authorize(paymentRequirements, walletClient);
+    if (authorization && !authorization.allowed) {
+      throw new SpendingPolicyError(authorization.violations, paymentRequirements);
+    }
+
+    let paidResponse: PaidResponse;
+    try {
+      const paymentHeader = await createPaymentHeader(walletClient, x402Version, paymentRequirements, authorization ? { ...config, spendingPolicy: undefined } : config);
+
+      const headers = new Headers(isRequest ? (input as Request).headers : undefined);
+      new Headers(init?.headers).forEach((value, name) => headers.set(name, value));
+      if (x402Version === 2) {
+        // scheme implementations encode the version 1 payload, which version 2 wraps with the accepted requirements
+        headers.set(x402Headers[2].payment, encodePaymentSignatureHeader(paymentPayloadToV2(decodePayment(paymentHeader), paymentRequirements)));
+      } else {
+        headers.set(x402Headers[1].payment, paymentHeader);
+      }
+      headers.set("Access-Control-Expose-Headers", x402Headers[x402Version].paymentResponse);
+
+      paidResponse = await fetch(retryInput, { ...init, headers });
+    } catch (error) {
+      authorization?.release();
+      throw error;
+    }
+
+    // servers only settle payments for the resources they served
+    if (paidResponse.status >= 400) {
+      authorization?.release();
+    } else {
+      await authorization?.record();
+    }
+
+    if (paidResponse.status === 402) {
+      const rejection = await parsePaymentRequired(paidResponse);
+      const reason = rejection?.error;
+      throw new PaymentError(reason ? `Payment was rejected: ${reason}` : "Payment was rejected", "payment_rejected", paymentRequirements, rejection?.response);
+    }
+
+    const paymentResponseHeader = paidResponse.headers.get(x402Headers[x402Version].paymentResponse);
+    if (paymentResponseHeader) {
+      try {
+        paidResponse.paymentResponse = x402Version === 2 ? decodePaymentResponseHeader(paymentResponseHeader) : settleResponseFromHeader(paymentResponseHeader);
+      } catch {
+        // the resource was served, so an undecodable settlement header is not an error
+      }
+    }
+    return paidResponse;
+  };
+}
+
+/**
+ * Parses the payment requirements of a 402 response, from the version 2 PAYMENT-REQUIRED header
+ * if the server sent one, or from the version 1 JSON body otherwise
+ *
+ * @param response - The 402 response
+ * @returns The x402 version, error and payment requirements of the response, with no requirements if they are invalid, or undefined if it is not an x402 response
+ */
+async function parsePaymentRequired(response: Response): Promise<{ x402Version: 1 | 2; accepts: PaymentRequirements[]; error?: string; response?: x402PaymentRequiredResponse } | undefined> {
+  const paymentRequiredHeader = response.headers?.get(x402Headers[2].paymentRequired);
+  if (paymentRequiredHeader) {
+    try {
+      const paymentRequired = decodePaymentRequiredHeader(paymentRequiredHeader);
+      const accepts = paymentRequiredFromV2(paymentRequired);
+      return { x402Version: 2, accepts, error: paymentRequired.error };
+    } catch {
+      return undefined;
+    }
+  }
+
+  // errors are free text, so only the payment requirements are validated
+  const paymentRequired = x402PaymentRequiredResponseSchema.safeParse(await response.json().catch(() => undefined));
+  if (!paymentRequired.success) {
+    return undefined;
+  }
+  const parsedAccepts = (paymentRequired.data.accepts ?? []).map(requirements => PaymentRequirementsSchema.safeParse(requirements));
+  const accepts = parsedAccepts.every(requirements => requirements.success) ? parsedAccepts.map(requirements => requirements.data!) : [];
+  return { x402Version: 1, accepts, error: paymentRequired.data.error, response: { ...paymentRequired.data, accepts } };
+}
+
+/**
+ * Gets the networks a signer can pay on
+ *
+ * @param walletClient - The signer
+ * @returns The networks of the signer, or undefined if it can pay on any network
+ */
+function getSignerNetworks(walletClient: Signer | MultiNetworkSigner): Network | Network[] | undefined {
+  if (isMultiNetworkSigner(walletClient)) {
+    return undefined;
+  }
+  if (isSvmSignerWallet(walletClient)) {
+    return SupportedSVMNetworks;
+  }
+  if (isEvmSignerWallet(walletClient) && "chain" in walletClient && walletClient.chain) {
+    return ChainIdToNetwork[walletClient.chain.id];
+  }
+  return undefined;
+}
@@ -0,0 +1,196 @@
+import { z } from "zod";
+import { describe, expect, it, vi } from "vitest";
+import {
+  getSettlementStatus,
+  getSupportedKinds,
+  parseSettlementId,
+  settle,
+  verify,
+} from "./facilitator";
+import { registerScheme } from "../schemes/registry";
+import { Signer } from "../types/shared/wallet";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  SupportedPaymentKindsResponseSchema,
+} from "../types/verify";
+
+describe("getSupportedKinds", () => {
+  const evmSigner = {
+    account: { address: "0x9999999999999999999999999999999999999999" },
+    chain: {},
+    transport: {},
+  } as unknown as Signer;
+  const svmSigner = {
+    address: "FeePayer1111111111111111111111111111111111",
+    signTransactions: async () => [],
+  } as unknown as Signer;
+
+  it("should only list the networks with a signer", () => {
+    const response = getSupportedKinds({ "base-sepolia": evmSigner });
+
+    expect(response.kinds.map(kind => kind.network)).toEqual(
+      response.kinds.map(() => "base-sepolia"),
+    );
+    expect(response.kinds).toContainEqual({
+      x402Version: 1,
+      scheme: "exact",
+      network: "base-sepolia",
+      extra: { spender: "0x9999999999999999999999999999999999999999" },
+    });
+  });
+
+  it("should set the signer address as the spender of evm kinds", () => {
+    const response = getSupportedKinds({ "base-sepolia": evmSigner });
+
+    expect(response.kinds).toContainEqual({
+      x402Version: 1,
+      scheme: "upto",
+      network: "base-sepolia",
+      extra: { spender: "0x9999999999999999999999999999999999999999" },
+    });
+  });
+
+  it("should set the signer address as the fee payer of svm kinds", () => {
+    const response = getSupportedKinds({ "base-sepolia": evmSigner, "solana-devnet": svmSigner });
+
+    expect(response.kinds).toContainEqual({
+      x402Version: 1,
+      scheme: "exact",
+      network: "solana-devnet",
+      extra: { feePayer: "FeePayer1111111111111111111111111111111111" },
+    });
+    expect(SupportedPaymentKindsResponseSchema.safeParse(response).success).toBe(true);
+  });
+
+  it("should restrict the kinds to the configured networks", () => {
+    const response = getSupportedKinds(
+      { "base-sepolia": evmSigner, "solana-devnet": svmSigner },
+      { networks: ["solana-devnet"] },
+    );
+
+    expect(response.kinds.map(kind => kind.network)).toEqual(["solana-devnet"]);
+  });
+
+  it("should throw if an evm network has a svm signer", () => {
+    expect(() => getSupportedKinds({ "base-sepolia": svmSigner })).toThrow(
+      "Invalid evm signer provided for network base-sepolia",
+    );
+  });
+
+  it("should throw if a svm network has an evm signer", () => {
+    expect(() => getSupportedKinds({ "solana-devnet": evmSigner })).toThrow(
+      "Invalid svm signer provided for network solana-devnet",
+    );
+  });
+});
+
+describe("async settlement", () => {
+  const signer = {} as Signer;
+  const transaction = "0x1234567890123456789012345678901234567890";
+  const getStatus = vi.fn().mockResolvedValue({
+    success: true,
+    status: "confirmed",
+    transaction,
+    network: "base-sepolia",
+  });
+
+  registerScheme({
+    scheme: "async-test",
+    networks: ["base-sepolia"],
+    payloadSchema: z.object({}),
+    createPaymentHeader: vi.fn(),
+    verify: vi.fn(),
+    settle: vi.fn().mockResolvedValue({
+      success: true,
+      status: "pending",
+      transaction,
+      network: "base-sepolia",
+    }),
+    getSettlementStatus: getStatus,
+  });
+
+  const paymentRequirements = {
+    scheme: "async-test",
+    network: "base-sepolia",
+  } as unknown as PaymentRequirements;
+
+  it("should add a settlement id to pending settlements", async () => {
+    const response = await settle(signer, {} as PaymentPayload, paymentRequirements);
+
+    expect(response.settlementId).toBe(`async-test:base-sepolia:${transaction}`);
+    expect(parseSettlementId(response.settlementId!)).toEqual({
+      scheme: "async-test",
+      network: "base-sepolia",
+      transaction,
+    });
+  });
+
+  it("should get the settlement status from the scheme of the settlement id", async () => {
+    const settlementId = `async-test:base-sepolia:${transaction}`;
+
+    const response = await getSettlementStatus(signer, settlementId);
+
+    expect(getStatus).toHaveBeenCalledWith(signer, "base-sepolia", transaction, undefined);
+    expect(response).toEqual({
+      success: true,
+      status: "confirmed",
+      transaction,
+      network: "base-sepolia",
+      settlementId,
+    });
+  });
+
+  it("should reject invalid settlement ids", async () => {
+    expect(parseSettlementId("async-test:unknown-network:0xtx")).toBeUndefined();
+    await expect(getSettlementStatus(signer, "invalid")).rejects.toThrow(
+      "Invalid settlement id: invalid",
+    );
+  });
+
+  it("should reject settlement ids of schemes without async settlement", async () => {
+    await expect(getSettlementStatus(signer, "upto:base-sepolia:0xtx")).rejects.toThrow(
+      "Scheme upto does not support async settlement on network base-sepolia",
+    );
+  });
+});
+
+describe("unsupported schemes", () => {
+  const signer = {} as Signer;
+  const paymentRequirements = {
+    scheme: "unknown-scheme",
+    network: "base-sepolia",
+  } as unknown as PaymentRequirements;
+  const permit2Payload = {
+    x402Version: 1,
+    scheme: "unknown-scheme",
+    network: "base-sepolia",
+    payload: {
+      signature: "0x",
+      permit2Authorization: { from: "0xabcdef1234567890123456789012345678901234" },
+    },
+  } as unknown as PaymentPayload;
+  const authorizationPayload = {
+    ...permit2Payload,
+    payload: { authorization: { from: "0xabcdef1234567890123456789012345678901234" } },
+  } as unknown as PaymentPayload;
+
+  it("should reject payloads without an EIP-3009 authorization", async () => {
+    await expect(verify(signer, permit2Payload, paymentRequirements)).resolves.toEqual({
+      isValid: false,
+      invalidReason: "invalid_scheme",
+      payer: "",
+    });
+    await expect(settle(signer, permit2Payload, paymentRequirements)).resolves.toMatchObject({
+      success: false,
+      errorReason: "invalid_scheme",
+      payer: "",
+    });
+  });
+
+  it("should report the payer of EIP-3009 authorizations", async () => {
+    const response = await verify(signer, authorizationPayload, paymentRequirements);
+
+    expect(response.payer).toBe("0xabcdef1234567890123456789012345678901234");
+  });
+});
@@ -1,25 +1,27 @@
-import { verify as verifyExactEvm, settle as settleExactEvm } from "../schemes/exact/evm";
-import { verify as verifyExactSvm, settle as settleExactSvm } from "../schemes/exact/svm";
-import { SupportedEVMNetworks, SupportedSVMNetworks } from "../types/shared";
-import { X402Config } from "../types/config";
+import { getSchemeRegistry } from "../schemes/registry";
 import {
-  ConnectedClient as EvmConnectedClient,
-  SignerWallet as EvmSignerWallet,
-} from "../types/shared/evm";
+  evm,
+  isEvmSignerWallet,
+  isSvmSignerWallet,
+  SupportedEVMNetworks,
+  SupportedSVMNetworks,
+} from "../types/shared";
+import { X402Config } from "../types/config";
+import { Network, NetworkSchema } from "../types/shared/network";
 import { ConnectedClient, Signer } from "../types/shared/wallet";
 import {
   PaymentPayload,
   PaymentRequirements,
   SettleResponse,
+  SupportedPaymentKindsResponse,
+  SupportedPaymentKindsResponseSchema,
   VerifyResponse,
   ExactEvmPayload,
 } from "../types/verify";
-import { Chain, Transport, Account } from "viem";
-import { TransactionSigner } from "@solana/kit";
 
 /**
  * Verifies a payment payload against the required payment details regardless of the scheme
- * this function wraps all verify functions for each specific scheme
+ * this function dispatches to the verify function of the scheme registered for the network
  *
  * @param client - The public client used for blockchain interactions
  * @param payload - The signed payment payload containing transfer parameters and signature
@@ -27,51 +29,31 @@ import { TransactionSigner } from "@solana/kit";
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
  * @returns A ValidPaymentRequest indicating if the payment is valid and any invalidation reason
  */
-export async function verify<
-  transport extends Transport,
-  chain extends Chain,
-  account extends Account | undefined,
->(
+export async function verify(
   client: ConnectedClient | Signer,
   payload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
 ): Promise<VerifyResponse> {
-  // exact scheme
-  if (paymentRequirements.scheme === "exact") {
-    // evm
-    if (SupportedEVMNetworks.includes(paymentRequirements.network)) {
-      return verifyExactEvm(
-        client as EvmConnectedClient<transport, chain, account>,
-        payload,
-        paymentRequirements,
-      );
-    }
-
-    // svm
-    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      return await verifyExactSvm(
-        client as TransactionSigner,
-        payload,
-        paymentRequirements,
-        config,
-      );
-    }
+  const implementation = getSchemeRegistry().get(
+    paymentRequirements.scheme,
+    paymentRequirements.network,
+  );
+  if (implementation) {
+    return await implementation.verify(client, payload, paymentRequirements, config);
   }
 
   // unsupported scheme
   return {
     isValid: false,
     invalidReason: "invalid_scheme",
-    payer: SupportedEVMNetworks.includes(paymentRequirements.network)
-      ? (payload.payload as ExactEvmPayload).authorization.from
-      : "",
+    payer: getUnsupportedSchemePayer(payload, paymentRequirements.network),
   };
 }
 
 /**
  * Settles a payment payload against the required payment details regardless of the scheme
- * this function wraps all settle functions for each specific scheme
+ * this function dispatches to the settle function of the scheme registered for the network
  *
  * @param client - The signer wallet used for blockchain interactions
  * @param payload - The signed payment payload containing transfer parameters and signature
@@ -79,32 +61,29 @@ export async function verify<
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
  * @returns A SettleResponse indicating if the payment is settled and any settlement reason
  */
-export async function settle<transport extends Transport, chain extends Chain>(
+export async function settle(
   client: Signer,
   payload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
 ): Promise<SettleResponse> {
-  // exact scheme
-  if (paymentRequirements.scheme === "exact") {
-    // evm
-    if (SupportedEVMNetworks.includes(paymentRequirements.network)) {
-      return await settleExactEvm(
-        client as EvmSignerWallet<chain, transport>,
-        payload,
-        paymentRequirements,
-      );
-    }
-
-    // svm
-    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      return await settleExactSvm(
-        client as TransactionSigner,
-        payload,
-        paymentRequirements,
-        config,
-      );
+  const implementation = getSchemeRegistry().get(
+    paymentRequirements.scheme,
+    paymentRequirements.network,
+  );
+  if (implementation) {
+    const response = await implementation.settle(client, payload, paymentRequirements, config);
+    if (response.status === "pending") {
+      return {
+        ...response,
+        settlementId: createSettlementId(
+          paymentRequirements.scheme,
+          response.network,
+          response.transaction,
+        ),
+      };
     }
+    return response;
   }
 
   return {
@@ -112,17 +91,133 @@ export async function settle<transport extends Transport, chain extends Chain>(
     errorReason: "invalid_scheme",
     transaction: "",
     network: paymentRequirements.network,
-    payer: SupportedEVMNetworks.includes(paymentRequirements.network)
-      ? (payload.payload as ExactEvmPayload).authorization.from
-      : "",
+    payer: getUnsupportedSchemePayer(payload, paymentRequirements.network),
   };
 }
 
-export type Supported = {
-  x402Version: number;
-  kind: {
-    scheme: string;
-    networkId: string;
-    extra: object;
-  }[];
+/**
+ * Gets the payer of a payload whose scheme is not supported, on a best-effort basis: its shape is
+ * unknown, so only EIP-3009 authorizations are read
+ *
+ * @param payload - The payment payload
+ * @param network - The network of the payment requirements
+ * @returns The address of the payer, or an empty string if it is unknown
+ */
+function getUnsupportedSchemePayer(payload: PaymentPayload, network: Network): string {
+  if (!SupportedEVMNetworks.includes(network)) {
+    return "";
+  }
+  return (payload.payload as Partial<ExactEvmPayload>).authorization?.from ?? "";
+}
+
+/**
+ * Gets the status of a settlement started in the "async" settlement mode, dispatching to
+ * the scheme that broadcast the settlement transaction
+ *
+ * @param client - The client used for blockchain interactions
+ * @param settlementId - The settlement id returned by `settle` with a "pending" status
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A SettleResponse with a "pending", "confirmed" or "failed" status
+ * @throws Error if the settlement id is invalid or its scheme cannot report settlement statuses
+ */
+export async function getSettlementStatus(
+  client: ConnectedClient | Signer,
+  settlementId: string,
+  config?: X402Config,
+): Promise<SettleResponse> {
+  const parsed = parseSettlementId(settlementId);
+  if (!parsed) {
+    throw new Error(`Invalid settlement id: ${settlementId}`);
+  }
+
+  const { scheme, network, transaction } = parsed;
+  const implementation = getSchemeRegistry().get(scheme, network);
+  if (!implementation?.getSettlementStatus) {
+    throw new Error(`Scheme ${scheme} does not support async settlement on network ${network}`);
+  }
+
+  const response = await implementation.getSettlementStatus(client, network, transaction, config);
+  return { ...response, settlementId };
+}
+
+/**
+ * Parses a settlement id into the scheme, network and transaction it identifies
+ *
+ * @param settlementId - The settlement id to parse
+ * @returns The parts of the settlement id, or undefined if it is invalid
+ */
+export function parseSettlementId(
+  settlementId: string,
+): { scheme: string; network: Network; transaction: string } | undefined {
+  const [scheme, network, transaction, ...rest] = settlementId.split(":");
+  const parsedNetwork = NetworkSchema.safeParse(network);
+  if (!scheme || !parsedNetwork.success || !transaction || rest.length > 0) {
+    return undefined;
+  }
+  return { scheme, network: parsedNetwork.data, transaction };
+}
+
+/**
+ * Creates the id of a settlement, from which its status can later be fetched
+ *
+ * @param scheme - The scheme of the settled payment
+ * @param network - The network the settlement transaction was broadcast on
+ * @param transaction - The settlement transaction
+ * @returns The settlement id
+ */
+function createSettlementId(scheme: string, network: Network, transaction: string): string {
+  return `${scheme}:${network}:${transaction}`;
+}
+
+/**
+ * @deprecated Use `SupportedPaymentKindsResponse`, the response of `getSupportedKinds`
+ */
+export type Supported = SupportedPaymentKindsResponse;
+
+export type SupportedKindsConfig = {
+  /** Restricts the kinds to these networks. Defaults to every network with a signer */
+  networks?: Network[];
+  /** The x402 version of the kinds. Defaults to 1 */
+  x402Version?: number;
 };
+
+/**
+ * Lists the payment kinds a facilitator supports, i.e. every registered scheme on every
+ * network the facilitator has a signer for. SVM kinds carry the signer address as
+ * `extra.feePayer`, since clients build transactions with the facilitator as fee payer. EVM kinds
+ * carry it as `extra.spender`, since clients paying with permits grant them to the facilitator.
+ *
+ * @param signers - The signers of the facilitator, by network
+ * @param config - Optional configuration restricting the networks or setting the x402 version
+ * @returns The supported payment kinds, validated against SupportedPaymentKindsResponseSchema
+ */
+export function getSupportedKinds(
+  signers: Partial<Record<Network, Signer>>,
+  config: SupportedKindsConfig = {},
+): SupportedPaymentKindsResponse {
+  const { networks, x402Version = 1 } = config;
+  const { kinds } = getSchemeRegistry().getSupportedKinds(x402Version);
+
+  return SupportedPaymentKindsResponseSchema.parse({
+    kinds: kinds.flatMap(kind => {
+      const signer = signers[kind.network];
+      if (!signer || (networks && !networks.includes(kind.network))) {
+        return [];
+      }
+      if (SupportedSVMNetworks.includes(kind.network)) {
+        if (!isSvmSignerWallet(signer)) {
+          throw new Error(`Invalid svm signer provided for network ${kind.network}`);
+        }
+        return [{ ...kind, extra: { feePayer: signer.address } }];
+      }
+      if (SupportedEVMNetworks.includes(kind.network)) {
+        if (!isEvmSignerWallet(signer)) {
+          throw new Error(`Invalid evm signer provided for network ${kind.network}`);
+        }
+        const spender = evm.isSignerWallet(signer) ? signer.account.address : signer.address;
+        return [{ ...kind, extra: { spender } }];
+      }
+      return [kind];
+    }),
+  });
+}
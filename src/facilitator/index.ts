@@ -1 +1,3 @@
 export * from "./facilitator";
+export * from "./nonceStore";
+export * from "./server";
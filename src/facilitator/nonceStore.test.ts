@@ -0,0 +1,76 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createFileNonceStore, createInMemoryNonceStore, NonceStore } from "./nonceStore";
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+/**
+ * Runs the behaviour every nonce store must implement against a store factory
+ *
+ * @param createStore - Creates the store under test
+ */
+function describeNonceStore(createStore: () => NonceStore) {
+  it("should reserve a nonce only once", async () => {
+    const store = createStore();
+
+    expect(await store.reserve("base-sepolia:0xabc:1", inAnHour())).toBe(true);
+    expect(await store.reserve("base-sepolia:0xabc:1", inAnHour())).toBe(false);
+    expect(await store.reserve("base-sepolia:0xabc:2", inAnHour())).toBe(true);
+  });
+
+  it("should allow a released nonce to be reserved again", async () => {
+    const store = createStore();
+    await store.reserve("base-sepolia:0xabc:1", inAnHour());
+
+    await store.release("base-sepolia:0xabc:1");
+
+    expect(await store.reserve("base-sepolia:0xabc:1", inAnHour())).toBe(true);
+  });
+
+  it("should forget expired reservations", async () => {
+    const store = createStore();
+    await store.reserve("base-sepolia:0xabc:1", Math.floor(Date.now() / 1000) - 1);
+
+    expect(await store.reserve("base-sepolia:0xabc:1", inAnHour())).toBe(true);
+  });
+
+  it("should only let one of several concurrent reservations succeed", async () => {
+    const store = createStore();
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => store.reserve("base-sepolia:0xabc:1", inAnHour())),
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+}
+
+describe("createInMemoryNonceStore", () => {
+  describeNonceStore(createInMemoryNonceStore);
+});
+
+describe("createFileNonceStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "x402-nonces-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describeNonceStore(() => createFileNonceStore(join(dir, "nonces.json")));
+
+  it("should persist reservations across store instances", async () => {
+    const path = join(dir, "nonces.json");
+    await createFileNonceStore(path).reserve("base-sepolia:0xabc:1", inAnHour());
+
+    expect(await createFileNonceStore(path).reserve("base-sepolia:0xabc:1", inAnHour())).toBe(
+      false,
+    );
+    expect(Object.keys(JSON.parse(await readFile(path, "utf8")))).toEqual(["base-sepolia:0xabc:1"]);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Keeps track of the payment nonces that were verified and are being settled, so that the same
+ * payment header is neither accepted nor settled twice before its settlement lands on-chain.
+ * Implementations shared by several facilitator instances must make `reserve` atomic.
+ */
+export interface NonceStore {
+  /**
+   * Reserves a nonce
+   *
+   * @param key - The key identifying the nonce
+   * @param expiresAt - Unix timestamp (in seconds) after which the reservation can be forgotten
+   * @returns True if the nonce was reserved, false if it is already reserved
+   */
+  reserve(key: string, expiresAt: number): Promise<boolean>;
+  /**
+   * Releases a reservation, e.g. when the payment could not be settled
+   *
+   * @param key - The key identifying the nonce
+   */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * Removes the reservations that have expired
+ *
+ * @param reservations - The reservations keyed by nonce key, with their expiry timestamp
+ * @param now - The current unix timestamp in seconds
+ */
+function pruneExpired(reservations: Map<string, number>, now: number): void {
+  for (const [key, expiresAt] of reservations) {
+    if (expiresAt < now) {
+      reservations.delete(key);
+    }
+  }
+}
+
+/**
+ * Creates a nonce store that keeps reservations in memory, for a single facilitator process
+ *
+ * @returns The in-memory nonce store
+ */
+export function createInMemoryNonceStore(): NonceStore {
+  const reservations = new Map<string, number>();
+
+  return {
+    reserve: async (key, expiresAt) => {
+      pruneExpired(reservations, Math.floor(Date.now() / 1000));
+      if (reservations.has(key)) {
+        return false;
+      }
+      reservations.set(key, expiresAt);
+      return true;
+    },
+    release: async key => {
+      reservations.delete(key);
+    },
+  };
+}
+
+/**
+ * Creates a nonce store that persists reservations to a JSON file, so that they survive
+ * facilitator restarts. Operations are serialized within the process; the file must not
+ * be shared by several processes.
+ *
+ * @param path - The path of the JSON file to store reservations in
+ * @returns The file-backed nonce store
+ */
+export function createFileNonceStore(path: string): NonceStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Runs an update of the reservations file once all previous updates have completed
+   *
+   * @param update - Updates the reservations and returns the result of the operation
+   * @returns A promise that resolves to the result of the update
+   */
+  function enqueue<T>(update: (reservations: Map<string, number>) => T): Promise<T> {
+    const next = queue.then(async () => {
+      const { readFile, rename, writeFile } = await import("fs/promises");
+
+      let reservations: Map<string, number>;
+      try {
+        reservations = new Map(Object.entries(JSON.parse(await readFile(path, "utf8"))));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+        reservations = new Map();
+      }
+
+      pruneExpired(reservations, Math.floor(Date.now() / 1000));
+      const result = update(reservations);
+
+      // write to a temporary file first so that a crash never leaves a truncated file behind
+      const tmpPath = `${path}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(Object.fromEntries(reservations)));
+      await rename(tmpPath, path);
+      return result;
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    reserve: (key, expiresAt) =>
+      enqueue(reservations => {
+        if (reservations.has(key)) {
+          return false;
+        }
+        reservations.set(key, expiresAt);
+        return true;
+      }),
+    release: key =>
+      enqueue(reservations => {
+        reservations.delete(key);
+      }),
+  };
+}
@@ -0,0 +1,258 @@
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFacilitatorServer, FacilitatorServerOptions } from "./server";
+import { getSettlementStatus, settle, verify } from "./facilitator";
+import { createInMemoryNonceStore } from "./nonceStore";
+import { useFacilitator } from "../verify";
+import { PaymentPayload, PaymentRequirements } from "../types/verify";
+import { Signer } from "../types/shared/wallet";
+
+vi.mock("./facilitator", async importOriginal => ({
+  ...(await importOriginal<typeof import("./facilitator")>()),
+  verify: vi.fn(),
+  settle: vi.fn(),
+  getSettlementStatus: vi.fn(),
+}));
+
+const paymentPayload: PaymentPayload = {
+  x402Version: 1,
+  scheme: "exact",
+  network: "base-sepolia",
+  payload: {
+    signature: "0x1234567890123456789012345678901234567890123456789012345678901234",
+    authorization: {
+      from: "0xabcdef1234567890123456789012345678901234",
+      to: "0x1234567890123456789012345678901234567890",
+      value: "10000",
+      validAfter: "1740672089",
+      validBefore: "1740672154",
+      nonce: "0x1234567890123456789012345678901234567890123456789012345678901234",
+    },
+  },
+};
+
+const paymentRequirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "10000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: "0x1234567890123456789012345678901234567890",
+  maxTimeoutSeconds: 300,
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+};
+
+describe("createFacilitatorServer", () => {
+  const signer = {
+    account: { address: "0x9999999999999999999999999999999999999999" },
+    chain: {},
+    transport: {},
+  } as unknown as Signer;
+  let server: Server | undefined;
+
+  /**
+   * Starts a facilitator server on a random port
+   *
+   * @param options - The facilitator server options to override
+   * @returns The URL of the started server
+   */
+  async function listen(options: Partial<FacilitatorServerOptions> = {}): Promise<string> {
+    server = createFacilitatorServer({ signers: { "base-sepolia": signer }, ...options });
+    await new Promise<void>(resolve => server!.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    server = undefined;
+    vi.mocked(verify).mockResolvedValue({ isValid: true, payer: paymentRequirements.payTo });
+    vi.mocked(settle).mockResolvedValue({
+      success: true,
+      transaction: "0xtx",
+      network: "base-sepolia",
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+  });
+
+  it("should verify payments with the signer of the network", async () => {
+    const facilitator = useFacilitator({ url: (await listen()) as `${string}://${string}` });
+
+    const response = await facilitator.verify(paymentPayload, paymentRequirements);
+
+    expect(response.isValid).toBe(true);
+    expect(verify).toHaveBeenCalledWith(signer, paymentPayload, paymentRequirements, {
+      evmConfig: { nonceStore: expect.objectContaining({ reserve: expect.any(Function) }) },
+    });
+  });
+
+  it("should default to one in-memory nonce store for verify and settle", async () => {
+    const facilitator = useFacilitator({ url: (await listen()) as `${string}://${string}` });
+
+    await facilitator.verify(paymentPayload, paymentRequirements);
+    await facilitator.settle(paymentPayload, paymentRequirements);
+
+    const nonceStore = vi.mocked(verify).mock.calls[0][3]?.evmConfig?.nonceStore;
+    expect(nonceStore).toBeDefined();
+    expect(vi.mocked(settle).mock.calls[0][3]?.evmConfig?.nonceStore).toBe(nonceStore);
+  });
+
+  it("should share the configured nonce store between verify and settle", async () => {
+    const nonceStore = createInMemoryNonceStore();
+    const config = { evmConfig: { nonceStore } };
+    const facilitator = useFacilitator({
+      url: (await listen({ config })) as `${string}://${string}`,
+    });
+
+    await facilitator.verify(paymentPayload, paymentRequirements);
+    await facilitator.settle(paymentPayload, paymentRequirements);
+
+    expect(vi.mocked(verify).mock.calls[0][3]?.evmConfig?.nonceStore).toBe(nonceStore);
+    expect(vi.mocked(settle).mock.calls[0][3]?.evmConfig?.nonceStore).toBe(nonceStore);
+  });
+
+  it("should settle payments with the signer of the network", async () => {
+    const facilitator = useFacilitator({ url: (await listen()) as `${string}://${string}` });
+
+    const response = await facilitator.settle(paymentPayload, paymentRequirements);
+
+    expect(response).toEqual({ success: true, transaction: "0xtx", network: "base-sepolia" });
+  });
+
+  it("should get the status of async settlements", async () => {
+    const settlementId = "exact:base-sepolia:0xtx";
+    vi.mocked(getSettlementStatus).mockResolvedValueOnce({
+      success: true,
+      status: "confirmed",
+      transaction: "0xtx",
+      network: "base-sepolia",
+      settlementId,
+    });
+    const facilitator = useFacilitator({ url: (await listen()) as `${string}://${string}` });
+
+    const response = await facilitator.getSettlementStatus(settlementId);
+
+    expect(response.status).toBe("confirmed");
+    expect(getSettlementStatus).toHaveBeenCalledWith(signer, settlementId, expect.any(Object));
+  });
+
+  it("should not find settlements on networks without a signer", async () => {
+    const facilitator = useFacilitator({ url: (await listen()) as `${string}://${string}` });
+
+    await expect(facilitator.getSettlementStatus("exact:base:0xtx")).rejects.toThrow(
+      "Settlement not found",
+    );
+    expect(getSettlementStatus).not.toHaveBeenCalled();
+  });
+
+  it("should reject networks without a signer", async () => {
+    const facilitator = useFacilitator({ url: (await listen()) as `${string}://${string}` });
+
+    const response = await facilitator.verify(
+      { ...paymentPayload, network: "base" },
+      { ...paymentRequirements, network: "base" },
+    );
+
+    expect(response).toEqual({ isValid: false, invalidReason: "invalid_network", payer: "" });
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it("should reject invalid requests", async () => {
+    const url = await listen();
+
+    const response = await fetch(`${url}/verify`, {
+      method: "POST",
+      body: JSON.stringify({ paymentPayload, paymentRequirements: {} }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: "Invalid request" });
+  });
+
+  it("should reject request bodies larger than 1 MB", async () => {
+    const url = await listen();
+
+    const response = await fetch(`${url}/verify`, {
+      method: "POST",
+      body: JSON.stringify({ paymentPayload, padding: "x".repeat(1024 * 1024) }),
+    });
+
+    expect(response.status).toBe(413);
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it("should list the supported kinds of the served networks", async () => {
+    const facilitator = useFacilitator({ url: (await listen()) as `${string}://${string}` });
+
+    const response = await facilitator.supported();
+
+    expect(response.kinds).toContainEqual({
+      x402Version: 1,
+      scheme: "exact",
+      network: "base-sepolia",
+      extra: { spender: "0x9999999999999999999999999999999999999999" },
+    });
+    expect(response.kinds.every(kind => kind.network === "base-sepolia")).toBe(true);
+  });
+
+  it("should serve an empty discovery list by default", async () => {
+    const facilitator = useFacilitator({ url: (await listen()) as `${string}://${string}` });
+
+    const response = await facilitator.list({ limit: 10 });
+
+    expect(response).toEqual({
+      x402Version: 1,
+      items: [],
+      pagination: { limit: 10, offset: 0, total: 0 },
+    });
+  });
+
+  it("should require the headers returned by the auth headers hook", async () => {
+    const createAuthHeaders = async () => ({
+      verify: { Authorization: "Bearer verify" },
+      settle: { Authorization: "Bearer settle" },
+      supported: {},
+    });
+    const url = (await listen({ authHeaders: createAuthHeaders })) as `${string}://${string}`;
+
+    await expect(
+      useFacilitator({ url }).verify(paymentPayload, paymentRequirements),
+    ).rejects.toThrow("Unauthorized");
+    await expect(
+      useFacilitator({ url, createAuthHeaders }).verify(paymentPayload, paymentRequirements),
+    ).resolves.toMatchObject({ isValid: true });
+  });
+
+  it("should not reveal the details of internal errors", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(verify).mockRejectedValueOnce(
+      new Error("RPC https://rpc.example.com?key=secret failed"),
+    );
+    const url = await listen();
+
+    const response = await fetch(`${url}/verify`, {
+      method: "POST",
+      body: JSON.stringify({ paymentPayload, paymentRequirements }),
+    });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Internal server error" });
+    expect(consoleError).toHaveBeenCalledWith(
+      "Failed to handle facilitator request:",
+      expect.objectContaining({ message: expect.stringContaining("secret") }),
+    );
+    consoleError.mockRestore();
+  });
+
+  it("should answer unknown routes with 404", async () => {
+    const url = await listen();
+
+    const response = await fetch(`${url}/unknown`);
+
+    expect(response.status).toBe(404);
+  });
+});
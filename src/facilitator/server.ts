@@ -0,0 +1,349 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { ZodTypeAny } from "zod";
+import { toJsonSafe } from "../shared";
+import { X402Config } from "../types/config";
+import { Network } from "../types/shared/network";
+import { Signer } from "../types/shared/wallet";
+import {
+  ListDiscoveryResourcesRequest,
+  ListDiscoveryResourcesRequestSchema,
+  ListDiscoveryResourcesResponse,
+  SettleRequestSchema,
+  SupportedPaymentKindsResponse,
+  VerifyRequestSchema,
+} from "../types/verify";
+import { CreateHeaders } from "../verify";
+import {
+  getSettlementStatus,
+  getSupportedKinds,
+  parseSettlementId,
+  settle,
+  verify,
+} from "./facilitator";
+import { createInMemoryNonceStore } from "./nonceStore";
+
+const x402Version = 1;
+
+// payment payloads and requirements are a few kilobytes at most
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Error thrown when a request body is larger than `MAX_BODY_BYTES`
+ */
+class BodyTooLargeError extends Error {
+  /**
+   * Creates a body too large error
+   */
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    this.name = "BodyTooLargeError";
+  }
+}
+
+export type FacilitatorServerOptions = {
+  /** The signers used to verify and settle payments, by network */
+  signers: Partial<Record<Network, Signer>>;
+  /** The networks to serve. Defaults to every network with a signer */
+  networks?: Network[];
+  /**
+   * Optional configuration for X402 operations (e.g., custom RPC URLs). EIP-3009 nonces are
+   * reserved in an in-memory nonce store unless `evmConfig.nonceStore` is set, which facilitators
+   * running several instances must set to a shared store
+   */
+  config?: X402Config;
+  /**
+   * Gets the headers each route requires, with the same shape as the `createAuthHeaders`
+   * of the `FacilitatorConfig` used by clients, so both sides can share one function
+   */
+  authHeaders?: CreateHeaders;
+  /** Lists the resources served at /discovery/resources. Defaults to none */
+  listResources?: (
+    request: ListDiscoveryResourcesRequest,
+  ) => Promise<ListDiscoveryResourcesResponse>;
+};
+
+type Operation = "verify" | "settle" | "supported" | "list";
+
+/**
+ * Creates an HTTP server exposing the facilitator routes called by `useFacilitator`:
+ * `POST /verify`, `POST /settle`, `GET /settle/:id`, `GET /supported` and `GET /discovery/resources`
+ *
+ * @param options - The facilitator server options
+ * @param options.signers - The signers used to verify and settle payments, by network
+ * @param options.networks - The networks to serve, defaulting to every network with a signer
+ * @param options.config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param options.authHeaders - Gets the headers each route requires
+ * @param options.listResources - Lists the resources served at /discovery/resources
+ * @returns The HTTP server, which is not listening yet
+ */
+export function createFacilitatorServer({
+  signers,
+  networks,
+  config,
+  authHeaders,
+  listResources,
+}: FacilitatorServerOptions): Server {
+  const servedNetworks = (networks ?? (Object.keys(signers) as Network[])).filter(
+    network => signers[network],
+  );
+
+  // EIP-3009 nonces are reserved from verify until settlement so that duplicate payment headers
+  // are rejected, in memory unless a shared store is configured
+  const x402Config: X402Config = {
+    ...config,
+    evmConfig: { nonceStore: createInMemoryNonceStore(), ...config?.evmConfig },
+  };
+
+  /**
+   * Gets the signer of a network, if the network is served
+   *
+   * @param network - The network to get the signer for
+   * @returns The signer or undefined if the network is not served
+   */
+  function getSigner(network: Network): Signer | undefined {
+    return servedNetworks.includes(network) ? signers[network] : undefined;
+  }
+
+  /**
+   * Checks that the request carries the headers required for an operation
+   *
+   * @param request - The incoming request
+   * @param operation - The operation the request performs
+   * @returns True if the request is authorized
+   */
+  async function isAuthorized(request: IncomingMessage, operation: Operation): Promise<boolean> {
+    if (!authHeaders) {
+      return true;
+    }
+    const requiredHeaders = (await authHeaders())[operation] ?? {};
+    return Object.entries(requiredHeaders).every(([name, value]) =>
+      isEqualHeader(request.headers[name.toLowerCase()], value),
+    );
+  }
+
+  /**
+   * Handles POST /verify
+   *
+   * @param body - The parsed request body
+   * @returns The status code and response body
+   */
+  async function handleVerify(body: unknown): Promise<[number, object]> {
+    const parsed = parseRequest(VerifyRequestSchema, body);
+    if ("error" in parsed) {
+      return [400, parsed];
+    }
+    const { paymentPayload, paymentRequirements } = parsed.data;
+
+    const signer = getSigner(paymentRequirements.network);
+    if (!signer) {
+      return [200, { isValid: false, invalidReason: "invalid_network", payer: "" }];
+    }
+    return [200, await verify(signer, paymentPayload, paymentRequirements, x402Config)];
+  }
+
+  /**
+   * Handles POST /settle
+   *
+   * @param body - The parsed request body
+   * @returns The status code and response body
+   */
+  async function handleSettle(body: unknown): Promise<[number, object]> {
+    const parsed = parseRequest(SettleRequestSchema, body);
+    if ("error" in parsed) {
+      return [400, parsed];
+    }
+    const { paymentPayload, paymentRequirements } = parsed.data;
+
+    const signer = getSigner(paymentRequirements.network);
+    if (!signer) {
+      return [
+        200,
+        {
+          success: false,
+          errorReason: "invalid_network",
+          transaction: "",
+          network: paymentRequirements.network,
+          payer: "",
+        },
+      ];
+    }
+    return [200, await settle(signer, paymentPayload, paymentRequirements, x402Config)];
+  }
+
+  /**
+   * Handles GET /settle/:id, the status of a settlement started in the "async" settlement mode
+   *
+   * @param settlementId - The settlement id returned by POST /settle
+   * @returns The status code and response body
+   */
+  async function handleSettlementStatus(settlementId: string): Promise<[number, object]> {
+    const parsed = parseSettlementId(settlementId);
+    const signer = parsed && getSigner(parsed.network);
+    if (!signer) {
+      return [404, { error: "Settlement not found" }];
+    }
+    return [200, await getSettlementStatus(signer, settlementId, x402Config)];
+  }
+
+  /**
+   * Handles GET /supported
+   *
+   * @returns The status code and response body
+   */
+  async function handleSupported(): Promise<[number, SupportedPaymentKindsResponse]> {
+    return [200, getSupportedKinds(signers, { networks: servedNetworks, x402Version })];
+  }
+
+  /**
+   * Handles GET /discovery/resources
+   *
+   * @param searchParams - The query parameters of the request
+   * @returns The status code and response body
+   */
+  async function handleList(searchParams: URLSearchParams): Promise<[number, object]> {
+    const parsed = parseRequest(ListDiscoveryResourcesRequestSchema, {
+      type: searchParams.get("type") ?? undefined,
+      limit: searchParams.has("limit") ? Number(searchParams.get("limit")) : undefined,
+      offset: searchParams.has("offset") ? Number(searchParams.get("offset")) : undefined,
+    });
+    if ("error" in parsed) {
+      return [400, parsed];
+    }
+
+    if (listResources) {
+      return [200, await listResources(parsed.data)];
+    }
+    return [
+      200,
+      {
+        x402Version,
+        items: [],
+        pagination: { limit: parsed.data.limit ?? 0, offset: parsed.data.offset ?? 0, total: 0 },
+      },
+    ];
+  }
+
+  /**
+   * Routes a request to its handler
+   *
+   * @param request - The incoming request
+   * @returns The status code and response body
+   */
+  async function route(request: IncomingMessage): Promise<[number, object]> {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const pathname = url.pathname.replace(/\/+$/, "");
+    const settlementId = pathname.match(/^\/settle\/([^/]+)$/)?.[1];
+    const routes: Record<string, [Operation, () => Promise<[number, object]>]> = {
+      "POST /verify": ["verify", async () => handleVerify(await readJsonBody(request))],
+      "POST /settle": ["settle", async () => handleSettle(await readJsonBody(request))],
+      "GET /settle/:id": [
+        "settle",
+        () => handleSettlementStatus(decodeURIComponent(settlementId!)),
+      ],
+      "GET /supported": ["supported", handleSupported],
+      "GET /discovery/resources": ["list", () => handleList(url.searchParams)],
+    };
+
+    const routePath = settlementId ? "/settle/:id" : pathname;
+    const matchingRoute = routes[`${request.method} ${routePath}`];
+    if (!matchingRoute) {
+      return [404, { error: "Not found" }];
+    }
+
+    const [operation, handle] = matchingRoute;
+    if (!(await isAuthorized(request, operation))) {
+      return [401, { error: "Unauthorized" }];
+    }
+    return handle();
+  }
+
+  return createServer((request: IncomingMessage, response: ServerResponse) => {
+    route(request)
+      .catch((error): [number, object] => {
+        if (error instanceof SyntaxError) {
+          return [400, { error: "Invalid JSON body" }];
+        }
+        if (error instanceof BodyTooLargeError) {
+          return [413, { error: error.message }];
+        }
+        // the details stay in the logs, they may reveal RPC endpoints or signer state to callers
+        console.error("Failed to handle facilitator request:", error);
+        return [500, { error: "Internal server error" }];
+      })
+      .then(([status, body]) => {
+        response.writeHead(status, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(toJsonSafe(body)));
+      });
+  });
+}
+
+/**
+ * Validates a request with a schema
+ *
+ * @param schema - The schema to validate the request with
+ * @param value - The request to validate
+ * @returns The validated request, or an error body describing the validation issues
+ */
+function parseRequest<T extends ZodTypeAny>(
+  schema: T,
+  value: unknown,
+): { data: T["_output"] } | { error: string; issues: object[] } {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return { error: "Invalid request", issues: result.error.issues };
+  }
+  return { data: result.data };
+}
+
+/**
+ * Compares a request header with its expected value in constant time, so that the time taken
+ * does not reveal how much of a secret matches
+ *
+ * @param actual - The value of the request header
+ * @param expected - The expected value
+ * @returns True if the header has the expected value
+ */
+function isEqualHeader(actual: string | string[] | undefined, expected: string): boolean {
+  if (typeof actual !== "string") {
+    return false;
+  }
+  // hash both values so that they have the same length
+  const hash = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(hash(actual), hash(expected));
+}
+
+/**
+ * Reads and parses the JSON body of a request
+ *
+ * @param request - The incoming request
+ * @returns A promise that resolves to the parsed body
+ * @throws BodyTooLargeError if the body is larger than `MAX_BODY_BYTES`
+ */
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  const body = await new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const tooLarge = () => {
+      // discard the rest of the body, so that the 413 response can still be sent
+      request.removeAllListeners("data").resume();
+      reject(new BodyTooLargeError());
+    };
+
+    if (Number(request.headers["content-length"]) > MAX_BODY_BYTES) {
+      tooLarge();
+      return;
+    }
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        tooLarge();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => resolve(Buffer.concat(chunks)));
+    request.on("error", reject);
+  });
+  return JSON.parse(body.toString("utf8"));
+}
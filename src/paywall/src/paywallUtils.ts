@@ -1,9 +1,11 @@
 import { selectPaymentRequirements } from "../../client";
 import type { PaymentRequirements } from "../../types/verify";
-import { Network, SupportedEVMNetworks, SupportedSVMNetworks } from "../../types/shared";
-
-const EVM_TESTNETS = new Set<Network>(["base-sepolia"]);
-const SVM_TESTNETS = new Set<Network>(["solana-devnet"]);
+import {
+  getNetworkRegistry,
+  Network,
+  SupportedEVMNetworks,
+  SupportedSVMNetworks,
+} from "../../types/shared";
 
 /**
  * Normalizes the payment requirements into an array.
@@ -98,5 +100,5 @@ export function getNetworkDisplayName(network: Network): string {
  * @returns True if the network is a recognized testnet.
  */
 export function isTestnetNetwork(network: Network): boolean {
-  return EVM_TESTNETS.has(network) || SVM_TESTNETS.has(network);
+  return getNetworkRegistry().get(network)?.testnet ?? false;
 }
@@ -0,0 +1,273 @@
+import { Account, Address, Chain, getAddress, Hex, parseSignature, Transport } from "viem";
+import { getNetworkId } from "../../shared";
+import { getERC20Balance, getPermitNonce, getVersion } from "../../shared/evm";
+import { SettlementMode } from "../../types/config";
+import {
+  usdcABI as abi,
+  config,
+  ConnectedClient,
+  permitTypes,
+  SignerWallet,
+} from "../../types/shared/evm";
+import {
+  ErrorReasons,
+  EvmPermit,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  VerifyResponse,
+} from "../../types/verify";
+
+type ErrorReason = (typeof ErrorReasons)[number];
+
+/**
+ * The error reasons a scheme paying with EIP-2612 permits reports for each failed check
+ */
+export type PermitErrorReasons = {
+  signature: ErrorReason;
+  spenderMismatch: ErrorReason;
+  deadline: ErrorReason;
+  nonce: ErrorReason;
+  value: ErrorReason;
+  permitFailed: ErrorReason;
+  transferFailed: ErrorReason;
+};
+
+/**
+ * Verifies an EIP-2612 permit paying for a resource
+ *
+ * This function performs several verification steps:
+ * - Validates the permit signature
+ * - Checks the permit is granted to the facilitator named in the payment requirements
+ * - Checks the permit deadline is sufficiently in the future
+ * - Checks the permit nonce is the owner's current nonce on the token
+ * - Ensures the permitted value covers the maximum amount required
+ * - Verifies the client has enough funds to cover the maximum amount required
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The payment payload the permit was sent in
+ * @param permit - The permit
+ * @param signature - The signature of the permit
+ * @param paymentRequirements - The payment requirements that the permit must satisfy
+ * @param reasons - The error reasons of the scheme
+ * @returns A VerifyResponse indicating if the permit is valid and any invalidation reason
+ */
+export async function verifyPermit<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  permit: EvmPermit,
+  signature: string,
+  paymentRequirements: PaymentRequirements,
+  reasons: PermitErrorReasons,
+): Promise<VerifyResponse> {
+  const { owner, spender, value, nonce, deadline } = permit;
+
+  let name: string;
+  let chainId: number;
+  let erc20Address: Address;
+  let version: string;
+  try {
+    chainId = getNetworkId(payload.network);
+    name = paymentRequirements.extra?.name ?? config[chainId.toString()].usdcName;
+    erc20Address = paymentRequirements.asset as Address;
+    version = paymentRequirements.extra?.version ?? (await getVersion(client));
+  } catch {
+    return {
+      isValid: false,
+      invalidReason: `invalid_network`,
+      payer: owner,
+    };
+  }
+
+  // Verify permit signature is recoverable for the owner address
+  const isValidSignature = await client.verifyTypedData({
+    address: owner as Address,
+    types: permitTypes,
+    primaryType: "Permit" as const,
+    domain: {
+      name,
+      version,
+      chainId,
+      verifyingContract: erc20Address,
+    },
+    message: {
+      owner: owner as Address,
+      spender: spender as Address,
+      value: BigInt(value),
+      nonce: BigInt(nonce),
+      deadline: BigInt(deadline),
+    },
+    signature: signature as Hex,
+  });
+  if (!isValidSignature) {
+    return {
+      isValid: false,
+      invalidReason: reasons.signature,
+      payer: owner,
+    };
+  }
+
+  // Verify that the permit is granted to the facilitator the resource server expects
+  const expectedSpender = paymentRequirements.extra?.spender as Address | undefined;
+  if (expectedSpender && getAddress(spender) !== getAddress(expectedSpender)) {
+    return {
+      isValid: false,
+      invalidReason: reasons.spenderMismatch,
+      payer: owner,
+    };
+  }
+
+  // Verify deadline is not yet expired
+  // Pad 3 block to account for round tripping
+  if (BigInt(deadline) < BigInt(Math.floor(Date.now() / 1000) + 6)) {
+    return {
+      isValid: false,
+      invalidReason: reasons.deadline,
+      payer: owner,
+    };
+  }
+
+  // Verify the permit has not been used or superseded
+  const currentNonce = await getPermitNonce(client, erc20Address, owner as Address);
+  if (BigInt(nonce) !== currentNonce) {
+    return {
+      isValid: false,
+      invalidReason: reasons.nonce,
+      payer: owner,
+    };
+  }
+
+  // Verify the permitted value covers paymentRequirements.maxAmountRequired
+  if (BigInt(value) < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: reasons.value,
+      payer: owner,
+    };
+  }
+
+  // Verify client has enough funds to cover paymentRequirements.maxAmountRequired
+  const balance = await getERC20Balance(client, erc20Address, owner as Address);
+  if (balance < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: "insufficient_funds",
+      payer: owner,
+    };
+  }
+
+  return {
+    isValid: true,
+    invalidReason: undefined,
+    payer: owner,
+  };
+}
+
+/**
+ * Settles a verified EIP-2612 permit by submitting the permit and then transferring the amount
+ * to `payTo` with transferFrom. The permit approves its full value, so settling an amount below
+ * it leaves the difference approved to the facilitator wallet.
+ *
+ * @param wallet - The facilitator wallet, which must be the spender of the permit
+ * @param paymentPayload - The payment payload the permit was sent in
+ * @param permit - The permit
+ * @param signature - The signature of the permit
+ * @param paymentRequirements - The payment requirements the permit was verified against
+ * @param amount - The amount to transfer in atomic units, at most the permitted value
+ * @param reasons - The error reasons of the scheme
+ * @param settlementMode - Whether to wait for the transfer to be confirmed. Defaults to "sync"
+ * @returns A SettleResponse containing the transfer transaction status and hash
+ */
+export async function settlePermit<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  permit: EvmPermit,
+  signature: string,
+  paymentRequirements: PaymentRequirements,
+  amount: bigint,
+  reasons: PermitErrorReasons,
+  settlementMode?: SettlementMode,
+): Promise<SettleResponse> {
+  const { owner, spender, value, deadline } = permit;
+
+  // Only the spender of the permit can use it
+  if (getAddress(spender) !== getAddress(wallet.account.address)) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: reasons.spenderMismatch,
+      payer: owner,
+    };
+  }
+
+  const parsedSig = parseSignature(signature as Hex);
+  const v = parsedSig.v !== undefined ? Number(parsedSig.v) : 27 + parsedSig.yParity;
+
+  const permitTx = await wallet.writeContract({
+    address: paymentRequirements.asset as Address,
+    abi,
+    functionName: "permit" as const,
+    args: [
+      owner as Address,
+      spender as Address,
+      BigInt(value),
+      BigInt(deadline),
+      v,
+      parsedSig.r,
+      parsedSig.s,
+    ],
+    chain: wallet.chain as Chain,
+  });
+
+  const permitReceipt = await wallet.waitForTransactionReceipt({ hash: permitTx });
+  if (permitReceipt.status !== "success") {
+    return {
+      success: false,
+      errorReason: reasons.permitFailed,
+      transaction: permitTx,
+      network: paymentPayload.network,
+      payer: owner,
+    };
+  }
+
+  const tx = await wallet.writeContract({
+    address: paymentRequirements.asset as Address,
+    abi,
+    functionName: "transferFrom" as const,
+    args: [owner as Address, paymentRequirements.payTo as Address, amount],
+    chain: wallet.chain as Chain,
+  });
+
+  if (settlementMode === "async") {
+    return {
+      success: true,
+      status: "pending",
+      transaction: tx,
+      network: paymentPayload.network,
+      payer: owner,
+    };
+  }
+
+  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+  if (receipt.status !== "success") {
+    return {
+      success: false,
+      errorReason: reasons.transferFailed,
+      transaction: tx,
+      network: paymentPayload.network,
+      payer: owner,
+    };
+  }
+
+  return {
+    success: true,
+    transaction: tx,
+    network: paymentPayload.network,
+    payer: owner,
+  };
+}
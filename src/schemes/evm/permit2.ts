@@ -0,0 +1,306 @@
+import { Account, Address, Chain, getAddress, hashStruct, Hex, Transport } from "viem";
+import { getNetworkId } from "../../shared";
+import { getERC20Allowance, getERC20Balance, isPermit2NonceUsed } from "../../shared/evm";
+import { SettlementMode } from "../../types/config";
+import {
+  ConnectedClient,
+  permit2ABI,
+  permit2Address,
+  permit2WitnessTypes,
+  permit2WitnessTypeString,
+  SignerWallet,
+} from "../../types/shared/evm";
+import {
+  ErrorReasons,
+  EvmPermit2Authorization,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  VerifyResponse,
+} from "../../types/verify";
+
+type ErrorReason = (typeof ErrorReasons)[number];
+
+/**
+ * The error reasons a scheme paying with Permit2 witness transfers reports for each failed check
+ */
+export type Permit2ErrorReasons = {
+  signature: ErrorReason;
+  tokenMismatch: ErrorReason;
+  spenderMismatch: ErrorReason;
+  witnessMismatch: ErrorReason;
+  deadline: ErrorReason;
+  nonce: ErrorReason;
+  allowance: ErrorReason;
+  value: ErrorReason;
+  transferFailed: ErrorReason;
+};
+
+/**
+ * Verifies a Permit2 witness transfer authorization paying for a resource
+ *
+ * This function performs several verification steps:
+ * - Validates the Permit2 signature
+ * - Checks the permitted token is the asset of the payment requirements
+ * - Checks the transfer is granted to the facilitator named in the payment requirements
+ * - Checks the witness binds the transfer to the payee and resource being paid for
+ * - Checks the deadline is sufficiently in the future
+ * - Checks the nonce has not been used
+ * - Verifies the owner has approved Permit2 and has enough funds to cover the maximum amount required
+ * - Ensures the permitted amount covers the maximum amount required
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The payment payload the authorization was sent in
+ * @param authorization - The Permit2 authorization
+ * @param signature - The signature of the authorization
+ * @param paymentRequirements - The payment requirements that the authorization must satisfy
+ * @param reasons - The error reasons of the scheme
+ * @returns A VerifyResponse indicating if the authorization is valid and any invalidation reason
+ */
+export async function verifyPermit2<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  authorization: EvmPermit2Authorization,
+  signature: string,
+  paymentRequirements: PaymentRequirements,
+  reasons: Permit2ErrorReasons,
+): Promise<VerifyResponse> {
+  const { from, permitted, spender, nonce, deadline, witness } = authorization;
+
+  let chainId: number;
+  try {
+    chainId = getNetworkId(payload.network);
+  } catch {
+    return {
+      isValid: false,
+      invalidReason: `invalid_network`,
+      payer: from,
+    };
+  }
+
+  // Verify Permit2 signature is recoverable for the owner address
+  const isValidSignature = await client.verifyTypedData({
+    address: from as Address,
+    types: permit2WitnessTypes,
+    primaryType: "PermitWitnessTransferFrom" as const,
+    domain: {
+      name: "Permit2",
+      chainId,
+      verifyingContract: permit2Address,
+    },
+    message: {
+      permitted: {
+        token: permitted.token as Address,
+        amount: BigInt(permitted.amount),
+      },
+      spender: spender as Address,
+      nonce: BigInt(nonce),
+      deadline: BigInt(deadline),
+      witness: {
+        to: witness.to as Address,
+        resource: witness.resource,
+      },
+    },
+    signature: signature as Hex,
+  });
+  if (!isValidSignature) {
+    return {
+      isValid: false,
+      invalidReason: reasons.signature,
+      payer: from,
+    };
+  }
+
+  // Verify the permitted token is the asset of the payment requirements
+  if (getAddress(permitted.token) !== getAddress(paymentRequirements.asset)) {
+    return {
+      isValid: false,
+      invalidReason: reasons.tokenMismatch,
+      payer: from,
+    };
+  }
+
+  // Verify that the transfer is granted to the facilitator the resource server expects
+  const expectedSpender = paymentRequirements.extra?.spender as Address | undefined;
+  if (expectedSpender && getAddress(spender) !== getAddress(expectedSpender)) {
+    return {
+      isValid: false,
+      invalidReason: reasons.spenderMismatch,
+      payer: from,
+    };
+  }
+
+  // Verify the witness binds the transfer to the payee and resource being paid for
+  if (
+    getAddress(witness.to) !== getAddress(paymentRequirements.payTo) ||
+    witness.resource !== paymentRequirements.resource
+  ) {
+    return {
+      isValid: false,
+      invalidReason: reasons.witnessMismatch,
+      payer: from,
+    };
+  }
+
+  // Verify deadline is not yet expired
+  // Pad 3 block to account for round tripping
+  if (BigInt(deadline) < BigInt(Math.floor(Date.now() / 1000) + 6)) {
+    return {
+      isValid: false,
+      invalidReason: reasons.deadline,
+      payer: from,
+    };
+  }
+
+  // Verify the nonce has not been used
+  if (await isPermit2NonceUsed(client, from as Address, BigInt(nonce))) {
+    return {
+      isValid: false,
+      invalidReason: reasons.nonce,
+      payer: from,
+    };
+  }
+
+  // Verify the owner has approved Permit2 to transfer paymentRequirements.maxAmountRequired
+  const allowance = await getERC20Allowance(
+    client,
+    paymentRequirements.asset as Address,
+    from as Address,
+    permit2Address,
+  );
+  if (allowance < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: reasons.allowance,
+      payer: from,
+    };
+  }
+
+  // Verify client has enough funds to cover paymentRequirements.maxAmountRequired
+  const balance = await getERC20Balance(
+    client,
+    paymentRequirements.asset as Address,
+    from as Address,
+  );
+  if (balance < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: "insufficient_funds",
+      payer: from,
+    };
+  }
+
+  // Verify permitted amount is enough to cover paymentRequirements.maxAmountRequired
+  if (BigInt(permitted.amount) < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: reasons.value,
+      payer: from,
+    };
+  }
+
+  return {
+    isValid: true,
+    invalidReason: undefined,
+    payer: from,
+  };
+}
+
+/**
+ * Settles a verified Permit2 witness transfer by calling permitWitnessTransferFrom on Permit2.
+ * Permit2 transfers only the requested amount and consumes the nonce, so no allowance is left
+ * to the facilitator when the amount is below the permitted amount.
+ *
+ * @param wallet - The facilitator wallet, which must be the spender of the authorization
+ * @param paymentPayload - The payment payload the authorization was sent in
+ * @param authorization - The Permit2 authorization
+ * @param signature - The signature of the authorization
+ * @param paymentRequirements - The payment requirements the authorization was verified against
+ * @param amount - The amount to transfer in atomic units, at most the permitted amount
+ * @param reasons - The error reasons of the scheme
+ * @param settlementMode - Whether to wait for the transfer to be confirmed. Defaults to "sync"
+ * @returns A SettleResponse containing the transfer transaction status and hash
+ */
+export async function settlePermit2<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  authorization: EvmPermit2Authorization,
+  signature: string,
+  paymentRequirements: PaymentRequirements,
+  amount: bigint,
+  reasons: Permit2ErrorReasons,
+  settlementMode?: SettlementMode,
+): Promise<SettleResponse> {
+  const { from, permitted, spender, nonce, deadline, witness } = authorization;
+
+  // Permit2 only lets the spender of the authorization execute the transfer
+  if (getAddress(spender) !== getAddress(wallet.account.address)) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: reasons.spenderMismatch,
+      payer: from,
+    };
+  }
+
+  const witnessHash = hashStruct({
+    data: { to: witness.to as Address, resource: witness.resource },
+    primaryType: "PaymentWitness",
+    types: permit2WitnessTypes,
+  });
+
+  const tx = await wallet.writeContract({
+    address: permit2Address,
+    abi: permit2ABI,
+    functionName: "permitWitnessTransferFrom" as const,
+    args: [
+      {
+        permitted: { token: permitted.token as Address, amount: BigInt(permitted.amount) },
+        nonce: BigInt(nonce),
+        deadline: BigInt(deadline),
+      },
+      {
+        to: paymentRequirements.payTo as Address,
+        requestedAmount: amount,
+      },
+      from as Address,
+      witnessHash,
+      permit2WitnessTypeString,
+      signature as Hex,
+    ],
+    chain: wallet.chain as Chain,
+  });
+
+  if (settlementMode === "async") {
+    return {
+      success: true,
+      status: "pending",
+      transaction: tx,
+      network: paymentPayload.network,
+      payer: from,
+    };
+  }
+
+  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+  if (receipt.status !== "success") {
+    return {
+      success: false,
+      errorReason: reasons.transferFailed,
+      transaction: tx,
+      network: paymentPayload.network,
+      payer: from,
+    };
+  }
+
+  return {
+    success: true,
+    transaction: tx,
+    network: paymentPayload.network,
+    payer: from,
+  };
+}
@@ -2,6 +2,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { createSignerSepolia, SignerWallet } from "../../../types/shared/evm";
 import { PaymentRequirements, UnsignedPaymentPayload } from "../../../types/verify";
 import { createPaymentHeader, preparePaymentHeader, signPaymentHeader } from "./client";
+import { supportsEip3009 } from "../../../shared/evm";
 import { signAuthorization } from "./sign";
 import { encodePayment } from "./utils/paymentUtils";
 
@@ -13,9 +14,22 @@ vi.mock("./sign", async () => {
   };
 });
 
-vi.mock("./utils/paymentUtils", () => ({
-  encodePayment: vi.fn().mockReturnValue("encoded-payment-header"),
-}));
+vi.mock("../../../shared/evm", async importOriginal => {
+  const actual = (await importOriginal()) as Record<string, unknown>;
+  return {
+    ...actual,
+    getPermitNonce: vi.fn().mockResolvedValue(BigInt(0)),
+    supportsEip3009: vi.fn().mockResolvedValue(true),
+  };
+});
+
+vi.mock("./utils/paymentUtils", async () => {
+  const actual = await vi.importActual("./utils/paymentUtils");
+  return {
+    ...actual,
+    encodePayment: vi.fn().mockReturnValue("encoded-payment-header"),
+  };
+});
 
 describe("preparePaymentHeader", () => {
   const mockPaymentRequirements: PaymentRequirements = {
@@ -271,6 +285,59 @@ describe("createPaymentHeader", () => {
     );
   });
 
+  it("should create a Permit2 payload bound to payTo and resource", async () => {
+    const client = createTestClient();
+    const spender = "0x9999999999999999999999999999999999999999";
+    await createPaymentHeader(client, 1, {
+      ...mockPaymentRequirements,
+      extra: { authorizationType: "permit2", spender },
+    });
+
+    expect(vi.mocked(encodePayment)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: {
+          signature: expect.stringMatching(/^0x[0-9a-f]+$/),
+          permit2Authorization: expect.objectContaining({
+            from: client.account!.address,
+            permitted: {
+              token: mockPaymentRequirements.asset,
+              amount: mockPaymentRequirements.maxAmountRequired,
+            },
+            spender,
+            witness: {
+              to: mockPaymentRequirements.payTo,
+              resource: mockPaymentRequirements.resource,
+            },
+          }),
+        },
+      }),
+    );
+  });
+
+  it("should pay with an EIP-2612 permit when the asset does not support EIP-3009", async () => {
+    const client = createTestClient();
+    const spender = "0x9999999999999999999999999999999999999999";
+    vi.mocked(supportsEip3009).mockResolvedValueOnce(false);
+
+    await createPaymentHeader(client, 1, { ...mockPaymentRequirements, extra: { spender } });
+
+    expect(vi.mocked(supportsEip3009)).toHaveBeenCalledWith(client, mockPaymentRequirements.asset);
+    expect(vi.mocked(signAuthorization)).not.toHaveBeenCalled();
+    expect(vi.mocked(encodePayment)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: {
+          signature: expect.stringMatching(/^0x[0-9a-f]+$/),
+          permit: expect.objectContaining({
+            owner: client.account!.address,
+            spender,
+            value: mockPaymentRequirements.maxAmountRequired,
+            nonce: "0",
+          }),
+        },
+      }),
+    );
+  });
+
   it("should throw an error if encoding fails", async () => {
     const client = createTestClient();
     const error = new Error("Encoding failed");
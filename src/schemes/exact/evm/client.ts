@@ -1,8 +1,15 @@
-import { Address, Chain, LocalAccount, Transport } from "viem";
-import { isSignerWallet, SignerWallet } from "../../../types/shared/evm";
-import { PaymentPayload, PaymentRequirements, UnsignedPaymentPayload } from "../../../types/verify";
-import { createNonce, signAuthorization } from "./sign";
-import { encodePayment } from "./utils/paymentUtils";
+import { Address, Chain, Hex, LocalAccount, Transport } from "viem";
+import { getPermitNonce } from "../../../shared/evm";
+import { createConnectedClient, isSignerWallet, SignerWallet } from "../../../types/shared/evm";
+import {
+  EvmPermit,
+  EvmPermit2Authorization,
+  PaymentPayload,
+  PaymentRequirements,
+  UnsignedPaymentPayload,
+} from "../../../types/verify";
+import { createNonce, signAuthorization, signPermit, signPermit2 } from "./sign";
+import { encodePayment, selectExactEvmAuthorizationType } from "./utils/paymentUtils";
 
 /**
  * Prepares an unsigned payment header with the given sender address and payment requirements.
@@ -72,8 +79,95 @@ export async function signPaymentHeader<transport extends Transport, chain exten
   };
 }
 
+/**
+ * Creates and signs an EIP-2612 permit allowing the facilitator to transfer
+ * `paymentRequirements.maxAmountRequired` of the asset.
+ *
+ * @param client - The signer wallet instance used to sign the permit
+ * @param paymentRequirements - The payment requirements, with the facilitator address in `extra.spender`
+ * @returns A promise that resolves to the permit and its signature
+ */
+export async function createPermit<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount,
+  paymentRequirements: PaymentRequirements,
+): Promise<{ signature: Hex; permit: EvmPermit }> {
+  const spender = paymentRequirements.extra?.spender as Address | undefined;
+  if (!spender) {
+    throw new Error("Missing spender in payment requirements extra");
+  }
+
+  const owner = isSignerWallet(client) ? client.account!.address : client.address;
+
+  // local accounts cannot read from the chain, so use a public client for the nonce lookup
+  const asset = paymentRequirements.asset as Address;
+  const nonce = isSignerWallet(client)
+    ? await getPermitNonce(client, asset, owner)
+    : await getPermitNonce(createConnectedClient(paymentRequirements.network), asset, owner);
+
+  const deadline = BigInt(
+    Math.floor(Date.now() / 1000 + paymentRequirements.maxTimeoutSeconds),
+  ).toString();
+
+  const permit = {
+    owner,
+    spender,
+    value: paymentRequirements.maxAmountRequired,
+    nonce: nonce.toString(),
+    deadline,
+  };
+  const { signature } = await signPermit(client, permit, paymentRequirements);
+
+  return { signature, permit };
+}
+
+/**
+ * Creates and signs a Permit2 witness transfer of `paymentRequirements.maxAmountRequired`
+ * of the asset, bound to `payTo` and `resource`. The payer must have approved Permit2 to
+ * spend the asset beforehand.
+ *
+ * @param client - The signer wallet instance used to sign the authorization
+ * @param paymentRequirements - The payment requirements, with the facilitator address in `extra.spender`
+ * @returns A promise that resolves to the Permit2 authorization and its signature
+ */
+export async function createPermit2Authorization<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount,
+  paymentRequirements: PaymentRequirements,
+): Promise<{ signature: Hex; permit2Authorization: EvmPermit2Authorization }> {
+  const spender = paymentRequirements.extra?.spender as Address | undefined;
+  if (!spender) {
+    throw new Error("Missing spender in payment requirements extra");
+  }
+
+  const from = isSignerWallet(client) ? client.account!.address : client.address;
+  const deadline = BigInt(
+    Math.floor(Date.now() / 1000 + paymentRequirements.maxTimeoutSeconds),
+  ).toString();
+
+  const permit2Authorization = {
+    from,
+    permitted: {
+      token: paymentRequirements.asset,
+      amount: paymentRequirements.maxAmountRequired,
+    },
+    spender,
+    // Permit2 nonces are unordered, so a random one can be used
+    nonce: BigInt(createNonce()).toString(),
+    deadline,
+    witness: {
+      to: paymentRequirements.payTo,
+      resource: paymentRequirements.resource,
+    },
+  };
+  const { signature } = await signPermit2(client, permit2Authorization, paymentRequirements);
+
+  return { signature, permit2Authorization };
+}
+
 /**
  * Creates a complete payment payload by preparing and signing a payment header.
+ * Tokens without EIP-3009 support are paid with an EIP-2612 permit or a Permit2 transfer
+ * when the payment requirements select it through `extra.authorizationType`, or with an EIP-2612
+ * permit when the asset turns out not to support EIP-3009.
  *
  * @param client - The signer wallet instance used to create and sign the payment
  * @param x402Version - The version of the X402 protocol to use
@@ -85,6 +179,37 @@ export async function createPayment<transport extends Transport, chain extends C
   x402Version: number,
   paymentRequirements: PaymentRequirements,
 ): Promise<PaymentPayload> {
+  // local accounts cannot read from the chain, so use a public client to probe the asset
+  const authorizationType = isSignerWallet(client)
+    ? await selectExactEvmAuthorizationType(client, paymentRequirements)
+    : await selectExactEvmAuthorizationType(
+        createConnectedClient(paymentRequirements.network),
+        paymentRequirements,
+      );
+
+  if (authorizationType === "eip2612") {
+    const { signature, permit } = await createPermit(client, paymentRequirements);
+    return {
+      x402Version,
+      scheme: paymentRequirements.scheme,
+      network: paymentRequirements.network,
+      payload: { signature, permit },
+    };
+  }
+
+  if (authorizationType === "permit2") {
+    const { signature, permit2Authorization } = await createPermit2Authorization(
+      client,
+      paymentRequirements,
+    );
+    return {
+      x402Version,
+      scheme: paymentRequirements.scheme,
+      network: paymentRequirements.network,
+      payload: { signature, permit2Authorization },
+    };
+  }
+
   const from = isSignerWallet(client) ? client.account!.address : client.address;
   const unsignedPaymentHeader = preparePaymentHeader(from, x402Version, paymentRequirements);
   return signPaymentHeader(client, paymentRequirements, unsignedPaymentHeader);
@@ -1,8 +1,22 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { Address, Chain, parseSignature, Transport } from "viem";
-import { PaymentPayload, PaymentRequirements, ExactEvmPayload } from "../../../types/verify";
-import { verify, settle } from "./facilitator";
+import { Address, Chain, parseSignature, TransactionReceiptNotFoundError, Transport } from "viem";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  ExactEvmPayload,
+  ExactEvmPermitPayload,
+  ExactEvmPermit2Payload,
+} from "../../../types/verify";
+import { getSettlementStatus, verify, settle } from "./facilitator";
 import type { SignerWallet } from "../../../types/shared/evm";
+import {
+  getERC20Allowance,
+  getPermitNonce,
+  isAuthorizationUsed,
+  isPermit2NonceUsed,
+  supportsEip3009,
+} from "../../../shared/evm";
+import { createInMemoryNonceStore } from "../../../facilitator/nonceStore";
 
 vi.mock("../../../shared", () => ({
   getNetworkId: vi.fn().mockReturnValue(84532),
@@ -14,6 +28,11 @@ vi.mock("../../../shared/evm", async importOriginal => {
     ...actual,
     getVersion: vi.fn().mockResolvedValue("2"),
     getERC20Balance: vi.fn().mockResolvedValue(BigInt("2000000")),
+    getPermitNonce: vi.fn().mockResolvedValue(BigInt(0)),
+    getERC20Allowance: vi.fn().mockResolvedValue(BigInt("2000000")),
+    isPermit2NonceUsed: vi.fn().mockResolvedValue(false),
+    isAuthorizationUsed: vi.fn().mockResolvedValue(false),
+    supportsEip3009: vi.fn().mockResolvedValue(true),
   };
 });
 
@@ -239,6 +258,205 @@ describe("facilitator - smart wallet deployment check", () => {
     });
   });
 
+  describe("nonce replay protection", () => {
+    it("should reject an authorization whose nonce was already used on-chain", async () => {
+      vi.mocked(isAuthorizationUsed).mockResolvedValueOnce(true);
+      const client = createMockClient("0x");
+      const payload = createMockPayload();
+
+      const result = await verify(client, payload, mockPaymentRequirements);
+
+      expect(result).toEqual({
+        isValid: false,
+        invalidReason: "invalid_exact_evm_payload_nonce_used",
+        payer: (payload.payload as ExactEvmPayload).authorization.from,
+      });
+    });
+
+    it("should reject a duplicate payment header verified before the first is settled", async () => {
+      const config = { evmConfig: { nonceStore: createInMemoryNonceStore() } };
+      const wallet = createMockWallet("0x");
+      const payload = createMockPayload();
+
+      const first = await verify(wallet, payload, mockPaymentRequirements, config);
+      const second = await verify(wallet, payload, mockPaymentRequirements, config);
+
+      expect(first.isValid).toBe(true);
+      expect(second).toEqual({
+        isValid: false,
+        invalidReason: "invalid_exact_evm_payload_nonce_used",
+        payer: (payload.payload as ExactEvmPayload).authorization.from,
+      });
+    });
+
+    it("should settle a payment whose nonce was reserved by verify", async () => {
+      const config = { evmConfig: { nonceStore: createInMemoryNonceStore() } };
+      const wallet = createMockWallet("0x");
+      const payload = createMockPayload();
+
+      await verify(wallet, payload, mockPaymentRequirements, config);
+      const result = await settle(wallet, payload, mockPaymentRequirements, config);
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should let a payment be verified again once its settlement failed", async () => {
+      const config = { evmConfig: { nonceStore: createInMemoryNonceStore() } };
+      const wallet = createMockWallet("0x");
+      vi.mocked(wallet.waitForTransactionReceipt).mockResolvedValueOnce({
+        status: "reverted",
+      } as Awaited<ReturnType<typeof wallet.waitForTransactionReceipt>>);
+      const payload = createMockPayload();
+
+      await verify(wallet, payload, mockPaymentRequirements, config);
+      await settle(wallet, payload, mockPaymentRequirements, config);
+      const retry = await verify(wallet, payload, mockPaymentRequirements, config);
+
+      expect(retry.isValid).toBe(true);
+    });
+
+    it("should reject a duplicate payment header while its settlement is in flight", async () => {
+      const config = { evmConfig: { nonceStore: createInMemoryNonceStore() } };
+      const wallet = createMockWallet("0x");
+      type Receipt = Awaited<ReturnType<typeof wallet.waitForTransactionReceipt>>;
+      let confirm: (receipt: Receipt) => void = () => {};
+      vi.mocked(wallet.waitForTransactionReceipt).mockReturnValueOnce(
+        new Promise<Receipt>(resolve => (confirm = resolve)),
+      );
+      const payload = createMockPayload();
+
+      const first = settle(wallet, payload, mockPaymentRequirements, config);
+      await vi.waitFor(() => expect(wallet.waitForTransactionReceipt).toHaveBeenCalled());
+      const second = await settle(wallet, payload, mockPaymentRequirements, config);
+      confirm({ status: "success" } as Receipt);
+
+      expect(second.errorReason).toBe("invalid_exact_evm_payload_nonce_used");
+      expect((await first).success).toBe(true);
+    });
+
+    it("should release the nonce when the settlement transaction fails", async () => {
+      const config = { evmConfig: { nonceStore: createInMemoryNonceStore() } };
+      const wallet = createMockWallet("0x");
+      vi.mocked(wallet.waitForTransactionReceipt).mockResolvedValueOnce({
+        status: "reverted",
+      } as Awaited<ReturnType<typeof wallet.waitForTransactionReceipt>>);
+      const payload = createMockPayload();
+
+      await settle(wallet, payload, mockPaymentRequirements, config);
+      const retry = await settle(wallet, payload, mockPaymentRequirements, config);
+
+      expect(retry.success).toBe(true);
+    });
+
+    it("should release the nonce when the settlement transaction cannot be sent", async () => {
+      const config = { evmConfig: { nonceStore: createInMemoryNonceStore() } };
+      const wallet = createMockWallet("0x");
+      vi.mocked(wallet.writeContract).mockRejectedValueOnce(new Error("nonce too low"));
+      const payload = createMockPayload();
+
+      await expect(settle(wallet, payload, mockPaymentRequirements, config)).rejects.toThrow(
+        "nonce too low",
+      );
+      const retry = await settle(wallet, payload, mockPaymentRequirements, config);
+
+      expect(retry.success).toBe(true);
+    });
+  });
+
+  describe("async settlement", () => {
+    it("should return a pending settlement once the transaction is broadcast", async () => {
+      const wallet = createMockWallet("0x");
+      vi.mocked(wallet.waitForTransactionReceipt).mockReturnValueOnce(new Promise(() => {}));
+      const payload = createMockPayload();
+
+      const result = await settle(wallet, payload, mockPaymentRequirements, {
+        settlementMode: "async",
+      });
+
+      expect(result).toEqual({
+        success: true,
+        status: "pending",
+        transaction: "0xtxhash",
+        network: "base-sepolia",
+        payer: (payload.payload as ExactEvmPayload).authorization.from,
+      });
+    });
+
+    it("should release the nonce when the broadcast transaction fails", async () => {
+      const config = {
+        evmConfig: { nonceStore: createInMemoryNonceStore() },
+        settlementMode: "async" as const,
+      };
+      const wallet = createMockWallet("0x");
+      vi.mocked(wallet.waitForTransactionReceipt).mockResolvedValueOnce({
+        status: "reverted",
+      } as Awaited<ReturnType<typeof wallet.waitForTransactionReceipt>>);
+      const payload = createMockPayload();
+
+      await settle(wallet, payload, mockPaymentRequirements, config);
+      await vi.waitFor(async () =>
+        expect((await settle(wallet, payload, mockPaymentRequirements, config)).success).toBe(true),
+      );
+    });
+
+    it("should report a broadcast transaction that cannot be awaited as failed", async () => {
+      const config = {
+        evmConfig: { nonceStore: createInMemoryNonceStore() },
+        settlementMode: "async" as const,
+      };
+      const wallet = createMockWallet("0x");
+      vi.mocked(wallet.writeContract).mockResolvedValueOnce("0xdropped");
+      vi.mocked(wallet.waitForTransactionReceipt).mockRejectedValueOnce(new Error("timed out"));
+      const client = {
+        getTransactionReceipt: vi
+          .fn()
+          .mockRejectedValue(new TransactionReceiptNotFoundError({ hash: "0xdropped" })),
+      } as unknown as ReturnType<typeof import("../../../types/shared/evm").createConnectedClient>;
+      const payload = createMockPayload();
+
+      await settle(wallet, payload, mockPaymentRequirements, config);
+
+      await vi.waitFor(async () =>
+        expect(await getSettlementStatus(client, "base-sepolia", "0xdropped")).toEqual({
+          success: false,
+          status: "failed",
+          errorReason: "unexpected_settle_error",
+          transaction: "0xdropped",
+          network: "base-sepolia",
+        }),
+      );
+      expect((await settle(wallet, payload, mockPaymentRequirements, config)).success).toBe(true);
+    });
+
+    it.each([
+      [{ status: "success" }, { success: true, status: "confirmed" }],
+      [
+        { status: "reverted" },
+        { success: false, status: "failed", errorReason: "invalid_transaction_state" },
+      ],
+    ])("should report the status of a mined transaction", async (receipt, expected) => {
+      const client = {
+        getTransactionReceipt: vi.fn().mockResolvedValue(receipt),
+      } as unknown as ReturnType<typeof import("../../../types/shared/evm").createConnectedClient>;
+
+      const result = await getSettlementStatus(client, "base-sepolia", "0xtxhash");
+
+      expect(result).toEqual({ ...expected, transaction: "0xtxhash", network: "base-sepolia" });
+    });
+
+    it("should report a transaction without receipt as pending", async () => {
+      const client = {
+        getTransactionReceipt: vi
+          .fn()
+          .mockRejectedValue(new TransactionReceiptNotFoundError({ hash: "0xtxhash" })),
+      } as unknown as ReturnType<typeof import("../../../types/shared/evm").createConnectedClient>;
+
+      const result = await getSettlementStatus(client, "base-sepolia", "0xtxhash");
+
+      expect(result.status).toBe("pending");
+    });
+  });
+
   describe("settle - EOA signature format handling", () => {
     const mockR =
       "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef" as `0x${string}`;
@@ -301,3 +519,322 @@ describe("facilitator - smart wallet deployment check", () => {
     });
   });
 });
+
+describe("facilitator - EIP-2612 permit", () => {
+  const facilitatorAddress = "0x9999999999999999999999999999999999999999" as Address;
+  const ownerAddress = "0xabcdef1234567890123456789012345678901234" as Address;
+
+  const mockPaymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "1000000",
+    resource: "https://example.com/resource",
+    description: "Test resource",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890" as Address,
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" as Address,
+    extra: { authorizationType: "eip2612", spender: facilitatorAddress },
+  };
+
+  const createMockPayload = (
+    permit: Partial<ExactEvmPermitPayload["permit"]> = {},
+  ): PaymentPayload => ({
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {
+      signature: `0x${"1".repeat(128)}1b`,
+      permit: {
+        owner: ownerAddress,
+        spender: facilitatorAddress,
+        value: "1000000",
+        nonce: "0",
+        deadline: (Math.floor(Date.now() / 1000) + 300).toString(),
+        ...permit,
+      },
+    },
+  });
+
+  const createMockWallet = (address: Address = facilitatorAddress) =>
+    ({
+      verifyTypedData: vi.fn().mockResolvedValue(true),
+      writeContract: vi
+        .fn()
+        .mockResolvedValueOnce("0xpermittx")
+        .mockResolvedValueOnce("0xtransfertx"),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: "success" }),
+      chain: { id: 84532 },
+      account: { address },
+    }) as unknown as SignerWallet<Chain, Transport>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("verify", () => {
+    it("should accept a valid permit", async () => {
+      const result = await verify(createMockWallet(), createMockPayload(), mockPaymentRequirements);
+
+      expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: ownerAddress });
+    });
+
+    it("should reject a permit when the requirements expect an EIP-3009 authorization", async () => {
+      const requirements = { ...mockPaymentRequirements, extra: { spender: facilitatorAddress } };
+
+      const result = await verify(createMockWallet(), createMockPayload(), requirements);
+
+      expect(result.invalidReason).toBe("invalid_exact_evm_payload_authorization_type");
+    });
+
+    it("should accept a permit for an asset without EIP-3009 support", async () => {
+      vi.mocked(supportsEip3009).mockResolvedValueOnce(false);
+      const requirements = { ...mockPaymentRequirements, extra: { spender: facilitatorAddress } };
+
+      const result = await verify(createMockWallet(), createMockPayload(), requirements);
+
+      expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: ownerAddress });
+    });
+
+    it("should reject a permit granted to another spender", async () => {
+      const payload = createMockPayload({
+        spender: "0x8888888888888888888888888888888888888888",
+      });
+
+      const result = await verify(createMockWallet(), payload, mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit_spender_mismatch");
+    });
+
+    it("should reject an expired permit", async () => {
+      const payload = createMockPayload({
+        deadline: (Math.floor(Date.now() / 1000) - 1).toString(),
+      });
+
+      const result = await verify(createMockWallet(), payload, mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit_deadline");
+    });
+
+    it("should reject a permit whose nonce is no longer current", async () => {
+      vi.mocked(getPermitNonce).mockResolvedValueOnce(BigInt(1));
+
+      const result = await verify(createMockWallet(), createMockPayload(), mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit_nonce");
+    });
+
+    it("should reject a permit below the maximum amount required", async () => {
+      const payload = createMockPayload({ value: "999999" });
+
+      const result = await verify(createMockWallet(), payload, mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_exact_evm_payload_authorization_value");
+    });
+  });
+
+  describe("settle", () => {
+    it("should submit the permit and transfer the maximum amount required", async () => {
+      const wallet = createMockWallet();
+
+      const result = await settle(wallet, createMockPayload(), mockPaymentRequirements);
+
+      expect(result).toEqual({
+        success: true,
+        transaction: "0xtransfertx",
+        network: "base-sepolia",
+        payer: ownerAddress,
+      });
+      expect(wallet.writeContract).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ functionName: "permit" }),
+      );
+      expect(wallet.writeContract).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          functionName: "transferFrom",
+          args: [ownerAddress, mockPaymentRequirements.payTo, BigInt(1000000)],
+        }),
+      );
+    });
+
+    it("should reject when the facilitator wallet is not the permit spender", async () => {
+      const wallet = createMockWallet("0x7777777777777777777777777777777777777777");
+
+      const result = await settle(wallet, createMockPayload(), mockPaymentRequirements);
+
+      expect(result.errorReason).toBe("invalid_exact_evm_payload_permit_spender_mismatch");
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+
+    it("should report a failed permit transaction", async () => {
+      const wallet = createMockWallet();
+      vi.mocked(wallet.waitForTransactionReceipt).mockResolvedValueOnce({
+        status: "reverted",
+      } as Awaited<ReturnType<typeof wallet.waitForTransactionReceipt>>);
+
+      const result = await settle(wallet, createMockPayload(), mockPaymentRequirements);
+
+      expect(result.errorReason).toBe("settle_exact_evm_permit_failed");
+      expect(wallet.writeContract).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe("facilitator - Permit2", () => {
+  const facilitatorAddress = "0x9999999999999999999999999999999999999999" as Address;
+  const ownerAddress = "0xabcdef1234567890123456789012345678901234" as Address;
+
+  const mockPaymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "1000000",
+    resource: "https://example.com/resource",
+    description: "Test resource",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890" as Address,
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" as Address,
+    extra: { authorizationType: "permit2", spender: facilitatorAddress },
+  };
+
+  const createMockPayload = (
+    permit2Authorization: Partial<ExactEvmPermit2Payload["permit2Authorization"]> = {},
+  ): PaymentPayload => ({
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {
+      signature: `0x${"1".repeat(128)}1b`,
+      permit2Authorization: {
+        from: ownerAddress,
+        permitted: {
+          token: mockPaymentRequirements.asset,
+          amount: "1000000",
+        },
+        spender: facilitatorAddress,
+        nonce: "12345",
+        deadline: (Math.floor(Date.now() / 1000) + 300).toString(),
+        witness: {
+          to: mockPaymentRequirements.payTo,
+          resource: mockPaymentRequirements.resource,
+        },
+        ...permit2Authorization,
+      },
+    },
+  });
+
+  const createMockWallet = (address: Address = facilitatorAddress) =>
+    ({
+      verifyTypedData: vi.fn().mockResolvedValue(true),
+      writeContract: vi.fn().mockResolvedValue("0xtransfertx"),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: "success" }),
+      chain: { id: 84532 },
+      account: { address },
+    }) as unknown as SignerWallet<Chain, Transport>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("verify", () => {
+    it("should accept a valid Permit2 authorization", async () => {
+      const result = await verify(createMockWallet(), createMockPayload(), mockPaymentRequirements);
+
+      expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: ownerAddress });
+    });
+
+    it("should reject a witness bound to another resource", async () => {
+      const payload = createMockPayload({
+        witness: { to: mockPaymentRequirements.payTo, resource: "https://example.com/other" },
+      });
+
+      const result = await verify(createMockWallet(), payload, mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit2_witness_mismatch");
+    });
+
+    it("should reject a witness bound to another payee", async () => {
+      const payload = createMockPayload({
+        witness: {
+          to: "0x8888888888888888888888888888888888888888",
+          resource: mockPaymentRequirements.resource,
+        },
+      });
+
+      const result = await verify(createMockWallet(), payload, mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit2_witness_mismatch");
+    });
+
+    it("should reject a permitted token that is not the required asset", async () => {
+      const payload = createMockPayload({
+        permitted: { token: "0x8888888888888888888888888888888888888888", amount: "1000000" },
+      });
+
+      const result = await verify(createMockWallet(), payload, mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit2_token_mismatch");
+    });
+
+    it("should reject a used nonce", async () => {
+      vi.mocked(isPermit2NonceUsed).mockResolvedValueOnce(true);
+
+      const result = await verify(createMockWallet(), createMockPayload(), mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit_nonce");
+    });
+
+    it("should reject when Permit2 is not approved for the maximum amount required", async () => {
+      vi.mocked(getERC20Allowance).mockResolvedValueOnce(BigInt(0));
+
+      const result = await verify(createMockWallet(), createMockPayload(), mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit2_allowance");
+    });
+  });
+
+  describe("settle", () => {
+    it("should transfer the maximum amount required through Permit2", async () => {
+      const wallet = createMockWallet();
+
+      const result = await settle(wallet, createMockPayload(), mockPaymentRequirements);
+
+      expect(result).toEqual({
+        success: true,
+        transaction: "0xtransfertx",
+        network: "base-sepolia",
+        payer: ownerAddress,
+      });
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
+          functionName: "permitWitnessTransferFrom",
+          args: [
+            {
+              permitted: { token: mockPaymentRequirements.asset, amount: BigInt(1000000) },
+              nonce: BigInt(12345),
+              deadline: expect.any(BigInt),
+            },
+            { to: mockPaymentRequirements.payTo, requestedAmount: BigInt(1000000) },
+            ownerAddress,
+            expect.stringMatching(/^0x[0-9a-f]{64}$/),
+            expect.stringContaining("PaymentWitness witness)"),
+            expect.any(String),
+          ],
+        }),
+      );
+    });
+
+    it("should report a failed Permit2 transfer", async () => {
+      const wallet = createMockWallet();
+      vi.mocked(wallet.waitForTransactionReceipt).mockResolvedValueOnce({
+        status: "reverted",
+      } as Awaited<ReturnType<typeof wallet.waitForTransactionReceipt>>);
+
+      const result = await settle(wallet, createMockPayload(), mockPaymentRequirements);
+
+      expect(result.errorReason).toBe("settle_exact_evm_permit2_failed");
+    });
+  });
+});
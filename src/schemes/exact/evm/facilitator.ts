@@ -6,10 +6,14 @@ import {
   Hex,
   parseErc6492Signature,
   parseSignature,
+  TransactionReceipt,
+  TransactionReceiptNotFoundError,
   Transport,
 } from "viem";
 import { getNetworkId } from "../../../shared";
-import { getVersion, getERC20Balance } from "../../../shared/evm";
+import { getVersion, getERC20Balance, isAuthorizationUsed } from "../../../shared/evm";
+import { X402Config } from "../../../types/config";
+import { Network } from "../../../types/shared/network";
 import {
   usdcABI as abi,
   authorizationTypes,
@@ -22,9 +26,23 @@ import {
   PaymentRequirements,
   SettleResponse,
   VerifyResponse,
+  ExactEvmAuthorizationType,
   ExactEvmPayload,
+  ExactEvmPermitPayload,
+  ExactEvmPermit2Payload,
 } from "../../../types/verify";
 import { SCHEME } from "../../exact";
+import {
+  PermitErrorReasons,
+  settlePermit as settleEip2612Permit,
+  verifyPermit as verifyEip2612Permit,
+} from "../../evm/permit";
+import {
+  Permit2ErrorReasons,
+  settlePermit2 as settlePermit2WitnessTransfer,
+  verifyPermit2 as verifyPermit2WitnessTransfer,
+} from "../../evm/permit2";
+import { selectExactEvmAuthorizationType } from "./utils/paymentUtils";
 
 /**
  * Verifies a payment payload against the required payment details
@@ -36,16 +54,57 @@ import { SCHEME } from "../../exact";
  * - Checks permit deadline is sufficiently in the future
  * - Verifies client has sufficient USDC balance
  * - Ensures payment amount meets required minimum
+ * - Reserves the EIP-3009 nonce in the configured nonce store until settlement, so that a
+ *   duplicate payment header is rejected
  *
  * @param client - The public client used for blockchain interactions
  * @param payload - The signed payment payload containing transfer parameters and signature
  * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @param x402Config - Optional configuration, with the nonce store reserving EIP-3009 nonces
  * @returns A ValidPaymentRequest indicating if the payment is valid and any invalidation reason
  */
 export async function verify<
   transport extends Transport,
   chain extends Chain,
   account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  x402Config?: X402Config,
+): Promise<VerifyResponse> {
+  const valid = await verifyPayment(client, payload, paymentRequirements);
+  const nonceStore = x402Config?.evmConfig?.nonceStore;
+  if (!valid.isValid || !nonceStore || getPayloadAuthorizationType(payload) !== "eip3009") {
+    return valid;
+  }
+
+  // Reserve the nonce until the payment is settled or the authorization expires, so that a
+  // duplicate payment header is rejected before the resource is served twice
+  const { authorization } = payload.payload as ExactEvmPayload;
+  const nonceKey = getNonceKey(payload, paymentRequirements);
+  if (!(await nonceStore.reserve(nonceKey, Number(authorization.validBefore)))) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_exact_evm_payload_nonce_used",
+      payer: authorization.from,
+    };
+  }
+  return valid;
+}
+
+/**
+ * Verifies a payment payload against the required payment details, without reserving its nonce
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed payment payload containing transfer parameters and signature
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+async function verifyPayment<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
 >(
   client: ConnectedClient<transport, chain, account>,
   payload: PaymentPayload,
@@ -57,13 +116,35 @@ export async function verify<
     - ✅ verify usdc address is correct for the chain
     - ✅ verify permit signature
     - ✅ verify deadline
-    - verify nonce is current
+    - ✅ verify nonce is current
     - ✅ verify client has enough funds to cover paymentRequirements.maxAmountRequired
     - ✅ verify value in payload is enough to cover paymentRequirements.maxAmountRequired
     - check min amount is above some threshold we think is reasonable for covering gas
     - verify resource is not already paid for (next version)
     */
 
+  // Verify the payload uses the authorization type selected by the payment requirements or the asset
+  const payloadAuthorizationType = getPayloadAuthorizationType(payload);
+  let authorizationType: string;
+  try {
+    authorizationType = await selectExactEvmAuthorizationType(client, paymentRequirements);
+  } catch {
+    authorizationType = "unsupported";
+  }
+  if (authorizationType !== payloadAuthorizationType) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_exact_evm_payload_authorization_type",
+      payer: getPayer(payload),
+    };
+  }
+  if (payloadAuthorizationType === "eip2612") {
+    return verifyPermit(client, payload, paymentRequirements);
+  }
+  if (payloadAuthorizationType === "permit2") {
+    return verifyPermit2(client, payload, paymentRequirements);
+  }
+
   const exactEvmPayload = payload.payload as ExactEvmPayload;
 
   // Verify payload version
@@ -151,6 +232,20 @@ export async function verify<
       payer: exactEvmPayload.authorization.from,
     };
   }
+  // Verify the authorization has not already been used on-chain
+  const isNonceUsed = await isAuthorizationUsed(
+    client,
+    erc20Address,
+    exactEvmPayload.authorization.from as Address,
+    exactEvmPayload.authorization.nonce as Hex,
+  );
+  if (isNonceUsed) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_exact_evm_payload_nonce_used",
+      payer: exactEvmPayload.authorization.from,
+    };
+  }
   // Verify client has enough funds to cover paymentRequirements.maxAmountRequired
   const balance = await getERC20Balance(
     client,
@@ -211,6 +306,25 @@ export async function verify<
   };
 }
 
+// The async settlements whose transaction could not be awaited, by transaction hash, reported
+// as failed by getSettlementStatus as long as the transaction has no receipt
+const failedSettlements = new Map<string, SettleResponse["errorReason"]>();
+const MAX_FAILED_SETTLEMENTS = 1000;
+
+/**
+ * Records an async settlement whose transaction could not be awaited, forgetting the oldest
+ * records once there are too many
+ *
+ * @param transaction - The hash of the settlement transaction
+ * @param errorReason - The reason the settlement failed
+ */
+function recordFailedSettlement(transaction: Hex, errorReason: SettleResponse["errorReason"]) {
+  failedSettlements.set(transaction.toLowerCase(), errorReason);
+  if (failedSettlements.size > MAX_FAILED_SETTLEMENTS) {
+    failedSettlements.delete(failedSettlements.keys().next().value!);
+  }
+}
+
 /**
  * Settles a payment by executing a USDC transferWithAuthorization transaction
  *
@@ -220,17 +334,27 @@ export async function verify<
  * @param wallet - The facilitator wallet that will submit the transaction
  * @param paymentPayload - The signed payment payload containing the transfer parameters and signature
  * @param paymentRequirements - The original payment details that were used to create the payload
+ * @param x402Config - Optional configuration, with the settlement mode and the nonce store reserving the EIP-3009 nonce while the settlement is in flight
  * @returns A PaymentExecutionResponse containing the transaction status and hash
  */
 export async function settle<transport extends Transport, chain extends Chain>(
   wallet: SignerWallet<chain, transport>,
   paymentPayload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
+  x402Config?: X402Config,
 ): Promise<SettleResponse> {
+  const payloadAuthorizationType = getPayloadAuthorizationType(paymentPayload);
+  if (payloadAuthorizationType === "eip2612") {
+    return settlePermit(wallet, paymentPayload, paymentRequirements, x402Config);
+  }
+  if (payloadAuthorizationType === "permit2") {
+    return settlePermit2(wallet, paymentPayload, paymentRequirements, x402Config);
+  }
+
   const payload = paymentPayload.payload as ExactEvmPayload;
 
   // re-verify to ensure the payment is still valid
-  const valid = await verify(wallet, paymentPayload, paymentRequirements);
+  const valid = await verifyPayment(wallet, paymentPayload, paymentRequirements);
 
   if (!valid.isValid) {
     return {
@@ -271,68 +395,415 @@ export async function settle<transport extends Transport, chain extends Chain>(
     }
   }
 
-  let tx: Hex;
+  // Claim the settlement of the nonce so that a duplicate payment header is not settled twice.
+  // The nonce itself is reserved by verify, or here for payments verified elsewhere.
+  const nonceStore = x402Config?.evmConfig?.nonceStore;
+  const nonceKey = getNonceKey(paymentPayload, paymentRequirements);
+  const settlementKey = `${nonceKey}:settlement`;
+  const expiresAt = Number(payload.authorization.validBefore);
+  if (nonceStore && !(await nonceStore.reserve(settlementKey, expiresAt))) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: "invalid_exact_evm_payload_nonce_used",
+      payer: payload.authorization.from,
+    };
+  }
+  await nonceStore?.reserve(nonceKey, expiresAt);
+
+  /**
+   * Releases the reserved nonce once the settlement has failed, since the authorization was not
+   * consumed and the payer may retry with the same payment header
+   *
+   * @returns A promise that resolves once the nonce is released
+   */
+  const releaseNonce = async () => {
+    await nonceStore?.release(settlementKey);
+    await nonceStore?.release(nonceKey);
+  };
+
+  let isConsumed = false;
+  try {
+    let tx: Hex;
 
-  if (isSmartWallet) {
-    // Smart wallets: Use bytes signature overload (requires FiatToken v2.0+)
-    // Unwrap EIP-6492 if present (no-op for regular signatures)
-    const { signature: unwrappedSignature } = parseErc6492Signature(payload.signature as Hex);
-
-    tx = await wallet.writeContract({
-      address: paymentRequirements.asset as Address,
-      abi,
-      functionName: "transferWithAuthorization" as const,
-      args: [
-        payload.authorization.from as Address,
-        payload.authorization.to as Address,
-        BigInt(payload.authorization.value),
-        BigInt(payload.authorization.validAfter),
-        BigInt(payload.authorization.validBefore),
-        payload.authorization.nonce as Hex,
-        unwrappedSignature,
-      ],
-      chain: wallet.chain as Chain,
-    });
-  } else {
-    // EOA: Use (v, r, s) overload for maximum compatibility
-    const parsedSig = parseSignature(payload.signature as Hex);
-    const v = parsedSig.v !== undefined ? Number(parsedSig.v) : 27 + parsedSig.yParity;
-
-    tx = await wallet.writeContract({
-      address: paymentRequirements.asset as Address,
-      abi,
-      functionName: "transferWithAuthorization" as const,
-      args: [
-        payload.authorization.from as Address,
-        payload.authorization.to as Address,
-        BigInt(payload.authorization.value),
-        BigInt(payload.authorization.validAfter),
-        BigInt(payload.authorization.validBefore),
-        payload.authorization.nonce as Hex,
-        v,
-        parsedSig.r,
-        parsedSig.s,
-      ],
-      chain: wallet.chain as Chain,
-    });
-  }
-
-  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+    if (isSmartWallet) {
+      // Smart wallets: Use bytes signature overload (requires FiatToken v2.0+)
+      // Unwrap EIP-6492 if present (no-op for regular signatures)
+      const { signature: unwrappedSignature } = parseErc6492Signature(payload.signature as Hex);
 
-  if (receipt.status !== "success") {
+      tx = await wallet.writeContract({
+        address: paymentRequirements.asset as Address,
+        abi,
+        functionName: "transferWithAuthorization" as const,
+        args: [
+          payload.authorization.from as Address,
+          payload.authorization.to as Address,
+          BigInt(payload.authorization.value),
+          BigInt(payload.authorization.validAfter),
+          BigInt(payload.authorization.validBefore),
+          payload.authorization.nonce as Hex,
+          unwrappedSignature,
+        ],
+        chain: wallet.chain as Chain,
+      });
+    } else {
+      // EOA: Use (v, r, s) overload for maximum compatibility
+      const parsedSig = parseSignature(payload.signature as Hex);
+      const v = parsedSig.v !== undefined ? Number(parsedSig.v) : 27 + parsedSig.yParity;
+
+      tx = await wallet.writeContract({
+        address: paymentRequirements.asset as Address,
+        abi,
+        functionName: "transferWithAuthorization" as const,
+        args: [
+          payload.authorization.from as Address,
+          payload.authorization.to as Address,
+          BigInt(payload.authorization.value),
+          BigInt(payload.authorization.validAfter),
+          BigInt(payload.authorization.validBefore),
+          payload.authorization.nonce as Hex,
+          v,
+          parsedSig.r,
+          parsedSig.s,
+        ],
+        chain: wallet.chain as Chain,
+      });
+    }
+
+    if (x402Config?.settlementMode === "async") {
+      // the transaction is awaited in the background, which releases the nonce if it fails
+      isConsumed = true;
+      wallet
+        .waitForTransactionReceipt({ hash: tx })
+        .then(
+          receipt => (receipt.status !== "success" ? releaseNonce() : undefined),
+          async error => {
+            console.error("Failed to wait for settlement transaction:", error);
+            recordFailedSettlement(tx, "unexpected_settle_error");
+            await releaseNonce();
+          },
+        )
+        .catch(error => console.error("Failed to release settlement nonce:", error));
+      return pendingSettlement(tx, paymentPayload, payload.authorization.from);
+    }
+
+    const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+
+    if (receipt.status !== "success") {
+      return {
+        success: false,
+        errorReason: "invalid_transaction_state", //`Transaction failed`,
+        transaction: tx,
+        network: paymentPayload.network,
+        payer: payload.authorization.from,
+      };
+    }
+
+    isConsumed = true;
     return {
-      success: false,
-      errorReason: "invalid_transaction_state", //`Transaction failed`,
+      success: true,
       transaction: tx,
       network: paymentPayload.network,
       payer: payload.authorization.from,
     };
+  } finally {
+    if (!isConsumed) {
+      await releaseNonce();
+    }
   }
+}
 
+/**
+ * Gets the status of a settlement transaction broadcast in the "async" settlement mode
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param network - The network the transaction was broadcast on
+ * @param transaction - The hash of the settlement transaction
+ * @returns A SettleResponse with a "pending", "confirmed" or "failed" status
+ */
+export async function getSettlementStatus<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  network: Network,
+  transaction: string,
+): Promise<SettleResponse> {
+  let receipt: TransactionReceipt;
+  try {
+    receipt = await client.getTransactionReceipt({ hash: transaction as Hex });
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      const errorReason = failedSettlements.get(transaction.toLowerCase());
+      return errorReason
+        ? { success: false, status: "failed", errorReason, transaction, network }
+        : { success: true, status: "pending", transaction, network };
+    }
+    throw error;
+  }
+
+  if (receipt.status !== "success") {
+    return {
+      success: false,
+      status: "failed",
+      errorReason: "invalid_transaction_state",
+      transaction,
+      network,
+    };
+  }
+  return { success: true, status: "confirmed", transaction, network };
+}
+
+const PERMIT_ERROR_REASONS: PermitErrorReasons = {
+  signature: "invalid_exact_evm_payload_signature",
+  spenderMismatch: "invalid_exact_evm_payload_permit_spender_mismatch",
+  deadline: "invalid_exact_evm_payload_permit_deadline",
+  nonce: "invalid_exact_evm_payload_permit_nonce",
+  value: "invalid_exact_evm_payload_authorization_value",
+  permitFailed: "settle_exact_evm_permit_failed",
+  transferFailed: "invalid_transaction_state",
+};
+
+/**
+ * Verifies an EIP-2612 permit payment payload against the required payment details
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed payment payload containing the permit and signature
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+async function verifyPermit<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  const { permit, signature } = payload.payload as ExactEvmPermitPayload;
+
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    return {
+      isValid: false,
+      invalidReason: `unsupported_scheme`,
+      payer: permit.owner,
+    };
+  }
+
+  return verifyEip2612Permit(
+    client,
+    payload,
+    permit,
+    signature,
+    paymentRequirements,
+    PERMIT_ERROR_REASONS,
+  );
+}
+
+/**
+ * Settles an EIP-2612 permit payment by submitting the permit and then transferring
+ * `paymentRequirements.maxAmountRequired` to `payTo` with transferFrom
+ *
+ * @param wallet - The facilitator wallet, which must be the spender of the permit
+ * @param paymentPayload - The signed payment payload containing the permit and signature
+ * @param paymentRequirements - The original payment details that were used to create the payload
+ * @param x402Config - Optional configuration, with the settlement mode
+ * @returns A SettleResponse containing the transfer transaction status and hash
+ */
+async function settlePermit<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  x402Config?: X402Config,
+): Promise<SettleResponse> {
+  const { permit, signature } = paymentPayload.payload as ExactEvmPermitPayload;
+
+  // re-verify to ensure the payment is still valid
+  const valid = await verifyPayment(wallet, paymentPayload, paymentRequirements);
+  if (!valid.isValid) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: valid.invalidReason ?? "invalid_scheme",
+      payer: permit.owner,
+    };
+  }
+
+  return settleEip2612Permit(
+    wallet,
+    paymentPayload,
+    permit,
+    signature,
+    paymentRequirements,
+    BigInt(paymentRequirements.maxAmountRequired),
+    PERMIT_ERROR_REASONS,
+    x402Config?.settlementMode,
+  );
+}
+
+const PERMIT2_ERROR_REASONS: Permit2ErrorReasons = {
+  signature: "invalid_exact_evm_payload_signature",
+  tokenMismatch: "invalid_exact_evm_payload_permit2_token_mismatch",
+  spenderMismatch: "invalid_exact_evm_payload_permit_spender_mismatch",
+  witnessMismatch: "invalid_exact_evm_payload_permit2_witness_mismatch",
+  deadline: "invalid_exact_evm_payload_permit_deadline",
+  nonce: "invalid_exact_evm_payload_permit_nonce",
+  allowance: "invalid_exact_evm_payload_permit2_allowance",
+  value: "invalid_exact_evm_payload_authorization_value",
+  transferFailed: "settle_exact_evm_permit2_failed",
+};
+
+/**
+ * Verifies a Permit2 witness transfer payment payload against the required payment details
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed payment payload containing the Permit2 authorization and signature
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+async function verifyPermit2<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  const { permit2Authorization, signature } = payload.payload as ExactEvmPermit2Payload;
+
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    return {
+      isValid: false,
+      invalidReason: `unsupported_scheme`,
+      payer: permit2Authorization.from,
+    };
+  }
+
+  return verifyPermit2WitnessTransfer(
+    client,
+    payload,
+    permit2Authorization,
+    signature,
+    paymentRequirements,
+    PERMIT2_ERROR_REASONS,
+  );
+}
+
+/**
+ * Settles a Permit2 witness transfer payment by calling permitWitnessTransferFrom on Permit2,
+ * transferring `paymentRequirements.maxAmountRequired` to `payTo`
+ *
+ * @param wallet - The facilitator wallet, which must be the spender of the Permit2 authorization
+ * @param paymentPayload - The signed payment payload containing the Permit2 authorization and signature
+ * @param paymentRequirements - The original payment details that were used to create the payload
+ * @param x402Config - Optional configuration, with the settlement mode
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+async function settlePermit2<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  x402Config?: X402Config,
+): Promise<SettleResponse> {
+  const { permit2Authorization, signature } = paymentPayload.payload as ExactEvmPermit2Payload;
+
+  // re-verify to ensure the payment is still valid
+  const valid = await verifyPayment(wallet, paymentPayload, paymentRequirements);
+  if (!valid.isValid) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: valid.invalidReason ?? "invalid_scheme",
+      payer: permit2Authorization.from,
+    };
+  }
+
+  return settlePermit2WitnessTransfer(
+    wallet,
+    paymentPayload,
+    permit2Authorization,
+    signature,
+    paymentRequirements,
+    BigInt(paymentRequirements.maxAmountRequired),
+    PERMIT2_ERROR_REASONS,
+    x402Config?.settlementMode,
+  );
+}
+
+/**
+ * Builds the response of a settlement whose transaction was broadcast but not confirmed yet
+ *
+ * @param transaction - The hash of the settlement transaction
+ * @param paymentPayload - The payment payload being settled
+ * @param payer - The address paying for the resource
+ * @returns A successful SettleResponse with a "pending" status
+ */
+function pendingSettlement(
+  transaction: Hex,
+  paymentPayload: PaymentPayload,
+  payer: string,
+): SettleResponse {
   return {
     success: true,
-    transaction: tx,
+    status: "pending",
+    transaction,
     network: paymentPayload.network,
-    payer: payload.authorization.from,
+    payer,
   };
 }
+
+/**
+ * Gets the authorization type an exact EVM payment payload was signed with
+ *
+ * @param payload - The payment payload to inspect
+ * @returns The authorization type of the payload
+ */
+function getPayloadAuthorizationType(payload: PaymentPayload): ExactEvmAuthorizationType {
+  if ("permit" in payload.payload) {
+    return "eip2612";
+  }
+  if ("permit2Authorization" in payload.payload) {
+    return "permit2";
+  }
+  return "eip3009";
+}
+
+/**
+ * Gets the address paying with an exact EVM payment payload
+ *
+ * @param payload - The payment payload to inspect
+ * @returns The address of the payer
+ */
+function getPayer(payload: PaymentPayload): string {
+  switch (getPayloadAuthorizationType(payload)) {
+    case "eip2612":
+      return (payload.payload as ExactEvmPermitPayload).permit.owner;
+    case "permit2":
+      return (payload.payload as ExactEvmPermit2Payload).permit2Authorization.from;
+    default:
+      return (payload.payload as ExactEvmPayload).authorization.from;
+  }
+}
+
+/**
+ * Gets the key identifying an EIP-3009 authorization in a nonce store
+ *
+ * @param payload - The payment payload containing the authorization
+ * @param paymentRequirements - The payment requirements containing the asset
+ * @returns The nonce store key for the authorization
+ */
+function getNonceKey(payload: PaymentPayload, paymentRequirements: PaymentRequirements): string {
+  const { authorization } = payload.payload as ExactEvmPayload;
+  return [
+    payload.network,
+    getAddress(paymentRequirements.asset),
+    getAddress(authorization.from),
+    authorization.nonce.toLowerCase(),
+  ].join(":");
+}
@@ -1,3 +1,4 @@
 export * from "./client";
 export * from "./facilitator";
+export * from "./scheme";
 export * from "./utils/paymentUtils";
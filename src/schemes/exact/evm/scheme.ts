@@ -0,0 +1,48 @@
+import { z } from "zod";
+import {
+  isEvmSignerWallet,
+  isMultiNetworkSigner,
+  SupportedEVMNetworks,
+} from "../../../types/shared";
+import { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import {
+  ExactEvmPayloadSchema,
+  ExactEvmPermit2PayloadSchema,
+  ExactEvmPermitPayloadSchema,
+} from "../../../types/verify";
+import { SchemeImplementation } from "../../registry";
+import { SCHEME } from "../../exact";
+import { createPaymentHeader } from "./client";
+import { getSettlementStatus, settle, verify } from "./facilitator";
+
+/**
+ * Creates the built-in implementation of the exact scheme on EVM networks
+ *
+ * @returns The exact EVM scheme implementation
+ */
+export function exactEvmScheme(): SchemeImplementation {
+  return {
+    scheme: SCHEME,
+    networks: SupportedEVMNetworks,
+    payloadSchema: z.union([
+      ExactEvmPayloadSchema,
+      ExactEvmPermitPayloadSchema,
+      ExactEvmPermit2PayloadSchema,
+    ]),
+    createPaymentHeader: async (client, x402Version, paymentRequirements) => {
+      const evmClient = isMultiNetworkSigner(client) ? client.evm : client;
+
+      if (!isEvmSignerWallet(evmClient)) {
+        throw new Error("Invalid evm wallet client provided");
+      }
+
+      return await createPaymentHeader(evmClient, x402Version, paymentRequirements);
+    },
+    verify: (client, payload, paymentRequirements, config) =>
+      verify(client as ConnectedClient, payload, paymentRequirements, config),
+    settle: (client, payload, paymentRequirements, config) =>
+      settle(client as SignerWallet, payload, paymentRequirements, config),
+    getSettlementStatus: (client, network, transaction) =>
+      getSettlementStatus(client as ConnectedClient, network, transaction),
+  };
+}
@@ -4,9 +4,17 @@ import {
   authorizationTypes,
   isAccount,
   isSignerWallet,
+  permit2Address,
+  permit2WitnessTypes,
+  permitTypes,
   SignerWallet,
 } from "../../../types/shared/evm";
-import { ExactEvmPayloadAuthorization, PaymentRequirements } from "../../../types/verify";
+import {
+  EvmPermit,
+  EvmPermit2Authorization,
+  ExactEvmPayloadAuthorization,
+  PaymentRequirements,
+} from "../../../types/verify";
 
 /**
  * Signs an EIP-3009 authorization for USDC transfer
@@ -68,6 +76,125 @@ export async function signAuthorization<transport extends Transport, chain exten
   }
 }
 
+/**
+ * Signs an EIP-2612 permit allowing the facilitator to transfer up to `value` tokens,
+ * for tokens that do not implement EIP-3009
+ *
+ * @param walletClient - The wallet client that will sign the permit
+ * @param params - The permit parameters
+ * @param params.owner - The address tokens will be transferred from
+ * @param params.spender - The facilitator address allowed to transfer the tokens
+ * @param params.value - The maximum amount of tokens that can be transferred (in base units)
+ * @param params.nonce - The owner's current permit nonce on the token contract
+ * @param params.deadline - Unix timestamp after which the permit can no longer be used
+ * @param paymentRequirements - The payment requirements containing asset and network information
+ * @param paymentRequirements.asset - The address of the ERC20 contract
+ * @param paymentRequirements.network - The network where the ERC20 contract exists
+ * @param paymentRequirements.extra - The extra information containing the name and version of the ERC20 contract
+ * @returns The signature for the permit
+ */
+export async function signPermit<transport extends Transport, chain extends Chain>(
+  walletClient: SignerWallet<chain, transport> | LocalAccount,
+  { owner, spender, value, nonce, deadline }: EvmPermit,
+  { asset, network, extra }: PaymentRequirements,
+): Promise<{ signature: Hex }> {
+  const chainId = getNetworkId(network);
+  const name = extra?.name;
+  const version = extra?.version;
+
+  const data = {
+    types: permitTypes,
+    domain: {
+      name,
+      version,
+      chainId,
+      verifyingContract: getAddress(asset),
+    },
+    primaryType: "Permit" as const,
+    message: {
+      owner: getAddress(owner),
+      spender: getAddress(spender),
+      value,
+      nonce,
+      deadline,
+    },
+  };
+
+  if (isSignerWallet(walletClient)) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else if (isAccount(walletClient) && walletClient.signTypedData) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else {
+    throw new Error("Invalid wallet client provided does not support signTypedData");
+  }
+}
+
+/**
+ * Signs a Permit2 witness transfer allowing the facilitator to transfer `permitted.amount`
+ * tokens through Permit2, bound to the payee and resource by the witness
+ *
+ * @param walletClient - The wallet client that will sign the authorization
+ * @param params - The Permit2 authorization parameters
+ * @param params.permitted - The token and maximum amount that can be transferred (in base units)
+ * @param params.spender - The facilitator address allowed to execute the transfer
+ * @param params.nonce - Random unordered Permit2 nonce to prevent replay attacks
+ * @param params.deadline - Unix timestamp after which the authorization can no longer be used
+ * @param params.witness - The payee and resource the transfer pays for
+ * @param paymentRequirements - The payment requirements containing network information
+ * @param paymentRequirements.network - The network where Permit2 is used
+ * @returns The signature for the Permit2 authorization
+ */
+export async function signPermit2<transport extends Transport, chain extends Chain>(
+  walletClient: SignerWallet<chain, transport> | LocalAccount,
+  { permitted, spender, nonce, deadline, witness }: EvmPermit2Authorization,
+  { network }: PaymentRequirements,
+): Promise<{ signature: Hex }> {
+  const chainId = getNetworkId(network);
+
+  const data = {
+    types: permit2WitnessTypes,
+    domain: {
+      name: "Permit2",
+      chainId,
+      verifyingContract: permit2Address,
+    },
+    primaryType: "PermitWitnessTransferFrom" as const,
+    message: {
+      permitted: {
+        token: getAddress(permitted.token),
+        amount: permitted.amount,
+      },
+      spender: getAddress(spender),
+      nonce,
+      deadline,
+      witness: {
+        to: getAddress(witness.to),
+        resource: witness.resource,
+      },
+    },
+  };
+
+  if (isSignerWallet(walletClient)) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else if (isAccount(walletClient) && walletClient.signTypedData) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else {
+    throw new Error("Invalid wallet client provided does not support signTypedData");
+  }
+}
+
 /**
  * Generates a random 32-byte nonce for use in authorization signatures
  *
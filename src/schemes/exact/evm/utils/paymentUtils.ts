@@ -1,9 +1,15 @@
+import { Account, Address, Chain, Transport } from "viem";
 import { safeBase64Encode, safeBase64Decode } from "../../../../shared";
+import { supportsEip3009 } from "../../../../shared/evm";
 import { SupportedEVMNetworks, SupportedSVMNetworks } from "../../../../types";
+import { ConnectedClient } from "../../../../types/shared/evm";
 import {
   PaymentPayload,
   PaymentPayloadSchema,
+  PaymentRequirements,
   ExactEvmPayload,
+  ExactEvmAuthorizationType,
+  ExactEvmAuthorizationTypes,
   ExactSvmPayload,
 } from "../../../../types/verify";
 
@@ -18,6 +24,11 @@ export function encodePayment(payment: PaymentPayload): string {
 
   // evm
   if (SupportedEVMNetworks.includes(payment.network)) {
+    // permit payloads are already made of strings
+    if ("permit" in payment.payload || "permit2Authorization" in payment.payload) {
+      return safeBase64Encode(JSON.stringify(payment));
+    }
+
     const evmPayload = payment.payload as ExactEvmPayload;
     safe = {
       ...payment,
@@ -76,3 +87,46 @@ export function decodePayment(payment: string): PaymentPayload {
   const validated = PaymentPayloadSchema.parse(obj);
   return validated;
 }
+
+/**
+ * Gets how the payer authorizes an exact EVM payment, as selected by the resource server
+ * through `paymentRequirements.extra.authorizationType`. Defaults to EIP-3009.
+ *
+ * @param paymentRequirements - The payment requirements to read the authorization type from
+ * @returns The authorization type for the payment
+ * @throws Error if the authorization type is not supported
+ */
+export function getExactEvmAuthorizationType(
+  paymentRequirements: PaymentRequirements,
+): ExactEvmAuthorizationType {
+  const authorizationType = paymentRequirements.extra?.authorizationType ?? "eip3009";
+  if (!ExactEvmAuthorizationTypes.includes(authorizationType)) {
+    throw new Error(`Unsupported authorization type: ${authorizationType}`);
+  }
+  return authorizationType;
+}
+
+/**
+ * Selects how the payer authorizes an exact EVM payment. The authorization type set in
+ * `paymentRequirements.extra.authorizationType` wins; otherwise the asset is probed for EIP-3009
+ * support and paid with an EIP-2612 permit if it lacks it.
+ *
+ * @param client - The client used to probe the asset
+ * @param paymentRequirements - The payment requirements to select the authorization type for
+ * @returns The authorization type for the payment
+ * @throws Error if the authorization type set in the payment requirements is not supported
+ */
+export async function selectExactEvmAuthorizationType<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  paymentRequirements: PaymentRequirements,
+): Promise<ExactEvmAuthorizationType> {
+  if (paymentRequirements.extra?.authorizationType !== undefined) {
+    return getExactEvmAuthorizationType(paymentRequirements);
+  }
+  const isEip3009 = await supportsEip3009(client, paymentRequirements.asset as Address);
+  return isEip3009 ? "eip3009" : "eip2612";
+}
@@ -8,6 +8,7 @@ import * as computeBudget from "@solana-program/compute-budget";
 import * as paymentUtils from "../../utils";
 import { PaymentRequirements } from "../../../types/verify";
 import * as rpc from "../../../shared/svm/rpc";
+import { isResourceMemoFor, MEMO_PROGRAM_ADDRESS } from "../../../shared/svm/memo";
 import { createAndSignPayment, createPaymentHeader } from "./client";
 
 // Mocking dependencies
@@ -19,6 +20,9 @@ vi.mock("@solana-program/token-2022", async importOriginal => {
     ...actual,
     findAssociatedTokenPda: vi.fn(),
     getTransferCheckedInstruction: vi.fn().mockReturnValue({ instruction: "mock_transfer" }),
+    getCreateAssociatedTokenIdempotentInstruction: vi
+      .fn()
+      .mockReturnValue({ instruction: "mock_create_ata" }),
     fetchMint: vi.fn(),
   };
 });
@@ -29,6 +33,7 @@ vi.mock("@solana/kit", async importOriginal => {
     createTransactionMessage: vi.fn().mockReturnValue({ version: 0, instructions: [] }),
     setTransactionMessageFeePayer: vi.fn().mockImplementation((_payer, tx) => tx),
     setTransactionMessageLifetimeUsingBlockhash: vi.fn().mockImplementation((_bh, tx) => tx),
+    setTransactionMessageLifetimeUsingDurableNonce: vi.fn().mockImplementation((_nonce, tx) => tx),
     appendTransactionMessageInstructions: vi.fn().mockImplementation((ixs, tx) => {
       return { ...tx, instructions: [...tx.instructions, ...ixs] };
     }),
@@ -194,6 +199,113 @@ describe("SVM Client", () => {
       );
     });
 
+    it("should not create the receiver's ATA by default", async () => {
+      await createAndSignPayment(clientSigner, 1, paymentRequirements);
+
+      expect(token2022.getCreateAssociatedTokenIdempotentInstruction).not.toHaveBeenCalled();
+      expect(solanaKit.appendTransactionMessageInstructions).toHaveBeenCalledWith(
+        [{ instruction: "mock_transfer" }],
+        expect.anything(),
+      );
+    });
+
+    it("should prepend an idempotent create ATA instruction paid for by the client", async () => {
+      await createAndSignPayment(clientSigner, 1, paymentRequirements, {
+        svmConfig: { createRecipientAta: "always" },
+      });
+
+      expect(token2022.getCreateAssociatedTokenIdempotentInstruction).toHaveBeenCalledWith({
+        payer: clientSigner,
+        ata: "sourceATA",
+        owner: paymentRequirements.payTo,
+        mint: paymentRequirements.asset,
+        tokenProgram: token.TOKEN_PROGRAM_ADDRESS,
+      });
+      expect(solanaKit.appendTransactionMessageInstructions).toHaveBeenCalledWith(
+        [{ instruction: "mock_create_ata" }, { instruction: "mock_transfer" }],
+        expect.anything(),
+      );
+    });
+
+    it("should only create the receiver's ATA if it is missing with if-missing", async () => {
+      const config = { svmConfig: { createRecipientAta: "if-missing" as const } };
+
+      await createAndSignPayment(clientSigner, 1, paymentRequirements, config);
+      expect(token2022.getCreateAssociatedTokenIdempotentInstruction).not.toHaveBeenCalled();
+
+      vi.spyOn(solanaKit, "fetchEncodedAccount").mockResolvedValue({ exists: false } as any);
+      await createAndSignPayment(clientSigner, 1, paymentRequirements, config);
+      expect(token2022.getCreateAssociatedTokenIdempotentInstruction).toHaveBeenCalledOnce();
+    });
+
+    it("should append a memo binding the payment to the resource if enabled", async () => {
+      await createAndSignPayment(clientSigner, 1, paymentRequirements, {
+        svmConfig: { bindResourceMemo: true },
+      });
+
+      const [instructions] = vi.mocked(solanaKit.appendTransactionMessageInstructions).mock
+        .calls[0] as any[];
+      expect(instructions).toHaveLength(2);
+      expect(instructions[0]).toEqual({ instruction: "mock_transfer" });
+      expect(instructions[1].programAddress).toBe(MEMO_PROGRAM_ADDRESS);
+      expect(isResourceMemoFor(instructions[1].data, paymentRequirements.resource)).toBe(true);
+    });
+
+    it("should use the durable nonce of the configured nonce account", async () => {
+      const nonceAccountAddress = (await generateKeyPairSigner()).address;
+      const nonce = (await generateKeyPairSigner()).address;
+
+      await createAndSignPayment(clientSigner, 1, paymentRequirements, {
+        svmConfig: { durableNonce: { nonceAccountAddress, nonce } },
+      });
+
+      expect(solanaKit.setTransactionMessageLifetimeUsingDurableNonce).toHaveBeenCalledWith(
+        { nonce, nonceAccountAddress, nonceAuthorityAddress: clientSigner.address },
+        expect.anything(),
+      );
+      expect(computeBudget.getSetComputeUnitLimitInstruction).toHaveBeenCalledWith({
+        units: 1150,
+      });
+      expect(solanaKit.setTransactionMessageLifetimeUsingBlockhash).not.toHaveBeenCalled();
+      expect(mockRpcClient.getLatestBlockhash).not.toHaveBeenCalled();
+    });
+
+    it("should fetch the durable nonce from the nonce account if it is not configured", async () => {
+      const nonceAccountAddress = (await generateKeyPairSigner()).address;
+      const nonce = (await generateKeyPairSigner()).address;
+      const data = new Uint8Array(80);
+      data.set([1, 0, 0, 0, 1, 0, 0, 0]);
+      data.set(solanaKit.getAddressEncoder().encode(nonce), 40);
+      vi.spyOn(solanaKit, "fetchEncodedAccount").mockResolvedValue({ exists: true, data } as any);
+
+      await createAndSignPayment(clientSigner, 1, paymentRequirements, {
+        svmConfig: { durableNonce: { nonceAccountAddress } },
+      });
+
+      expect(solanaKit.fetchEncodedAccount).toHaveBeenCalledWith(
+        mockRpcClient,
+        nonceAccountAddress,
+      );
+      expect(solanaKit.setTransactionMessageLifetimeUsingDurableNonce).toHaveBeenCalledWith(
+        { nonce, nonceAccountAddress, nonceAuthorityAddress: clientSigner.address },
+        expect.anything(),
+      );
+    });
+
+    it("should throw an error if the nonce account is not initialized", async () => {
+      const nonceAccountAddress = (await generateKeyPairSigner()).address;
+      vi.spyOn(solanaKit, "fetchEncodedAccount").mockResolvedValue({
+        exists: true,
+        data: new Uint8Array(80),
+      } as any);
+
+      await expect(
+        createAndSignPayment(clientSigner, 1, paymentRequirements, {
+          svmConfig: { durableNonce: { nonceAccountAddress } },
+        }),
+      ).rejects.toThrow(`Account ${nonceAccountAddress} is not an initialized nonce account`);
+    });
+
     it("should throw an error if asset is not from a known token program", async () => {
       // Arrange
       vi.spyOn(token2022, "fetchMint").mockResolvedValue({
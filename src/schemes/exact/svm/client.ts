@@ -5,18 +5,22 @@ import {
   createTransactionMessage,
   setTransactionMessageFeePayer,
   setTransactionMessageLifetimeUsingBlockhash,
+  setTransactionMessageLifetimeUsingDurableNonce,
   appendTransactionMessageInstructions,
   partiallySignTransactionMessageWithSigners,
   prependTransactionMessageInstruction,
   getBase64EncodedWireTransaction,
   TransactionSigner,
   Instruction,
+  fetchEncodedAccount,
+  Nonce,
 } from "@solana/kit";
 import { PaymentPayload, PaymentRequirements } from "../../../types/verify";
 import { X402Config } from "../../../types/config";
 import {
   fetchMint,
   findAssociatedTokenPda,
+  getCreateAssociatedTokenIdempotentInstruction,
   getTransferCheckedInstruction,
   TOKEN_2022_PROGRAM_ADDRESS,
 } from "@solana-program/token-2022";
@@ -27,6 +31,12 @@ import {
   setTransactionMessageComputeUnitPrice,
 } from "@solana-program/compute-budget";
 import { getRpcClient } from "../../../shared/svm/rpc";
+import { getResourceMemoInstruction } from "../../../shared/svm/memo";
+import { fetchNonce } from "../../../shared/svm/transaction";
+
+// The compute units used by the System program's AdvanceNonceAccount instruction, which is not
+// part of the simulated transaction the compute unit limit is estimated from
+const ADVANCE_NONCE_COMPUTE_UNITS = 150;
 
 /**
  * Creates and encodes a payment header for the given client and payment requirements.
@@ -101,12 +111,15 @@ async function createTransferTransactionMessage(
 ) {
   const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
 
-  // create the transfer instruction
+  // create the transfer instruction, followed by the memo binding it to the resource if enabled
   const transferInstructions = await createTransferInstructions(
     client,
     paymentRequirements,
     config,
   );
+  if (config?.svmConfig?.bindResourceMemo) {
+    transferInstructions.push(getResourceMemoInstruction(paymentRequirements.resource));
+  }
 
   // create tx to simulate
   const feePayer = paymentRequirements.extra?.feePayer as Address;
@@ -121,7 +134,32 @@ async function createTransferTransactionMessage(
   const estimateComputeUnitLimit = estimateComputeUnitLimitFactory({ rpc });
   const estimatedUnits = await estimateComputeUnitLimit(txToSimulate);
 
-  // finalize the transaction message by adding the compute budget limit and blockhash
+  // finalize the transaction message by adding the compute budget limit and its lifetime,
+  // a durable nonce advanced by its first instruction or a recent blockhash
+  const durableNonce = config?.svmConfig?.durableNonce;
+  if (durableNonce) {
+    const nonceAccountAddress = durableNonce.nonceAccountAddress as Address;
+    const nonce = (durableNonce.nonce as Nonce) ?? (await fetchNonce(rpc, nonceAccountAddress));
+    if (!nonce) {
+      throw new Error(`Account ${nonceAccountAddress} is not an initialized nonce account`);
+    }
+    return pipe(
+      txToSimulate,
+      tx =>
+        prependTransactionMessageInstruction(
+          getSetComputeUnitLimitInstruction({
+            units: estimatedUnits + ADVANCE_NONCE_COMPUTE_UNITS,
+          }),
+          tx,
+        ),
+      tx =>
+        setTransactionMessageLifetimeUsingDurableNonce(
+          { nonce, nonceAccountAddress, nonceAuthorityAddress: client.address },
+          tx,
+        ),
+    );
+  }
+
   const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
   const tx = pipe(
     txToSimulate,
@@ -140,11 +178,13 @@ async function createTransferTransactionMessage(
  * Creates a transfer instruction for the given client and payment requirements.
  * This function will determine which transfer instruction to create
  * based on the program that created the token (token-2022 or token).
+ * Depending on `config.svmConfig.createRecipientAta`, the transfer is preceded by an idempotent
+ * instruction creating the receiver's ATA, paid for by the client.
  *
  * @param client - The signer instance used to create the transfer instruction
  * @param paymentRequirements - The payment requirements
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
- * @returns A promise that resolves to the transfer instruction array
+ * @returns A promise that resolves to the instruction array, ending with the transfer instruction
  */
 async function createTransferInstructions(
   client: TransactionSigner,
@@ -177,6 +217,24 @@ async function createTransferInstructions(
     tokenProgram: tokenProgramAddress,
   });
 
+  const createRecipientAta = config?.svmConfig?.createRecipientAta ?? "never";
+  const createAtaInstructions: Instruction[] = [];
+  if (
+    createRecipientAta === "always" ||
+    (createRecipientAta === "if-missing" &&
+      !(await fetchEncodedAccount(rpc, destinationATA)).exists)
+  ) {
+    createAtaInstructions.push(
+      getCreateAssociatedTokenIdempotentInstruction({
+        payer: client,
+        ata: destinationATA,
+        owner: payTo as Address,
+        mint: asset as Address,
+        tokenProgram: tokenProgramAddress,
+      }),
+    );
+  }
+
   const transferIx = getTransferCheckedInstruction(
     {
       source: sourceATA,
@@ -188,5 +246,5 @@ async function createTransferInstructions(
     },
     { programAddress: tokenProgramAddress },
   );
-  return [transferIx];
+  return [...createAtaInstructions, transferIx];
 }
@@ -6,6 +6,7 @@ import * as transactionConfirmation from "@solana/transaction-confirmation";
 import { PaymentPayload, PaymentRequirements, ExactSvmPayload } from "../../../../types/verify";
 import {
   decodeTransactionFromPayload,
+  fetchNonce,
   getTokenPayerFromTransaction,
   signTransactionWithSigner,
 } from "../../../../shared/svm";
@@ -41,6 +42,8 @@ vi.mock("@solana/transaction-confirmation", async importOriginal => {
   return {
     ...actual,
     createBlockHeightExceedencePromiseFactory: vi.fn().mockReturnValue(vi.fn()),
+    createNonceInvalidationPromiseFactory: vi.fn().mockReturnValue(vi.fn()),
+    waitForDurableNonceTransactionConfirmation: vi.fn(),
     waitForRecentTransactionConfirmation: vi.fn(),
     createRecentSignatureConfirmationPromiseFactory: vi.fn().mockReturnValue(vi.fn()),
   };
@@ -211,6 +214,173 @@ describe("SVM Settle", () => {
     });
   });
 
+  describe("async settlement", () => {
+    it("should return a pending settlement once the transaction is sent", async () => {
+      vi.mocked(verify).mockResolvedValue({ isValid: true, invalidReason: undefined });
+      vi.mocked(decodeTransactionFromPayload).mockReturnValue(mockSignedTransaction);
+      vi.mocked(getRpcClient).mockReturnValue(mockRpcClient);
+      vi.mocked(mockRpcClient.sendTransaction).mockReturnValue({
+        send: vi.fn().mockResolvedValue("mock_signature_123"),
+      });
+      vi.mocked(getTokenPayerFromTransaction).mockReturnValue(payerAddress);
+      vi.mocked(signTransactionWithSigner).mockResolvedValue(mockSignedTransaction);
+
+      const result = await settleModule.settle(signer, paymentPayload, paymentRequirements, {
+        settlementMode: "async",
+      });
+
+      expect(result).toEqual({
+        success: true,
+        status: "pending",
+        payer: payerAddress,
+        transaction: "mock_signature_123",
+        network: "solana-devnet",
+      });
+      expect(transactionConfirmation.waitForRecentTransactionConfirmation).not.toHaveBeenCalled();
+    });
+
+    it("should report an async settlement as failed once its blockhash expired", async () => {
+      vi.mocked(verify).mockResolvedValue({ isValid: true, invalidReason: undefined });
+      vi.mocked(decodeTransactionFromPayload).mockReturnValue(mockSignedTransaction);
+      vi.mocked(getTokenPayerFromTransaction).mockReturnValue(payerAddress);
+      vi.mocked(signTransactionWithSigner).mockResolvedValue(mockSignedTransaction);
+      vi.mocked(solanaKit.decompileTransactionMessageFetchingLookupTables).mockResolvedValue({
+        lifetimeConstraint: { blockhash: "mock_blockhash", lastValidBlockHeight: BigInt(1234) },
+        instructions: [],
+        version: 0,
+      } as any);
+      const getSignatureStatuses = vi.fn().mockReturnValue({
+        send: vi.fn().mockResolvedValue({ value: [null] }),
+      });
+      const getBlockHeight = vi.fn().mockReturnValue({
+        send: vi.fn().mockResolvedValue(BigInt(1234)),
+      });
+      vi.mocked(getRpcClient).mockReturnValue({
+        sendTransaction: vi.fn().mockReturnValue({
+          send: vi.fn().mockResolvedValue("dropped_signature"),
+        }),
+        getSignatureStatuses,
+        getBlockHeight,
+      } as any);
+
+      await settleModule.settle(signer, paymentPayload, paymentRequirements, {
+        settlementMode: "async",
+      });
+      const pending = await settleModule.getSettlementStatus("solana-devnet", "dropped_signature");
+      getBlockHeight.mockReturnValue({ send: vi.fn().mockResolvedValue(BigInt(1235)) });
+      const failed = await settleModule.getSettlementStatus("solana-devnet", "dropped_signature");
+
+      expect(pending.status).toBe("pending");
+      expect(failed).toEqual({
+        success: false,
+        status: "failed",
+        errorReason: "settle_exact_svm_block_height_exceeded",
+        transaction: "dropped_signature",
+        network: "solana-devnet",
+      });
+      expect(getSignatureStatuses).toHaveBeenLastCalledWith(["dropped_signature"], {
+        searchTransactionHistory: true,
+      });
+    });
+
+    it("should report an async settlement as failed once its durable nonce advanced", async () => {
+      const nonceAccountAddress = (await generateKeyPairSigner()).address;
+      vi.mocked(verify).mockResolvedValue({ isValid: true, invalidReason: undefined });
+      vi.mocked(decodeTransactionFromPayload).mockReturnValue(mockSignedTransaction);
+      vi.mocked(getTokenPayerFromTransaction).mockReturnValue(payerAddress);
+      vi.mocked(signTransactionWithSigner).mockResolvedValue(mockSignedTransaction);
+      vi.mocked(solanaKit.decompileTransactionMessageFetchingLookupTables).mockResolvedValue(
+        solanaKit.setTransactionMessageLifetimeUsingDurableNonce(
+          {
+            nonce: "mock_nonce" as solanaKit.Nonce,
+            nonceAccountAddress,
+            nonceAuthorityAddress: payerAddress as solanaKit.Address,
+          },
+          solanaKit.createTransactionMessage({ version: 0 }),
+        ) as any,
+      );
+      vi.mocked(getRpcClient).mockReturnValue({
+        sendTransaction: vi.fn().mockReturnValue({
+          send: vi.fn().mockResolvedValue("nonce_signature"),
+        }),
+        getSignatureStatuses: vi.fn().mockReturnValue({
+          send: vi.fn().mockResolvedValue({ value: [null] }),
+        }),
+      } as any);
+
+      await settleModule.settle(signer, paymentPayload, paymentRequirements, {
+        settlementMode: "async",
+      });
+      vi.mocked(fetchNonce).mockResolvedValueOnce("mock_nonce" as solanaKit.Nonce);
+      const pending = await settleModule.getSettlementStatus("solana-devnet", "nonce_signature");
+      vi.mocked(fetchNonce).mockResolvedValueOnce("advanced_nonce" as solanaKit.Nonce);
+      const failed = await settleModule.getSettlementStatus("solana-devnet", "nonce_signature");
+
+      expect(pending.status).toBe("pending");
+      expect(failed).toMatchObject({
+        success: false,
+        status: "failed",
+        errorReason: "settle_exact_svm_durable_nonce_invalidated",
+      });
+      expect(fetchNonce).toHaveBeenCalledWith(expect.anything(), nonceAccountAddress);
+    });
+
+    it.each([
+      [null, { success: true, status: "pending" }],
+      [
+        { confirmationStatus: "processed", err: null },
+        { success: true, status: "pending" },
+      ],
+      [
+        { confirmationStatus: "confirmed", err: null },
+        { success: true, status: "confirmed" },
+      ],
+      [
+        { confirmationStatus: "finalized", err: null },
+        { success: true, status: "confirmed" },
+      ],
+      [
+        { confirmationStatus: "confirmed", err: { InstructionError: [0, "Custom"] } },
+        { success: false, status: "failed", errorReason: "invalid_transaction_state" },
+      ],
+    ])("should report the status of signature status %j", async (signatureStatus, expected) => {
+      vi.mocked(getRpcClient).mockReturnValue({
+        getSignatureStatuses: vi.fn().mockReturnValue({
+          send: vi.fn().mockResolvedValue({ value: [signatureStatus] }),
+        }),
+      } as any);
+
+      const result = await settleModule.getSettlementStatus(
+        "solana-devnet",
+        "status_signature_123",
+      );
+
+      expect(result).toEqual({
+        ...expected,
+        transaction: "status_signature_123",
+        network: "solana-devnet",
+      });
+    });
+
+    it("should keep confirmed settlements pending until finalized if configured", async () => {
+      vi.mocked(getRpcClient).mockReturnValue({
+        getSignatureStatuses: vi.fn().mockReturnValue({
+          send: vi.fn().mockResolvedValue({ value: [{ confirmationStatus: "confirmed" }] }),
+        }),
+      } as any);
+
+      const result = await settleModule.getSettlementStatus(
+        "solana-devnet",
+        "status_signature_123",
+        {
+          svmConfig: { settlement: { commitment: "finalized" } },
+        },
+      );
+
+      expect(result.status).toBe("pending");
+    });
+  });
+
   describe("sendSignedTransaction", () => {
     it("should successfully send a signed transaction", async () => {
       // Arrange
@@ -390,6 +560,118 @@ describe("SVM Settle", () => {
       });
     });
 
+    it("should confirm a durable nonce transaction until its nonce is advanced", async () => {
+      // Arrange
+      const nonceAccountAddress = (await generateKeyPairSigner()).address;
+      vi.mocked(solanaKit.decompileTransactionMessageFetchingLookupTables).mockResolvedValue(
+        solanaKit.setTransactionMessageLifetimeUsingDurableNonce(
+          {
+            nonce: "mock_nonce" as solanaKit.Nonce,
+            nonceAccountAddress,
+            nonceAuthorityAddress: payerAddress as solanaKit.Address,
+          },
+          solanaKit.createTransactionMessage({ version: 0 }),
+        ) as any,
+      );
+      vi.mocked(
+        transactionConfirmation.waitForDurableNonceTransactionConfirmation,
+      ).mockResolvedValue(undefined);
+
+      // Act
+      const result = await settleModule.confirmSignedTransaction(
+        mockSignedTransaction,
+        mockRpcClient,
+        mockRpcSubscriptions,
+      );
+
+      // Assert
+      expect(
+        transactionConfirmation.waitForDurableNonceTransactionConfirmation,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          commitment: "confirmed",
+          transaction: expect.objectContaining({
+            lifetimeConstraint: { nonce: "mock_nonce", nonceAccountAddress },
+          }),
+        }),
+      );
+      expect(result).toEqual({ success: true, signature: "mock_signature_123" });
+    });
+
+    it("should handle invalidated durable nonces", async () => {
+      // Arrange
+      const nonceAccountAddress = (await generateKeyPairSigner()).address;
+      vi.mocked(solanaKit.decompileTransactionMessageFetchingLookupTables).mockResolvedValue(
+        solanaKit.setTransactionMessageLifetimeUsingDurableNonce(
+          {
+            nonce: "mock_nonce" as solanaKit.Nonce,
+            nonceAccountAddress,
+            nonceAuthorityAddress: payerAddress as solanaKit.Address,
+          },
+          solanaKit.createTransactionMessage({ version: 0 }),
+        ) as any,
+      );
+      vi.mocked(
+        transactionConfirmation.waitForDurableNonceTransactionConfirmation,
+      ).mockRejectedValue(new Error("Nonce invalidated"));
+      vi.mocked(solanaKit.isSolanaError).mockImplementation(
+        (_error, code) => code === solanaKit.SOLANA_ERROR__INVALID_NONCE,
+      );
+
+      // Act
+      const result = await settleModule.confirmSignedTransaction(
+        mockSignedTransaction,
+        mockRpcClient,
+        mockRpcSubscriptions,
+      );
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        errorReason: "settle_exact_svm_durable_nonce_invalidated",
+        signature: "mock_signature_123",
+      });
+    });
+
+    it("should time out after the configured timeout", async () => {
+      // Arrange
+      vi.useFakeTimers();
+      vi.mocked(solanaKit.decompileTransactionMessageFetchingLookupTables).mockResolvedValue({
+        lifetimeConstraint: {
+          blockhash: "mock_blockhash" as any,
+          lastValidBlockHeight: BigInt(1234),
+        },
+        instructions: [],
+        version: 0,
+      } as any);
+      vi.mocked(transactionConfirmation.waitForRecentTransactionConfirmation).mockImplementation(
+        ({ abortSignal }) =>
+          new Promise((_resolve, reject) =>
+            abortSignal!.addEventListener("abort", () =>
+              reject(new DOMException(abortSignal!.reason, "AbortError")),
+            ),
+          ),
+      );
+      vi.mocked(solanaKit.isSolanaError).mockReturnValue(false);
+
+      // Act
+      const result = settleModule.confirmSignedTransaction(
+        mockSignedTransaction,
+        mockRpcClient,
+        mockRpcSubscriptions,
+        { timeoutMs: 5000 },
+      );
+      await vi.advanceTimersByTimeAsync(5000);
+      vi.useRealTimers();
+
+      // Assert
+      await expect(result).resolves.toEqual({
+        success: false,
+        errorReason: "settle_exact_svm_transaction_confirmation_timed_out",
+        signature: "mock_signature_123",
+      });
+    });
+
     it("should throw unexpected errors", async () => {
       // Arrange
       const unexpectedError = new Error("Unexpected error");
@@ -576,6 +858,85 @@ describe("SVM Settle", () => {
       });
     });
 
+    it("should rebroadcast the transaction until it is confirmed", async () => {
+      // Arrange
+      vi.useFakeTimers();
+      vi.mocked(mockRpcClient.sendTransaction).mockReturnValue({
+        send: vi.fn().mockResolvedValue("mock_signature_123"),
+      });
+      vi.mocked(solanaKit.decompileTransactionMessageFetchingLookupTables).mockResolvedValue({
+        lifetimeConstraint: {
+          blockhash: "mock_blockhash" as any,
+          lastValidBlockHeight: BigInt(1234),
+        },
+        instructions: [],
+        version: 0,
+      } as any);
+      let confirm: () => void = () => {};
+      vi.mocked(transactionConfirmation.waitForRecentTransactionConfirmation).mockReturnValue(
+        new Promise<void>(resolve => (confirm = resolve)),
+      );
+
+      // Act
+      const result = settleModule.sendAndConfirmSignedTransaction(
+        mockSignedTransaction,
+        mockRpcClient,
+        mockRpcSubscriptions,
+        { rebroadcastIntervalMs: 1000, commitment: "finalized" },
+      );
+      await vi.advanceTimersByTimeAsync(2500);
+      confirm();
+      await result;
+      await vi.advanceTimersByTimeAsync(2000);
+      vi.useRealTimers();
+
+      // Assert
+      expect(mockRpcClient.sendTransaction).toHaveBeenCalledTimes(3);
+      expect(mockRpcClient.sendTransaction).toHaveBeenLastCalledWith("base64_encoded_transaction", {
+        skipPreflight: true,
+        encoding: "base64",
+        maxRetries: 0n,
+      });
+      expect(transactionConfirmation.waitForRecentTransactionConfirmation).toHaveBeenCalledWith(
+        expect.objectContaining({ commitment: "finalized" }),
+      );
+    });
+
+    it("should not rebroadcast the transaction if disabled", async () => {
+      // Arrange
+      vi.useFakeTimers();
+      vi.mocked(mockRpcClient.sendTransaction).mockReturnValue({
+        send: vi.fn().mockResolvedValue("mock_signature_123"),
+      });
+      vi.mocked(solanaKit.decompileTransactionMessageFetchingLookupTables).mockResolvedValue({
+        lifetimeConstraint: {
+          blockhash: "mock_blockhash" as any,
+          lastValidBlockHeight: BigInt(1234),
+        },
+        instructions: [],
+        version: 0,
+      } as any);
+      let confirm: () => void = () => {};
+      vi.mocked(transactionConfirmation.waitForRecentTransactionConfirmation).mockReturnValue(
+        new Promise<void>(resolve => (confirm = resolve)),
+      );
+
+      // Act
+      const result = settleModule.sendAndConfirmSignedTransaction(
+        mockSignedTransaction,
+        mockRpcClient,
+        mockRpcSubscriptions,
+        { rebroadcastIntervalMs: 0 },
+      );
+      await vi.advanceTimersByTimeAsync(5000);
+      confirm();
+      await result;
+      vi.useRealTimers();
+
+      // Assert
+      expect(mockRpcClient.sendTransaction).toHaveBeenCalledOnce();
+    });
+
     it("should propagate errors from sendSignedTransaction", async () => {
       // Arrange
       const sendError = new Error("Send error");
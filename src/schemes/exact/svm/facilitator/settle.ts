@@ -5,8 +5,10 @@ import {
   ExactSvmPayload,
   ErrorReasons,
 } from "../../../../types/verify";
-import { X402Config } from "../../../../types/config";
+import { SvmSettlementConfig, X402Config } from "../../../../types/config";
+import { Network } from "../../../../types/shared/network";
 import {
+  Address,
   assertIsTransactionMessageWithBlockhashLifetime,
   Commitment,
   decompileTransactionMessageFetchingLookupTables,
@@ -14,10 +16,14 @@ import {
   getCompiledTransactionMessageDecoder,
   getSignatureFromTransaction,
   isSolanaError,
+  isTransactionMessageWithDurableNonceLifetime,
   type Transaction,
   type TransactionSigner,
   SendTransactionApi,
+  Signature,
   SOLANA_ERROR__BLOCK_HEIGHT_EXCEEDED,
+  SOLANA_ERROR__INVALID_NONCE,
+  SOLANA_ERROR__NONCE_ACCOUNT_NOT_FOUND,
   SolanaRpcApiDevnet,
   SolanaRpcApiMainnet,
   RpcDevnet,
@@ -25,20 +31,33 @@ import {
 } from "@solana/kit";
 import {
   decodeTransactionFromPayload,
+  fetchNonce,
   getTokenPayerFromTransaction,
   signTransactionWithSigner,
 } from "../../../../shared/svm";
 import { getRpcClient, getRpcSubscriptions } from "../../../../shared/svm/rpc";
 import {
   createBlockHeightExceedencePromiseFactory,
+  createNonceInvalidationPromiseFactory,
+  waitForDurableNonceTransactionConfirmation,
   waitForRecentTransactionConfirmation,
   createRecentSignatureConfirmationPromiseFactory,
 } from "@solana/transaction-confirmation";
 import { verify } from "./verify";
 
+// The lifetime of a settlement transaction: a recent blockhash valid up to a block height, or a
+// durable nonce valid until the nonce account advances
+type TransactionLifetime =
+  | { blockhash: string; lastValidBlockHeight: bigint }
+  | { nonce: string; nonceAccountAddress: Address };
+
+// The lifetimes of the async settlements that were broadcast by this process and are not settled
+// yet, by signature, so that getSettlementStatus can report dropped transactions as failed
+const pendingSettlements = new Map<string, TransactionLifetime>();
+const MAX_PENDING_SETTLEMENTS = 1000;
+
 /**
  * Settle the payment payload against the payment requirements.
- * TODO: handle durable nonce lifetime transactions
  *
  * @param signer - The signer that will sign the transaction
  * @param payload - The payment payload to settle
@@ -69,6 +88,35 @@ export async function settle(
   const payer = getTokenPayerFromTransaction(signedTransaction);
 
   const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
+
+  // async settlements are broadcast once, without the rebroadcasts of sync settlements
+  if (config?.settlementMode === "async") {
+    try {
+      const lifetime = await getTransactionLifetime(signedTransaction, rpc);
+      const signature = await sendSignedTransaction(signedTransaction, rpc);
+      pendingSettlements.set(signature, lifetime);
+      if (pendingSettlements.size > MAX_PENDING_SETTLEMENTS) {
+        pendingSettlements.delete(pendingSettlements.keys().next().value!);
+      }
+      return {
+        success: true,
+        status: "pending",
+        payer,
+        transaction: signature,
+        network: payload.network,
+      };
+    } catch (error) {
+      console.error("Unexpected error during transaction broadcast:", error);
+      return {
+        success: false,
+        errorReason: "unexpected_settle_error",
+        network: payload.network,
+        transaction: getSignatureFromTransaction(signedTransaction),
+        payer,
+      };
+    }
+  }
+
   const rpcSubscriptions = getRpcSubscriptions(
     paymentRequirements.network,
     config?.svmConfig?.rpcUrl,
@@ -79,6 +127,7 @@ export async function settle(
       signedTransaction,
       rpc,
       rpcSubscriptions,
+      config?.svmConfig?.settlement,
     );
 
     return {
@@ -100,6 +149,117 @@ export async function settle(
   }
 }
 
+/**
+ * Get the status of a settlement transaction broadcast in the "async" settlement mode.
+ * Transactions without a status are pending until their lifetime ends: then they were dropped
+ * and are reported as failed. Lifetimes are only known for the settlements broadcast by this
+ * process, the others stay pending until they land.
+ *
+ * @param network - The network the transaction was broadcast on
+ * @param signature - The signature of the settlement transaction
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A SettleResponse with a "pending", "confirmed" or "failed" status, confirmed at the
+ * configured settlement commitment
+ */
+export async function getSettlementStatus(
+  network: Network,
+  signature: string,
+  config?: X402Config,
+): Promise<SettleResponse> {
+  const rpc = getRpcClient(network, config?.svmConfig?.rpcUrl);
+
+  // check the lifetime before the status, so that a transaction landing in between is found
+  const lifetime = pendingSettlements.get(signature);
+  const expired = lifetime ? await isLifetimeExpired(lifetime, rpc) : false;
+  // statuses of older transactions are only found in the transaction history
+  const { value } = await rpc
+    .getSignatureStatuses([signature as Signature], { searchTransactionHistory: expired })
+    .send();
+  const status = value[0];
+
+  if (status?.err) {
+    pendingSettlements.delete(signature);
+    return {
+      success: false,
+      status: "failed",
+      errorReason: "invalid_transaction_state",
+      transaction: signature,
+      network,
+    };
+  }
+  if (!status && lifetime && expired) {
+    pendingSettlements.delete(signature);
+    return {
+      success: false,
+      status: "failed",
+      errorReason:
+        "nonce" in lifetime
+          ? "settle_exact_svm_durable_nonce_invalidated"
+          : "settle_exact_svm_block_height_exceeded",
+      transaction: signature,
+      network,
+    };
+  }
+  const commitment = config?.svmConfig?.settlement?.commitment ?? "confirmed";
+  if (
+    status?.confirmationStatus === "finalized" ||
+    (commitment === "confirmed" && status?.confirmationStatus === "confirmed")
+  ) {
+    pendingSettlements.delete(signature);
+    return { success: true, status: "confirmed", transaction: signature, network };
+  }
+  return { success: true, status: "pending", transaction: signature, network };
+}
+
+/**
+ * Checks whether the lifetime of a transaction has ended, i.e. the block height has exceeded
+ * its last valid block height or its durable nonce has advanced.
+ *
+ * @param lifetime - The lifetime of the transaction
+ * @param rpc - The RPC client to read the block height or nonce account with
+ * @returns True if the transaction can no longer land
+ */
+async function isLifetimeExpired(
+  lifetime: TransactionLifetime,
+  rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+): Promise<boolean> {
+  if ("nonce" in lifetime) {
+    return (await fetchNonce(rpc, lifetime.nonceAccountAddress)) !== lifetime.nonce;
+  }
+  const blockHeight = await rpc.getBlockHeight({ commitment: "confirmed" }).send();
+  return blockHeight > lifetime.lastValidBlockHeight;
+}
+
+/**
+ * Gets the lifetime of a signed transaction from its message.
+ *
+ * @param signedTransaction - The signed transaction
+ * @param rpc - The RPC client to fetch the address lookup tables of the message with
+ * @returns The blockhash or durable nonce lifetime of the transaction
+ */
+async function getTransactionLifetime(
+  signedTransaction: Transaction,
+  rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+): Promise<TransactionLifetime> {
+  const compiledTransactionMessage = getCompiledTransactionMessageDecoder().decode(
+    signedTransaction.messageBytes,
+  );
+  const decompiledTransactionMessage = await decompileTransactionMessageFetchingLookupTables(
+    compiledTransactionMessage,
+    rpc,
+  );
+
+  if (isTransactionMessageWithDurableNonceLifetime(decompiledTransactionMessage)) {
+    // the nonce account is the first account of the AdvanceNonceAccount instruction
+    return {
+      nonce: decompiledTransactionMessage.lifetimeConstraint.nonce,
+      nonceAccountAddress: decompiledTransactionMessage.instructions[0].accounts[0].address,
+    };
+  }
+  assertIsTransactionMessageWithBlockhashLifetime(decompiledTransactionMessage);
+  return decompiledTransactionMessage.lifetimeConstraint;
+}
+
 /**
  * Send a signed transaction to the RPC.
  * TODO: should this be moved to the shared/svm/rpc.ts file?
@@ -123,72 +283,79 @@ export async function sendSignedTransaction(
 
 /**
  * Confirm a signed transaction.
+ * Transactions with a blockhash lifetime are confirmed until their block height is exceeded,
+ * transactions with a durable nonce lifetime until their nonce is advanced by another transaction.
  * TODO: can some of this be refactored to be moved to the shared/svm/rpc.ts file?
- * TODO: should the commitment and the timeout be passed in as parameters?
  *
  * @param signedTransaction - The signed transaction to confirm
  * @param rpc - The RPC client to use to confirm the transaction
  * @param rpcSubscriptions - The RPC subscriptions to use to confirm the transaction
+ * @param settlementConfig - The commitment and timeout of the confirmation
  * @returns The success and signature of the confirmed transaction
  */
 export async function confirmSignedTransaction(
   signedTransaction: Transaction,
   rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
   rpcSubscriptions: ReturnType<typeof getRpcSubscriptions>,
+  settlementConfig?: SvmSettlementConfig,
 ): Promise<{ success: boolean; errorReason?: (typeof ErrorReasons)[number]; signature: string }> {
   // get the signature from the signed transaction
   const signature = getSignatureFromTransaction(signedTransaction);
 
   // set a timeout for the transaction confirmation
+  const timeoutMs = settlementConfig?.timeoutMs ?? 60000;
   const abortController = new AbortController();
   const timeout = setTimeout(() => {
-    abortController.abort("Transaction confirmation timed out after 60 seconds");
-  }, 60000);
+    abortController.abort(`Transaction confirmation timed out after ${timeoutMs / 1000} seconds`);
+  }, timeoutMs);
 
   try {
-    // decompile the transaction message to get the blockhash lifetime
-    const compiledTransactionMessage = getCompiledTransactionMessageDecoder().decode(
-      signedTransaction.messageBytes,
-    );
-    const decompiledTransactionMessage = await decompileTransactionMessageFetchingLookupTables(
-      compiledTransactionMessage,
-      rpc,
-    );
-    assertIsTransactionMessageWithBlockhashLifetime(decompiledTransactionMessage);
-
-    // add the blockhash lifetime to the signed transaction
-    const signedTransactionWithBlockhashLifetime = {
-      ...signedTransaction,
-      lifetimeConstraint: decompiledTransactionMessage.lifetimeConstraint,
-    };
+    // get the lifetime of the transaction from its message
+    const lifetime = await getTransactionLifetime(signedTransaction, rpc);
 
     // create the config for the transaction confirmation
-    const commitment: Commitment = "confirmed";
+    const commitment: Commitment = settlementConfig?.commitment ?? "confirmed";
 
     const getRecentSignatureConfirmationPromise = createRecentSignatureConfirmationPromiseFactory({
       rpc,
       rpcSubscriptions,
     } as Parameters<typeof createRecentSignatureConfirmationPromiseFactory>[0]);
 
-    const getBlockHeightExceedencePromise = createBlockHeightExceedencePromiseFactory({
-      rpc,
-      rpcSubscriptions,
-    } as Parameters<typeof createBlockHeightExceedencePromiseFactory>[0]);
-
     const config = {
       abortSignal: abortController.signal,
       commitment,
-      getBlockHeightExceedencePromise,
       getRecentSignatureConfirmationPromise,
     };
 
-    // wait for the transaction to be confirmed
-    await waitForRecentTransactionConfirmation({
-      ...config,
-      transaction: signedTransactionWithBlockhashLifetime as Parameters<
-        typeof waitForRecentTransactionConfirmation
-      >[0]["transaction"],
-    });
+    if ("nonce" in lifetime) {
+      const getNonceInvalidationPromise = createNonceInvalidationPromiseFactory({
+        rpc,
+        rpcSubscriptions,
+      } as Parameters<typeof createNonceInvalidationPromiseFactory>[0]);
+
+      // wait for the transaction to be confirmed
+      await waitForDurableNonceTransactionConfirmation({
+        ...config,
+        getNonceInvalidationPromise,
+        transaction: { ...signedTransaction, lifetimeConstraint: lifetime } as Parameters<
+          typeof waitForDurableNonceTransactionConfirmation
+        >[0]["transaction"],
+      });
+    } else {
+      const getBlockHeightExceedencePromise = createBlockHeightExceedencePromiseFactory({
+        rpc,
+        rpcSubscriptions,
+      } as Parameters<typeof createBlockHeightExceedencePromiseFactory>[0]);
+
+      // wait for the transaction to be confirmed
+      await waitForRecentTransactionConfirmation({
+        ...config,
+        getBlockHeightExceedencePromise,
+        transaction: { ...signedTransaction, lifetimeConstraint: lifetime } as Parameters<
+          typeof waitForRecentTransactionConfirmation
+        >[0]["transaction"],
+      });
+    }
 
     // return the success and signature
     return {
@@ -206,6 +373,17 @@ export async function confirmSignedTransaction(
         signature,
       };
     }
+    // durable nonce advanced or nonce account closed without the transaction landing
+    else if (
+      isSolanaError(error, SOLANA_ERROR__INVALID_NONCE) ||
+      isSolanaError(error, SOLANA_ERROR__NONCE_ACCOUNT_NOT_FOUND)
+    ) {
+      return {
+        success: false,
+        errorReason: "settle_exact_svm_durable_nonce_invalidated",
+        signature,
+      };
+    }
     // transaction confirmation timed out error
     else if (error instanceof DOMException && error.name === "AbortError") {
       return {
@@ -226,19 +404,46 @@ export async function confirmSignedTransaction(
 
 /**
  * Send and confirm a signed transaction.
+ * The transaction is sent again on an interval until the confirmation ends, as RPC nodes drop
+ * transactions under congestion. Rebroadcasts that fail are ignored, the confirmation decides.
  *
  * @param signedTransaction - The signed transaction to send and confirm
  * @param rpc - The RPC client to use to send and confirm the transaction
  * @param rpcSubscriptions - The RPC subscriptions to use to send and confirm the transaction
+ * @param settlementConfig - The commitment, timeout and rebroadcast interval of the settlement
  * @returns The success and signature of the confirmed transaction
  */
 export async function sendAndConfirmSignedTransaction(
   signedTransaction: Transaction,
   rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
   rpcSubscriptions: ReturnType<typeof getRpcSubscriptions>,
+  settlementConfig?: SvmSettlementConfig,
 ): Promise<{ success: boolean; errorReason?: (typeof ErrorReasons)[number]; signature: string }> {
   await sendSignedTransaction(signedTransaction, rpc);
-  return await confirmSignedTransaction(signedTransaction, rpc, rpcSubscriptions);
+
+  // the RPC node's own retries are disabled for rebroadcasts, as the loop takes care of them
+  const rebroadcastIntervalMs = settlementConfig?.rebroadcastIntervalMs ?? 2000;
+  const rebroadcast =
+    rebroadcastIntervalMs > 0
+      ? setInterval(() => {
+          sendSignedTransaction(signedTransaction, rpc, {
+            skipPreflight: true,
+            encoding: "base64",
+            maxRetries: 0n,
+          }).catch(error => console.error("Failed to rebroadcast transaction:", error));
+        }, rebroadcastIntervalMs)
+      : undefined;
+
+  try {
+    return await confirmSignedTransaction(
+      signedTransaction,
+      rpc,
+      rpcSubscriptions,
+      settlementConfig,
+    );
+  } finally {
+    clearInterval(rebroadcast);
+  }
 }
 
 /**
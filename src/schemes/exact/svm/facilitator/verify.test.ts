@@ -8,6 +8,8 @@ import {
   verifyTransactionInstructions,
   verifyComputeLimitInstruction,
   verifyComputePriceInstruction,
+  verifyCreateATAInstruction,
+  verifyMemoInstructions,
 } from "./verify";
 import {
   type TransactionSigner,
@@ -17,11 +19,18 @@ import {
   fetchEncodedAccounts,
   ProgramDerivedAddressBump,
   generateKeyPairSigner,
+  Nonce,
+  setTransactionMessageLifetimeUsingDurableNonce,
 } from "@solana/kit";
 import { PaymentPayload, PaymentRequirements, ExactSvmPayload } from "../../../../types/verify";
 import { Network } from "../../../../types";
 import { SCHEME } from "../../";
 import * as SvmShared from "../../../../shared/svm";
+import {
+  createResourceMemo,
+  getResourceMemoInstruction,
+  MEMO_PROGRAM_ADDRESS,
+} from "../../../../shared/svm";
 import * as rpc from "../../../../shared/svm/rpc";
 import {
   TOKEN_PROGRAM_ADDRESS,
@@ -35,6 +44,7 @@ import {
   identifyToken2022Instruction,
   parseTransferCheckedInstruction as parseTransferCheckedInstruction2022,
   findAssociatedTokenPda,
+  ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
 } from "@solana-program/token-2022";
 import { COMPUTE_BUDGET_PROGRAM_ADDRESS } from "@solana-program/compute-budget";
 import {
@@ -104,6 +114,41 @@ vi.mock("../../../../shared/svm/rpc", async () => {
 
 const devnetUSDCAddress = "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU";
 
+/**
+ * Creates an idempotent create ATA instruction for tests
+ *
+ * @param accounts - The accounts of the instruction
+ * @param accounts.owner - The owner of the created ATA
+ * @param accounts.mint - The mint of the created ATA
+ * @param accounts.ata - The created ATA
+ * @param accounts.tokenProgram - The token program of the created ATA
+ * @returns The create ATA instruction
+ */
+function createATAInstruction({
+  owner,
+  mint,
+  ata = "destinationAta",
+  tokenProgram = TOKEN_2022_PROGRAM_ADDRESS,
+}: {
+  owner: string;
+  mint: string;
+  ata?: string;
+  tokenProgram?: string;
+}) {
+  return {
+    programAddress: ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+    data: new Uint8Array([1]), // CreateAssociatedTokenIdempotent is 1
+    accounts: [
+      { address: "clientAddress" },
+      { address: ata },
+      { address: owner },
+      { address: mint },
+      { address: "11111111111111111111111111111111" },
+      { address: tokenProgram },
+    ],
+  };
+}
+
 describe("verify", () => {
   describe("verifySchemesAndNetworks", () => {
     const validPayload: PaymentPayload = {
@@ -548,6 +593,7 @@ describe("verify", () => {
     let mockComputeLimitInstruction: any;
     let mockComputePriceInstruction: any;
     let mockTransferInstruction: any;
+    let mockCreateATAInstruction: any;
     let mockRpc: any;
     let mockSigner: TransactionSigner;
 
@@ -601,7 +647,10 @@ describe("verify", () => {
         { address: "destinationAta", exists: true },
       ] as any);
       vi.mocked(rpc.getRpcClient).mockReturnValue({} as any);
-      // no create ATA parsing anymore
+      mockCreateATAInstruction = createATAInstruction({
+        owner: "payToAddress",
+        mint: devnetUSDCAddress,
+      });
     });
 
     it("should throw an error if the transaction has less than 3 instructions", async () => {
@@ -619,11 +668,12 @@ describe("verify", () => {
       ).rejects.toThrow("invalid_exact_svm_payload_transaction_instructions_length");
     });
 
-    it("should throw an error if the transaction has more than 3 instructions", async () => {
+    it("should throw an error if the transaction has more than 4 instructions", async () => {
       mockTransactionMessage = {
         instructions: [
           mockComputeLimitInstruction,
           mockComputePriceInstruction,
+          mockCreateATAInstruction,
           mockTransferInstruction,
           mockTransferInstruction,
         ],
@@ -639,6 +689,50 @@ describe("verify", () => {
       ).rejects.toThrow("invalid_exact_svm_payload_transaction_instructions_length");
     });
 
+    it("should accept a 4th instruction creating the missing destination ATA", async () => {
+      mockTransactionMessage = {
+        instructions: [
+          mockComputeLimitInstruction,
+          mockComputePriceInstruction,
+          mockCreateATAInstruction,
+          mockTransferInstruction,
+        ],
+      };
+      vi.mocked(fetchEncodedAccounts).mockResolvedValue([
+        { address: "sourceAta", exists: true },
+      ] as any);
+
+      await expect(
+        verifyTransactionInstructions(
+          mockTransactionMessage,
+          mockPaymentRequirements,
+          mockSigner,
+          mockRpc,
+        ),
+      ).resolves.toBeUndefined();
+      expect(fetchEncodedAccounts).toHaveBeenCalledWith(mockRpc, ["sourceAta"]);
+    });
+
+    it("should throw an error if the 3rd of 4 instructions does not create an ATA", async () => {
+      mockTransactionMessage = {
+        instructions: [
+          mockComputeLimitInstruction,
+          mockComputePriceInstruction,
+          mockTransferInstruction,
+          mockTransferInstruction,
+        ],
+      };
+
+      await expect(
+        verifyTransactionInstructions(
+          mockTransactionMessage,
+          mockPaymentRequirements,
+          mockSigner,
+          mockRpc,
+        ),
+      ).rejects.toThrow("invalid_exact_svm_payload_transaction_create_ata_instruction");
+    });
+
     it("should throw an error if the tx has 3 instructions and the destination ATA does not exist", async () => {
       mockTransactionMessage = {
         instructions: [
@@ -776,6 +870,430 @@ describe("verify", () => {
         "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
       );
     });
+    it("should accept a durable nonce transaction advancing the nonce first", async () => {
+      const nonceAccountAddress = (await generateKeyPairSigner()).address;
+      const nonceAuthority = await generateKeyPairSigner();
+      mockTransactionMessage = setTransactionMessageLifetimeUsingDurableNonce(
+        {
+          nonce: "mockNonce" as Nonce,
+          nonceAccountAddress,
+          nonceAuthorityAddress: nonceAuthority.address,
+        },
+        {
+          version: 0,
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+          ],
+        },
+      );
+
+      await expect(
+        verifyTransactionInstructions(
+          mockTransactionMessage,
+          mockPaymentRequirements,
+          mockSigner,
+          mockRpc,
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it("should throw an error if the fee payer is the nonce authority", async () => {
+      const nonceAccountAddress = (await generateKeyPairSigner()).address;
+      mockTransactionMessage = setTransactionMessageLifetimeUsingDurableNonce(
+        {
+          nonce: "mockNonce" as Nonce,
+          nonceAccountAddress,
+          nonceAuthorityAddress: mockSigner.address,
+        },
+        {
+          version: 0,
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+          ],
+        },
+      );
+
+      await expect(
+        verifyTransactionInstructions(
+          mockTransactionMessage,
+          mockPaymentRequirements,
+          mockSigner,
+          mockRpc,
+        ),
+      ).rejects.toThrow(
+        "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+      );
+    });
+
+    describe("with a facilitator policy", () => {
+      let mockMemoInstruction: any;
+
+      beforeEach(() => {
+        mockMemoInstruction = {
+          programAddress: MEMO_PROGRAM_ADDRESS,
+          data: new TextEncoder().encode("order-42"),
+          accounts: [],
+        };
+      });
+
+      it("should reject a trailing memo instruction by default", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+            mockMemoInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+          ),
+        ).rejects.toThrow("invalid_exact_svm_payload_transaction_memo_instruction_not_allowed");
+      });
+
+      it("should accept trailing memo instructions allowed by the policy", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockCreateATAInstruction,
+            mockTransferInstruction,
+            mockMemoInstruction,
+            mockMemoInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+            { memo: { allowed: true, maxInstructions: 2 } },
+          ),
+        ).resolves.toBeUndefined();
+      });
+
+      it("should reject more memo instructions than allowed", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+            mockMemoInstruction,
+            mockMemoInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+            { memo: { allowed: true } },
+          ),
+        ).rejects.toThrow("invalid_exact_svm_payload_transaction_memo_instruction_not_allowed");
+      });
+
+      it("should reject a memo longer than allowed", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+            mockMemoInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+            { memo: { allowed: true, maxLength: 4 } },
+          ),
+        ).rejects.toThrow("invalid_exact_svm_payload_transaction_memo_instruction_too_long");
+      });
+
+      it("should accept a resource memo for the paid resource without allowing memos", async () => {
+        mockPaymentRequirements.resource = "https://api.example.com/weather";
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+            getResourceMemoInstruction("https://api.example.com/weather"),
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+          ),
+        ).resolves.toBeUndefined();
+      });
+
+      it("should reject a resource memo for another resource", async () => {
+        mockPaymentRequirements.resource = "https://api.example.com/weather";
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+            getResourceMemoInstruction("https://api.example.com/forecast"),
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+          ),
+        ).rejects.toThrow("invalid_exact_svm_payload_transaction_resource_memo_mismatch");
+      });
+
+      it("should reject more than one resource memo", async () => {
+        mockPaymentRequirements.resource = "https://api.example.com/weather";
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+            getResourceMemoInstruction("https://api.example.com/weather"),
+            getResourceMemoInstruction("https://api.example.com/weather"),
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+          ),
+        ).rejects.toThrow("invalid_exact_svm_payload_transaction_memo_instruction_not_allowed");
+      });
+
+      it("should reject a resource memo with an oversized nonce", async () => {
+        mockPaymentRequirements.resource = "https://api.example.com/weather";
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+            {
+              programAddress: MEMO_PROGRAM_ADDRESS,
+              data: new TextEncoder().encode(
+                createResourceMemo("https://api.example.com/weather", "ab".repeat(512)),
+              ),
+            },
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+          ),
+        ).rejects.toThrow("invalid_exact_svm_payload_transaction_resource_memo_mismatch");
+      });
+
+      it("should reject a transaction without resource memo if it is required", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+            { resourceMemo: "required" },
+          ),
+        ).rejects.toThrow("invalid_exact_svm_payload_transaction_resource_memo_missing");
+      });
+
+      it("should treat resource memos like other memos if they are not checked", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+            getResourceMemoInstruction("https://api.example.com/forecast"),
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+            { resourceMemo: "off" },
+          ),
+        ).rejects.toThrow("invalid_exact_svm_payload_transaction_memo_instruction_not_allowed");
+      });
+
+      it("should reject a transfer of a token program that is not allowed", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+            { allowedTokenPrograms: [TOKEN_PROGRAM_ADDRESS] },
+          ),
+        ).rejects.toThrow("invalid_exact_svm_payload_transaction_token_program_not_allowed");
+      });
+
+      it("should reject a transfer of a mint that is not allowed", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+            { allowedMints: ["EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"] },
+          ),
+        ).rejects.toThrow("invalid_exact_svm_payload_transaction_mint_not_allowed");
+      });
+
+      it("should accept a transfer of an allowed token program and mint", async () => {
+        mockTransactionMessage = {
+          instructions: [
+            mockComputeLimitInstruction,
+            mockComputePriceInstruction,
+            mockTransferInstruction,
+          ],
+        };
+
+        await expect(
+          verifyTransactionInstructions(
+            mockTransactionMessage,
+            mockPaymentRequirements,
+            mockSigner,
+            mockRpc,
+            {
+              allowedTokenPrograms: [TOKEN_2022_PROGRAM_ADDRESS],
+              allowedMints: [devnetUSDCAddress],
+            },
+          ),
+        ).resolves.toBeUndefined();
+      });
+    });
+  });
+
+  describe("verifyCreateATAInstruction", () => {
+    const paymentRequirements = {
+      scheme: SCHEME,
+      network: "solana-devnet",
+      payTo: "payToAddress",
+      maxAmountRequired: "1000",
+      asset: devnetUSDCAddress,
+    } as PaymentRequirements;
+
+    beforeEach(() => {
+      vi.mocked(findAssociatedTokenPda).mockResolvedValue(["destinationAta"] as any);
+    });
+
+    it("should not throw for the receiver's ATA of the payment asset", async () => {
+      await expect(
+        verifyCreateATAInstruction(
+          createATAInstruction({ owner: "payToAddress", mint: devnetUSDCAddress }) as any,
+          paymentRequirements,
+        ),
+      ).resolves.toBeUndefined();
+      expect(findAssociatedTokenPda).toHaveBeenCalledWith({
+        mint: devnetUSDCAddress,
+        owner: "payToAddress",
+        tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+      });
+    });
+
+    it("should throw if the instruction is not an idempotent create ATA instruction", async () => {
+      const instruction = createATAInstruction({ owner: "payToAddress", mint: devnetUSDCAddress });
+
+      await expect(
+        verifyCreateATAInstruction(
+          { ...instruction, data: new Uint8Array([0]) } as any,
+          paymentRequirements,
+        ),
+      ).rejects.toThrow("invalid_exact_svm_payload_transaction_create_ata_instruction");
+    });
+
+    it("should throw if the ATA is not created for the payee", async () => {
+      await expect(
+        verifyCreateATAInstruction(
+          createATAInstruction({ owner: "someoneElse", mint: devnetUSDCAddress }) as any,
+          paymentRequirements,
+        ),
+      ).rejects.toThrow(
+        "invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_payee",
+      );
+    });
+
+    it("should throw if the ATA is not created for the payment asset", async () => {
+      await expect(
+        verifyCreateATAInstruction(
+          createATAInstruction({ owner: "payToAddress", mint: "otherMint" }) as any,
+          paymentRequirements,
+        ),
+      ).rejects.toThrow(
+        "invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_asset",
+      );
+    });
+
+    it("should throw if the created account is not the receiver's ATA", async () => {
+      await expect(
+        verifyCreateATAInstruction(
+          createATAInstruction({
+            owner: "payToAddress",
+            mint: devnetUSDCAddress,
+            ata: "otherAccount",
+          }) as any,
+          paymentRequirements,
+        ),
+      ).rejects.toThrow("invalid_exact_svm_payload_transaction_create_ata_instruction");
+    });
   });
 
   describe("verifyComputeLimitInstruction", () => {
@@ -808,6 +1326,17 @@ describe("verify", () => {
       );
     });
 
+    it("should throw if the compute unit limit is above the facilitator's cap", () => {
+      vi.mocked(parseSetComputeUnitLimitInstruction).mockReturnValue({
+        data: { discriminator: 2, units: 200_000 },
+      } as any);
+
+      expect(() => verifyComputeLimitInstruction(mockInstruction, 200_000)).not.toThrow();
+      expect(() => verifyComputeLimitInstruction(mockInstruction, 100_000)).toThrow(
+        "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction_too_high",
+      );
+    });
+
     it("should throw if parseSetComputeUnitLimitInstruction throws", () => {
       vi.mocked(parseSetComputeUnitLimitInstruction).mockImplementation(() => {
         throw new Error("parsing failed");
@@ -874,6 +1403,40 @@ describe("verify", () => {
         "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high",
       );
     });
+
+    it("should compare the compute unit price against the facilitator's cap", () => {
+      vi.mocked(parseSetComputeUnitPriceInstruction).mockReturnValue({
+        data: {
+          discriminator: 3,
+          microLamports: 5_000_001n,
+        },
+      } as any);
+
+      expect(() => verifyComputePriceInstruction(mockInstruction, 10_000_000)).not.toThrow();
+      expect(() => verifyComputePriceInstruction(mockInstruction, 1_000n)).toThrow(
+        "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high",
+      );
+    });
+  });
+
+  describe("verifyMemoInstructions", () => {
+    const memoInstruction = (memo: string) =>
+      ({ programAddress: MEMO_PROGRAM_ADDRESS, data: new TextEncoder().encode(memo) }) as any;
+
+    it("should accept no memo instructions", () => {
+      expect(() => verifyMemoInstructions([])).not.toThrow();
+    });
+
+    it("should limit memos to 256 bytes by default", () => {
+      const policy = { allowed: true };
+
+      expect(() =>
+        verifyMemoInstructions([memoInstruction("a".repeat(256))], policy),
+      ).not.toThrow();
+      expect(() => verifyMemoInstructions([memoInstruction("a".repeat(257))], policy)).toThrow(
+        "invalid_exact_svm_payload_transaction_memo_instruction_too_long",
+      );
+    });
   });
 
   describe("Custom RPC Configuration", () => {
@@ -6,7 +6,7 @@ import {
   ErrorReasons,
 } from "../../../../types/verify";
 import { SupportedSVMNetworks } from "../../../../types/shared";
-import { X402Config } from "../../../../types/config";
+import { SvmFacilitatorPolicy, X402Config } from "../../../../types/config";
 import {
   Address,
   assertIsInstructionWithAccounts,
@@ -23,6 +23,7 @@ import {
   AccountLookupMeta,
   AccountMeta,
   InstructionWithData,
+  isTransactionMessageWithDurableNonceLifetime,
   BaseTransactionMessage,
   TransactionMessageWithFeePayer,
   TransactionMessageWithLifetime,
@@ -33,8 +34,12 @@ import {
   COMPUTE_BUDGET_PROGRAM_ADDRESS,
 } from "@solana-program/compute-budget";
 import {
+  ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
+  AssociatedTokenInstruction,
   findAssociatedTokenPda,
+  identifyAssociatedTokenInstruction,
   identifyToken2022Instruction,
+  parseCreateAssociatedTokenIdempotentInstruction,
   parseTransferCheckedInstruction as parseTransferCheckedInstruction2022,
   Token2022Instruction,
   TOKEN_2022_PROGRAM_ADDRESS,
@@ -49,10 +54,17 @@ import {
   decodeTransactionFromPayload,
   signAndSimulateTransaction,
   getTokenPayerFromTransaction,
+  isResourceMemo,
+  isResourceMemoFor,
+  MEMO_PROGRAM_ADDRESS,
 } from "../../../../shared/svm";
 import { getRpcClient } from "../../../../shared/svm/rpc";
 import { SCHEME } from "../../";
 
+// 5 lamports, to protect the facilitator against gas fee abuse from the client
+export const DEFAULT_MAX_COMPUTE_UNIT_PRICE = 5n * 1_000_000n;
+const DEFAULT_MAX_MEMO_LENGTH = 256;
+
 /**
  * Verify the payment payload against the payment requirements.
  *
@@ -172,16 +184,24 @@ export async function transactionIntrospection(
   );
   const transactionMessage = decompileTransactionMessage(compiledTransactionMessage);
 
-  await verifyTransactionInstructions(transactionMessage, paymentRequirements, signer, rpc);
+  await verifyTransactionInstructions(
+    transactionMessage,
+    paymentRequirements,
+    signer,
+    rpc,
+    config?.svmConfig?.facilitatorPolicy,
+  );
 }
 
 /**
  * Verify that the transaction contains the expected instructions.
+ * Durable nonce transactions start with an additional AdvanceNonceAccount instruction.
  *
  * @param transactionMessage - The transaction message to verify
  * @param paymentRequirements - The payment requirements to verify against
  * @param signer - The signer that will sign the transaction
  * @param rpc - The RPC client to use for verifying account existence
+ * @param policy - The facilitator policy to enforce
  * @throws Error if the transaction does not contain the expected instructions
  */
 export async function verifyTransactionInstructions(
@@ -191,15 +211,37 @@ export async function verifyTransactionInstructions(
   paymentRequirements: PaymentRequirements,
   signer: TransactionSigner,
   rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+  policy?: SvmFacilitatorPolicy,
 ) {
-  // validate the number of expected instructions
-  if (transactionMessage.instructions.length !== 3) {
+  // a durable nonce lifetime transaction starts with an instruction advancing the nonce, its
+  // authority is the client as the fee payer may not be part of any instruction
+  const instructions = transactionMessage.instructions.slice(
+    isTransactionMessageWithDurableNonceLifetime(transactionMessage) ? 1 : 0,
+  );
+
+  // split off the trailing memo instructions
+  let length = instructions.length;
+  while (
+    length > 3 &&
+    instructions[length - 1].programAddress.toString() === MEMO_PROGRAM_ADDRESS.toString()
+  ) {
+    length--;
+  }
+
+  // validate the number of expected instructions, 4 if the receiver's ATA is created first
+  if (length !== 3 && length !== 4) {
     throw new Error(`invalid_exact_svm_payload_transaction_instructions_length`);
   }
 
   // verify that the compute limit and price instructions are valid
-  verifyComputeLimitInstruction(transactionMessage.instructions[0]);
-  verifyComputePriceInstruction(transactionMessage.instructions[1]);
+  verifyComputeLimitInstruction(instructions[0], policy?.maxComputeUnitLimit);
+  verifyComputePriceInstruction(instructions[1], policy?.maxComputeUnitPrice);
+  const memoInstructions = verifyResourceMemoInstructions(
+    instructions.slice(length),
+    paymentRequirements,
+    policy?.resourceMemo,
+  );
+  verifyMemoInstructions(memoInstructions, policy?.memo);
 
   // verify that the fee payer is not included in any instruction's accounts
   transactionMessage.instructions.forEach(instruction => {
@@ -210,13 +252,21 @@ export async function verifyTransactionInstructions(
     }
   });
 
+  // verify that the optional create ATA instruction creates the receiver's ATA
+  const createsReceiverATA = length === 4;
+  if (createsReceiverATA) {
+    await verifyCreateATAInstruction(instructions[2], paymentRequirements);
+  }
+
   // verify that the transfer instruction is valid
-  // this expects the destination ATA to already exist
+  // this expects the destination ATA to already exist unless it is created by the transaction
   await verifyTransferInstruction(
-    transactionMessage.instructions[2],
+    instructions[length - 1],
     paymentRequirements,
     signer,
     rpc,
+    createsReceiverATA,
+    policy,
   );
 }
 
@@ -224,6 +274,7 @@ export async function verifyTransactionInstructions(
  * Verify that the compute limit instruction is valid.
  *
  * @param instruction - The compute limit instruction to verify
+ * @param maxComputeUnitLimit - The highest compute unit limit accepted, if any
  * @throws Error if the compute limit instruction is invalid
  */
 export function verifyComputeLimitInstruction(
@@ -231,7 +282,9 @@ export function verifyComputeLimitInstruction(
     string,
     readonly (AccountLookupMeta<string, string> | AccountMeta<string>)[]
   >,
+  maxComputeUnitLimit?: number,
 ) {
+  let parsedInstruction;
   try {
     if (
       instruction.programAddress.toString() !== COMPUTE_BUDGET_PROGRAM_ADDRESS.toString() ||
@@ -241,21 +294,28 @@ export function verifyComputeLimitInstruction(
         `invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction`,
       );
     }
-    parseSetComputeUnitLimitInstruction(
+    parsedInstruction = parseSetComputeUnitLimitInstruction(
       instruction as InstructionWithData<Uint8Array<ArrayBufferLike>>,
     );
   } catch (error) {
     console.error(error);
     throw new Error(`invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction`);
   }
+
+  if (maxComputeUnitLimit !== undefined && parsedInstruction.data.units > maxComputeUnitLimit) {
+    throw new Error(
+      `invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction_too_high`,
+    );
+  }
 }
 
 /**
  * Verify that the compute price instruction is valid.
- * This function throws an error if the compute unit price is greater than 5 lamports,
- * to protect the facilitator against gas fee abuse from the client.
+ * This function throws an error if the compute unit price is greater than the facilitator's cap,
+ * 5 lamports by default, to protect the facilitator against gas fee abuse from the client.
  *
  * @param instruction - The compute price instruction to verify
+ * @param maxComputeUnitPrice - The highest compute unit price accepted, in microlamports
  * @throws Error if the compute price instruction is invalid
  */
 export function verifyComputePriceInstruction(
@@ -263,6 +323,7 @@ export function verifyComputePriceInstruction(
     string,
     readonly (AccountLookupMeta<string, string> | AccountMeta<string>)[]
   >,
+  maxComputeUnitPrice: number | bigint = DEFAULT_MAX_COMPUTE_UNIT_PRICE,
 ) {
   if (
     instruction.programAddress.toString() !== COMPUTE_BUDGET_PROGRAM_ADDRESS.toString() ||
@@ -274,21 +335,142 @@ export function verifyComputePriceInstruction(
     instruction as InstructionWithData<Uint8Array<ArrayBufferLike>>,
   );
 
-  // TODO: allow the facilitator to pass in an optional max compute unit price
-  if (parsedInstruction.data.microLamports > 5 * 1_000_000) {
+  if (parsedInstruction.data.microLamports > BigInt(maxComputeUnitPrice)) {
     throw new Error(
       `invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high`,
     );
   }
 }
 
+/**
+ * Verify the memos binding the payment to the resource it pays for, see `createResourceMemo`.
+ *
+ * @param instructions - The memo instructions following the transfer
+ * @param paymentRequirements - The payment requirements with the resource paid for
+ * @param resourceMemo - How resource memos are checked, "optional" by default
+ * @returns The other memo instructions, which are subject to the memo policy
+ * @throws Error if there is more than one resource memo, a resource memo is malformed or for
+ * another resource, or none is present but required
+ */
+export function verifyResourceMemoInstructions(
+  instructions: readonly Instruction<
+    string,
+    readonly (AccountLookupMeta<string, string> | AccountMeta<string>)[]
+  >[],
+  paymentRequirements: PaymentRequirements,
+  resourceMemo: SvmFacilitatorPolicy["resourceMemo"] = "optional",
+) {
+  if (resourceMemo === "off") {
+    return instructions;
+  }
+
+  const resourceMemoInstructions = instructions.filter(instruction =>
+    isResourceMemo(instruction.data),
+  );
+  if (resourceMemoInstructions.length > 1) {
+    throw new Error(`invalid_exact_svm_payload_transaction_memo_instruction_not_allowed`);
+  }
+  if (
+    resourceMemoInstructions.some(
+      instruction => !isResourceMemoFor(instruction.data, paymentRequirements.resource),
+    )
+  ) {
+    throw new Error(`invalid_exact_svm_payload_transaction_resource_memo_mismatch`);
+  }
+  if (resourceMemo === "required" && resourceMemoInstructions.length === 0) {
+    throw new Error(`invalid_exact_svm_payload_transaction_resource_memo_missing`);
+  }
+
+  return instructions.filter(instruction => !resourceMemoInstructions.includes(instruction));
+}
+
+/**
+ * Verify that the memo instructions following the transfer are accepted by the memo policy.
+ *
+ * @param instructions - The memo instructions to verify
+ * @param memoPolicy - The memo policy of the facilitator
+ * @throws Error if memos are not allowed, there are too many of them or one is too long
+ */
+export function verifyMemoInstructions(
+  instructions: readonly Instruction<
+    string,
+    readonly (AccountLookupMeta<string, string> | AccountMeta<string>)[]
+  >[],
+  memoPolicy: SvmFacilitatorPolicy["memo"] = {},
+) {
+  if (instructions.length === 0) {
+    return;
+  }
+  const { allowed = false, maxInstructions = 1, maxLength = DEFAULT_MAX_MEMO_LENGTH } = memoPolicy;
+  if (!allowed || instructions.length > maxInstructions) {
+    throw new Error(`invalid_exact_svm_payload_transaction_memo_instruction_not_allowed`);
+  }
+  if (instructions.some(instruction => (instruction.data?.length ?? 0) > maxLength)) {
+    throw new Error(`invalid_exact_svm_payload_transaction_memo_instruction_too_long`);
+  }
+}
+
 /**
  * Verify that the create ATA instruction is valid.
+ * It must idempotently create the receiver's ATA for the payment asset. Its payer is the client,
+ * as the fee payer must not appear in any instruction's accounts.
  *
  * @param instruction - The create ATA instruction to verify
  * @param paymentRequirements - The payment requirements to verify against
  * @throws Error if the create ATA instruction is invalid
  */
+export async function verifyCreateATAInstruction(
+  instruction: Instruction<
+    string,
+    readonly (AccountLookupMeta<string, string> | AccountMeta<string>)[]
+  >,
+  paymentRequirements: PaymentRequirements,
+) {
+  let createATAInstruction;
+  try {
+    assertIsInstructionWithData(instruction);
+    assertIsInstructionWithAccounts(instruction);
+    if (
+      instruction.programAddress.toString() !== ASSOCIATED_TOKEN_PROGRAM_ADDRESS.toString() ||
+      identifyAssociatedTokenInstruction(instruction) !==
+        AssociatedTokenInstruction.CreateAssociatedTokenIdempotent
+    ) {
+      throw new Error(`invalid_exact_svm_payload_transaction_create_ata_instruction`);
+    }
+    createATAInstruction = parseCreateAssociatedTokenIdempotentInstruction({
+      ...instruction,
+      data: new Uint8Array(instruction.data),
+    });
+  } catch (error) {
+    console.error(error);
+    throw new Error(`invalid_exact_svm_payload_transaction_create_ata_instruction`);
+  }
+
+  const { ata, owner, mint, tokenProgram } = createATAInstruction.accounts;
+  if (owner.address !== paymentRequirements.payTo) {
+    throw new Error(`invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_payee`);
+  }
+  if (mint.address !== paymentRequirements.asset) {
+    throw new Error(`invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_asset`);
+  }
+
+  // verify that the created account is the receiver's ATA of a known token program
+  if (
+    tokenProgram.address.toString() !== TOKEN_PROGRAM_ADDRESS.toString() &&
+    tokenProgram.address.toString() !== TOKEN_2022_PROGRAM_ADDRESS.toString()
+  ) {
+    throw new Error(`invalid_exact_svm_payload_transaction_create_ata_instruction`);
+  }
+  const [payToATA] = await findAssociatedTokenPda({
+    mint: mint.address,
+    owner: owner.address,
+    tokenProgram: tokenProgram.address,
+  });
+  if (ata.address !== payToATA) {
+    throw new Error(`invalid_exact_svm_payload_transaction_create_ata_instruction`);
+  }
+}
+
 /**
  * Verify that the transfer instruction is valid.
  *
@@ -296,6 +478,8 @@ export function verifyComputePriceInstruction(
  * @param paymentRequirements - The payment requirements to verify against
  * @param signer - The signer that will sign the transaction
  * @param rpc - The RPC client to use for verifying account existence
+ * @param createsReceiverATA - Whether the transaction creates the receiver's ATA before the transfer
+ * @param policy - The facilitator policy restricting token programs and mints
  * @throws Error if the transfer instruction is invalid
  */
 export async function verifyTransferInstruction(
@@ -306,10 +490,33 @@ export async function verifyTransferInstruction(
   paymentRequirements: PaymentRequirements,
   signer: TransactionSigner,
   rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+  createsReceiverATA = false,
+  policy?: SvmFacilitatorPolicy,
 ) {
   // get a validated and parsed transferChecked instruction
   const tokenInstruction = getValidatedTransferCheckedInstruction(instruction);
-  await verifyTransferCheckedInstruction(tokenInstruction, paymentRequirements, signer, rpc);
+
+  // verify that the token program and mint are allowed by the facilitator
+  if (
+    policy?.allowedTokenPrograms &&
+    !policy.allowedTokenPrograms.includes(tokenInstruction.programAddress.toString())
+  ) {
+    throw new Error(`invalid_exact_svm_payload_transaction_token_program_not_allowed`);
+  }
+  if (
+    policy?.allowedMints &&
+    !policy.allowedMints.includes(tokenInstruction.accounts.mint.address.toString())
+  ) {
+    throw new Error(`invalid_exact_svm_payload_transaction_mint_not_allowed`);
+  }
+
+  await verifyTransferCheckedInstruction(
+    tokenInstruction,
+    paymentRequirements,
+    signer,
+    rpc,
+    createsReceiverATA,
+  );
 }
 
 /**
@@ -319,6 +526,7 @@ export async function verifyTransferInstruction(
  * @param paymentRequirements - The payment requirements to verify against
  * @param signer - The signer that will sign the transaction
  * @param rpc - The RPC client to use for verifying account existence
+ * @param createsReceiverATA - Whether the transaction creates the receiver's ATA before the transfer
  * @throws Error if the transfer checked instruction is invalid
  */
 export async function verifyTransferCheckedInstruction(
@@ -326,6 +534,7 @@ export async function verifyTransferCheckedInstruction(
   paymentRequirements: PaymentRequirements,
   signer: TransactionSigner,
   rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+  createsReceiverATA = false,
 ) {
   // get the token program address
   const tokenProgramAddress =
@@ -350,8 +559,10 @@ export async function verifyTransferCheckedInstruction(
     throw new Error(`invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata`);
   }
 
-  // verify that the source and destination ATAs exist
-  const addresses = [parsedInstruction.accounts.source.address, payToATA[0]];
+  // verify that the source and destination ATAs exist, unless the destination is created first
+  const addresses = createsReceiverATA
+    ? [parsedInstruction.accounts.source.address]
+    : [parsedInstruction.accounts.source.address, payToATA[0]];
   const maybeAccounts = await fetchEncodedAccounts(rpc, addresses);
   const missingAccounts = maybeAccounts.filter(a => !a.exists);
   for (const missingAccount of missingAccounts) {
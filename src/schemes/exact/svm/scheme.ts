@@ -0,0 +1,39 @@
+import { TransactionSigner } from "@solana/kit";
+import {
+  isMultiNetworkSigner,
+  isSvmSignerWallet,
+  SupportedSVMNetworks,
+} from "../../../types/shared";
+import { ExactSvmPayloadSchema } from "../../../types/verify";
+import { SchemeImplementation } from "../../registry";
+import { SCHEME } from "../../exact";
+import { createPaymentHeader } from "./client";
+import { getSettlementStatus, settle, verify } from "./facilitator";
+
+/**
+ * Creates the built-in implementation of the exact scheme on SVM networks
+ *
+ * @returns The exact SVM scheme implementation
+ */
+export function exactSvmScheme(): SchemeImplementation {
+  return {
+    scheme: SCHEME,
+    networks: SupportedSVMNetworks,
+    payloadSchema: ExactSvmPayloadSchema,
+    createPaymentHeader: async (client, x402Version, paymentRequirements, config) => {
+      const svmClient = isMultiNetworkSigner(client) ? client.svm : client;
+
+      if (!isSvmSignerWallet(svmClient)) {
+        throw new Error("Invalid svm wallet client provided");
+      }
+
+      return await createPaymentHeader(svmClient, x402Version, paymentRequirements, config);
+    },
+    verify: (client, payload, paymentRequirements, config) =>
+      verify(client as TransactionSigner, payload, paymentRequirements, config),
+    settle: (client, payload, paymentRequirements, config) =>
+      settle(client as TransactionSigner, payload, paymentRequirements, config),
+    getSettlementStatus: (_, network, transaction, config) =>
+      getSettlementStatus(network, transaction, config),
+  };
+}
@@ -1,2 +1,4 @@
 export * as exact from "./exact";
+export * from "./registry";
+export * as upto from "./upto";
 export * from "./utils";
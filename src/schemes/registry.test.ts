@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { createSchemeRegistry, getSchemeRegistry, SchemeImplementation } from "./registry";
+import { PaymentPayloadSchema, PaymentRequirementsSchema, schemes } from "../types/verify";
+import { SupportedEVMNetworks, SupportedSVMNetworks } from "../types/shared";
+
+/**
+ * Test helper to create a scheme implementation with mocked handlers.
+ *
+ * @param overrides - The overrides to apply to the implementation.
+ * @returns The created scheme implementation.
+ */
+function makeImplementation(overrides: Partial<SchemeImplementation> = {}): SchemeImplementation {
+  return {
+    scheme: "test",
+    networks: ["base-sepolia"],
+    payloadSchema: z.object({ amount: z.string() }),
+    createPaymentHeader: vi.fn().mockResolvedValue("header"),
+    verify: vi.fn().mockResolvedValue({ isValid: true }),
+    settle: vi.fn().mockResolvedValue({ success: true, transaction: "", network: "base-sepolia" }),
+    ...overrides,
+  };
+}
+
+describe("createSchemeRegistry", () => {
+  it("returns the implementation registered for a scheme and network", () => {
+    const registry = createSchemeRegistry();
+    const implementation = makeImplementation();
+    registry.register(implementation);
+
+    expect(registry.get("test", "base-sepolia")).toBe(implementation);
+    expect(registry.get("test", "base")).toBeUndefined();
+    expect(registry.get("other", "base-sepolia")).toBeUndefined();
+  });
+
+  it("allows one scheme to be registered for disjoint networks", () => {
+    const registry = createSchemeRegistry();
+    const evm = makeImplementation({ networks: ["base"] });
+    const svm = makeImplementation({ networks: ["solana"] });
+    registry.register(evm);
+    registry.register(svm);
+
+    expect(registry.get("test", "base")).toBe(evm);
+    expect(registry.get("test", "solana")).toBe(svm);
+    expect(registry.getSchemes()).toEqual(["test"]);
+  });
+
+  it("throws when a scheme is registered twice for the same network", () => {
+    const registry = createSchemeRegistry();
+    registry.register(makeImplementation());
+
+    expect(() => registry.register(makeImplementation())).toThrow(
+      "Scheme test is already registered for network base-sepolia",
+    );
+  });
+
+  it("lists every scheme and network pair as supported kinds", () => {
+    const registry = createSchemeRegistry();
+    registry.register(makeImplementation({ networks: ["base", "base-sepolia"] }));
+
+    expect(registry.getSupportedKinds()).toEqual({
+      kinds: [
+        { x402Version: 1, scheme: "test", network: "base" },
+        { x402Version: 1, scheme: "test", network: "base-sepolia" },
+      ],
+    });
+  });
+});
+
+describe("getSchemeRegistry", () => {
+  it("registers the exact scheme for all EVM and SVM networks", () => {
+    const registry = getSchemeRegistry();
+
+    expect(registry.getSchemes()).toContain("exact");
+    [...SupportedEVMNetworks, ...SupportedSVMNetworks].forEach(network => {
+      expect(registry.get("exact", network)).toBeDefined();
+    });
+  });
+
+  it("registers every scheme of the deprecated schemes list", () => {
+    expect(getSchemeRegistry().getSchemes()).toEqual(expect.arrayContaining([...schemes]));
+  });
+
+  it("drives scheme validation in the x402 schemas", () => {
+    const requirements = {
+      scheme: "exact",
+      network: "base-sepolia",
+      maxAmountRequired: "1000",
+      resource: "https://example.com/resource",
+      description: "Test",
+      mimeType: "application/json",
+      payTo: "0x1234567890123456789012345678901234567890",
+      maxTimeoutSeconds: 300,
+      asset: "0x1234567890123456789012345678901234567890",
+    };
+
+    expect(PaymentRequirementsSchema.safeParse(requirements).success).toBe(true);
+    expect(
+      PaymentRequirementsSchema.safeParse({ ...requirements, scheme: "unknown" }).success,
+    ).toBe(false);
+  });
+
+  it("validates payment payloads with the payload schema of the registered scheme", () => {
+    const svmPayment = {
+      x402Version: 1,
+      scheme: "exact",
+      network: "solana-devnet",
+      payload: { transaction: "QUJDREVGR0g=" },
+    };
+
+    expect(PaymentPayloadSchema.safeParse(svmPayment).success).toBe(true);
+    expect(PaymentPayloadSchema.safeParse({ ...svmPayment, network: "base-sepolia" }).success).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import { ZodTypeAny } from "zod";
+import { X402Config } from "../types/config";
+import { Network } from "../types/shared/network";
+import { ConnectedClient, MultiNetworkSigner, Signer } from "../types/shared/wallet";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  SupportedPaymentKindsResponse,
+  VerifyResponse,
+} from "../types/verify";
+import { exactEvmScheme } from "./exact/evm/scheme";
+import { exactSvmScheme } from "./exact/svm/scheme";
+import { uptoEvmScheme } from "./upto/evm/scheme";
+
+/**
+ * A scheme implementation for a set of networks.
+ * Registering an implementation makes its scheme available to the client, the facilitator
+ * and the x402 schemas without any changes to the library.
+ */
+export type SchemeImplementation = {
+  /** The name of the scheme, e.g. "exact" */
+  scheme: string;
+  /** The networks this implementation can handle */
+  networks: Network[];
+  /** The schema used to validate `PaymentPayload.payload` for this scheme and networks */
+  payloadSchema: ZodTypeAny;
+  /** Builds and encodes the X-PAYMENT header for the given payment requirements */
+  createPaymentHeader: (
+    client: Signer | MultiNetworkSigner,
+    x402Version: number,
+    paymentRequirements: PaymentRequirements,
+    config?: X402Config,
+  ) => Promise<string>;
+  /** Verifies a payment payload against the payment requirements */
+  verify: (
+    client: ConnectedClient | Signer,
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    config?: X402Config,
+  ) => Promise<VerifyResponse>;
+  /** Settles a verified payment payload */
+  settle: (
+    client: Signer,
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    config?: X402Config,
+  ) => Promise<SettleResponse>;
+  /**
+   * Gets the status of a settlement transaction broadcast by `settle` in the "async"
+   * settlement mode. Schemes without it only settle synchronously.
+   */
+  getSettlementStatus?: (
+    client: ConnectedClient | Signer,
+    network: Network,
+    transaction: string,
+    config?: X402Config,
+  ) => Promise<SettleResponse>;
+};
+
+export type SchemeRegistry = {
+  register: (implementation: SchemeImplementation) => void;
+  get: (scheme: string, network: Network) => SchemeImplementation | undefined;
+  hasScheme: (scheme: string) => boolean;
+  getSchemes: () => string[];
+  getSupportedKinds: (x402Version?: number) => SupportedPaymentKindsResponse;
+};
+
+/**
+ * Creates an empty scheme registry
+ *
+ * @returns A registry that scheme implementations can be registered with
+ */
+export function createSchemeRegistry(): SchemeRegistry {
+  const implementations: SchemeImplementation[] = [];
+
+  /**
+   * Registers a scheme implementation
+   *
+   * @param implementation - The scheme implementation to register
+   * @throws Error if the scheme is already registered for one of the implementation's networks
+   */
+  function register(implementation: SchemeImplementation): void {
+    for (const network of implementation.networks) {
+      if (get(implementation.scheme, network)) {
+        throw new Error(
+          `Scheme ${implementation.scheme} is already registered for network ${network}`,
+        );
+      }
+    }
+    implementations.push(implementation);
+  }
+
+  /**
+   * Gets the implementation registered for a scheme and network
+   *
+   * @param scheme - The scheme to look up
+   * @param network - The network to look up
+   * @returns The matching implementation or undefined if none is registered
+   */
+  function get(scheme: string, network: Network): SchemeImplementation | undefined {
+    return implementations.find(
+      implementation =>
+        implementation.scheme === scheme && implementation.networks.includes(network),
+    );
+  }
+
+  /**
+   * Checks whether any implementation is registered for a scheme
+   *
+   * @param scheme - The scheme to check
+   * @returns True if the scheme is registered for at least one network
+   */
+  function hasScheme(scheme: string): boolean {
+    return implementations.some(implementation => implementation.scheme === scheme);
+  }
+
+  /**
+   * Gets the names of all registered schemes
+   *
+   * @returns The registered scheme names, without duplicates
+   */
+  function getSchemes(): string[] {
+    return [...new Set(implementations.map(implementation => implementation.scheme))];
+  }
+
+  /**
+   * Lists every registered scheme and network pair as supported payment kinds
+   *
+   * @param x402Version - The x402 version to report for each kind
+   * @returns The supported payment kinds response
+   */
+  function getSupportedKinds(x402Version: number = 1): SupportedPaymentKindsResponse {
+    return {
+      kinds: implementations.flatMap(implementation =>
+        implementation.networks.map(network => ({
+          x402Version,
+          scheme: implementation.scheme,
+          network,
+        })),
+      ),
+    };
+  }
+
+  return { register, get, hasScheme, getSchemes, getSupportedKinds };
+}
+
+// Created lazily so that built-in schemes are only registered once all modules are loaded
+let defaultSchemeRegistry: SchemeRegistry | null = null;
+
+/**
+ * Gets the default scheme registry, with the built-in schemes registered
+ *
+ * @returns The default scheme registry
+ */
+export function getSchemeRegistry(): SchemeRegistry {
+  if (defaultSchemeRegistry === null) {
+    defaultSchemeRegistry = createSchemeRegistry();
+    defaultSchemeRegistry.register(exactEvmScheme());
+    defaultSchemeRegistry.register(exactSvmScheme());
+    defaultSchemeRegistry.register(uptoEvmScheme());
+  }
+  return defaultSchemeRegistry;
+}
+
+/**
+ * Registers a scheme implementation with the default scheme registry
+ *
+ * @param implementation - The scheme implementation to register
+ */
+export function registerScheme(implementation: SchemeImplementation): void {
+  getSchemeRegistry().register(implementation);
+}
@@ -0,0 +1,67 @@
+import { Chain, LocalAccount, Transport } from "viem";
+import { SignerWallet } from "../../../types/shared/evm";
+import { PaymentPayload, PaymentRequirements } from "../../../types/verify";
+import { encodePayment } from "../../utils";
+import { createPermit, createPermit2Authorization } from "../../exact/evm/client";
+
+/**
+ * Creates a payment payload authorizing the facilitator to transfer up to
+ * `paymentRequirements.maxAmountRequired`. The resource server decides the actual
+ * amount at settlement time. The payment is authorized with an EIP-2612 permit, or with a
+ * Permit2 transfer when the payment requirements set `extra.authorizationType` to `"permit2"`.
+ *
+ * @param client - The signer wallet instance used to sign the permit
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements, with the facilitator address in `extra.spender`
+ * @returns A promise that resolves to the signed payment payload
+ */
+export async function createPayment<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+): Promise<PaymentPayload> {
+  if (paymentRequirements.extra?.authorizationType === "permit2") {
+    const { signature, permit2Authorization } = await createPermit2Authorization(
+      client,
+      paymentRequirements,
+    );
+    return {
+      x402Version,
+      scheme: paymentRequirements.scheme,
+      network: paymentRequirements.network,
+      payload: {
+        signature,
+        permit2Authorization,
+      },
+    };
+  }
+
+  const { signature, permit } = await createPermit(client, paymentRequirements);
+
+  return {
+    x402Version,
+    scheme: paymentRequirements.scheme,
+    network: paymentRequirements.network,
+    payload: {
+      signature,
+      authorization: permit,
+    },
+  };
+}
+
+/**
+ * Creates and encodes a payment header for the given client and payment requirements.
+ *
+ * @param client - The signer wallet instance used to create the payment header
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @returns A promise that resolves to the encoded payment header string
+ */
+export async function createPaymentHeader(
+  client: SignerWallet | LocalAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+): Promise<string> {
+  const payment = await createPayment(client, x402Version, paymentRequirements);
+  return encodePayment(payment);
+}
@@ -0,0 +1,359 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Address, Chain, Transport } from "viem";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  UptoEvmPayload,
+  UptoEvmPermit2Payload,
+} from "../../../types/verify";
+import type { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import { withSettlementAmount } from "../utils";
+import { settle, verify } from "./facilitator";
+import { getERC20Allowance, getERC20Balance, getPermitNonce } from "../../../shared/evm";
+import { permit2Address } from "../../../types/shared/evm";
+
+vi.mock("../../../shared", () => ({
+  getNetworkId: vi.fn().mockReturnValue(84532),
+}));
+
+vi.mock("../../../shared/evm", async importOriginal => {
+  const actual = (await importOriginal()) as Record<string, unknown>;
+  return {
+    ...actual,
+    getVersion: vi.fn().mockResolvedValue("2"),
+    getERC20Balance: vi.fn().mockResolvedValue(BigInt("2000000")),
+    getPermitNonce: vi.fn().mockResolvedValue(BigInt(3)),
+    getERC20Allowance: vi.fn().mockResolvedValue(BigInt("2000000")),
+    isPermit2NonceUsed: vi.fn().mockResolvedValue(false),
+  };
+});
+
+vi.mock("viem", async importOriginal => {
+  const actual = (await importOriginal()) as Record<string, unknown>;
+  return {
+    ...actual,
+    parseSignature: vi.fn(() => ({
+      r: "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef" as `0x${string}`,
+      s: "0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890" as `0x${string}`,
+      v: 27,
+      yParity: 0,
+    })),
+  };
+});
+
+describe("upto evm facilitator", () => {
+  const facilitatorAddress = "0x9999999999999999999999999999999999999999" as Address;
+  const ownerAddress = "0xabcdef1234567890123456789012345678901234" as Address;
+
+  const mockPaymentRequirements: PaymentRequirements = {
+    scheme: "upto",
+    network: "base-sepolia",
+    maxAmountRequired: "1000000",
+    resource: "https://example.com/resource",
+    description: "Test resource",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890" as Address,
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" as Address,
+    extra: { spender: facilitatorAddress },
+  };
+
+  const createMockPayload = (
+    authorization: Partial<UptoEvmPayload["authorization"]> = {},
+  ): PaymentPayload => ({
+    x402Version: 1,
+    scheme: "upto",
+    network: "base-sepolia",
+    payload: {
+      signature: `0x${"1".repeat(128)}1b`,
+      authorization: {
+        owner: ownerAddress,
+        spender: facilitatorAddress,
+        value: "1000000",
+        nonce: "3",
+        deadline: (Math.floor(Date.now() / 1000) + 300).toString(),
+        ...authorization,
+      },
+    },
+  });
+
+  const createMockPermit2Payload = (
+    authorization: Partial<UptoEvmPermit2Payload["permit2Authorization"]> = {},
+  ): PaymentPayload => ({
+    x402Version: 1,
+    scheme: "upto",
+    network: "base-sepolia",
+    payload: {
+      signature: `0x${"1".repeat(128)}1b`,
+      permit2Authorization: {
+        from: ownerAddress,
+        permitted: { token: mockPaymentRequirements.asset, amount: "1000000" },
+        spender: facilitatorAddress,
+        nonce: "12345",
+        deadline: (Math.floor(Date.now() / 1000) + 300).toString(),
+        witness: { to: mockPaymentRequirements.payTo, resource: mockPaymentRequirements.resource },
+        ...authorization,
+      },
+    },
+  });
+
+  const createMockWallet = (address: Address = facilitatorAddress) =>
+    ({
+      verifyTypedData: vi.fn().mockResolvedValue(true),
+      writeContract: vi
+        .fn()
+        .mockResolvedValueOnce("0xpermittx")
+        .mockResolvedValueOnce("0xtransfertx"),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: "success" }),
+      chain: { id: 84532 },
+      account: { address },
+    }) as unknown as SignerWallet<Chain, Transport>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("verify", () => {
+    it("should accept a valid permit", async () => {
+      const client = createMockWallet() as unknown as ConnectedClient;
+
+      const result = await verify(client, createMockPayload(), mockPaymentRequirements);
+
+      expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: ownerAddress });
+    });
+
+    it("should reject an invalid signature", async () => {
+      const client = createMockWallet() as unknown as ConnectedClient;
+      vi.mocked(client.verifyTypedData).mockResolvedValueOnce(false);
+
+      const result = await verify(client, createMockPayload(), mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_signature");
+    });
+
+    it("should reject a permit granted to another spender", async () => {
+      const client = createMockWallet() as unknown as ConnectedClient;
+      const payload = createMockPayload({
+        spender: "0x8888888888888888888888888888888888888888",
+      });
+
+      const result = await verify(client, payload, mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_spender_mismatch");
+    });
+
+    it("should reject an expired permit", async () => {
+      const client = createMockWallet() as unknown as ConnectedClient;
+      const payload = createMockPayload({
+        deadline: (Math.floor(Date.now() / 1000) - 1).toString(),
+      });
+
+      const result = await verify(client, payload, mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_permit_deadline");
+    });
+
+    it("should reject a permit whose nonce is no longer current", async () => {
+      const client = createMockWallet() as unknown as ConnectedClient;
+      vi.mocked(getPermitNonce).mockResolvedValueOnce(BigInt(4));
+
+      const result = await verify(client, createMockPayload(), mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_permit_nonce");
+    });
+
+    it("should reject a permit below the maximum amount required", async () => {
+      const client = createMockWallet() as unknown as ConnectedClient;
+      const payload = createMockPayload({ value: "999999" });
+
+      const result = await verify(client, payload, mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_permit_value");
+    });
+
+    it("should reject when the owner cannot cover the maximum amount required", async () => {
+      const client = createMockWallet() as unknown as ConnectedClient;
+      vi.mocked(getERC20Balance).mockResolvedValueOnce(BigInt(10));
+
+      const result = await verify(client, createMockPayload(), mockPaymentRequirements);
+
+      expect(result.invalidReason).toBe("insufficient_funds");
+    });
+  });
+
+  describe("settle", () => {
+    it("should submit the permit and transfer the reported settlement amount", async () => {
+      const wallet = createMockWallet();
+
+      const result = await settle(
+        wallet,
+        createMockPayload(),
+        withSettlementAmount(mockPaymentRequirements, "250000"),
+      );
+
+      expect(result).toEqual({
+        success: true,
+        transaction: "0xtransfertx",
+        network: "base-sepolia",
+        payer: ownerAddress,
+      });
+      expect(wallet.writeContract).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          functionName: "permit",
+          args: [
+            ownerAddress,
+            facilitatorAddress,
+            BigInt(1000000),
+            expect.any(BigInt),
+            27,
+            expect.any(String),
+            expect.any(String),
+          ],
+        }),
+      );
+      expect(wallet.writeContract).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          functionName: "transferFrom",
+          args: [ownerAddress, mockPaymentRequirements.payTo, BigInt(250000)],
+        }),
+      );
+    });
+
+    it("should settle the maximum amount required when no amount is reported", async () => {
+      const wallet = createMockWallet();
+
+      await settle(wallet, createMockPayload(), mockPaymentRequirements);
+
+      expect(wallet.writeContract).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          functionName: "transferFrom",
+          args: [ownerAddress, mockPaymentRequirements.payTo, BigInt(1000000)],
+        }),
+      );
+    });
+
+    it("should reject a settlement amount above the permitted value", async () => {
+      const wallet = createMockWallet();
+
+      const result = await settle(
+        wallet,
+        createMockPayload(),
+        withSettlementAmount(mockPaymentRequirements, "1000001"),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errorReason).toBe("invalid_upto_evm_payload_settlement_amount");
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+
+    it("should reject when the facilitator wallet is not the permit spender", async () => {
+      const wallet = createMockWallet("0x7777777777777777777777777777777777777777");
+
+      const result = await settle(wallet, createMockPayload(), mockPaymentRequirements);
+
+      expect(result.success).toBe(false);
+      expect(result.errorReason).toBe("invalid_upto_evm_payload_spender_mismatch");
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+
+    it("should report a failed permit transaction", async () => {
+      const wallet = createMockWallet();
+      vi.mocked(wallet.waitForTransactionReceipt).mockResolvedValueOnce({
+        status: "reverted",
+      } as Awaited<ReturnType<typeof wallet.waitForTransactionReceipt>>);
+
+      const result = await settle(wallet, createMockPayload(), mockPaymentRequirements);
+
+      expect(result).toEqual({
+        success: false,
+        errorReason: "settle_upto_evm_permit_failed",
+        transaction: "0xpermittx",
+        network: "base-sepolia",
+        payer: ownerAddress,
+      });
+      expect(wallet.writeContract).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("permit2", () => {
+    const permit2Requirements: PaymentRequirements = {
+      ...mockPaymentRequirements,
+      extra: { spender: facilitatorAddress, authorizationType: "permit2" },
+    };
+
+    it("should accept a valid Permit2 authorization", async () => {
+      const client = createMockWallet() as unknown as ConnectedClient;
+
+      const result = await verify(client, createMockPermit2Payload(), permit2Requirements);
+
+      expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: ownerAddress });
+    });
+
+    it("should reject a witness bound to another payee", async () => {
+      const client = createMockWallet() as unknown as ConnectedClient;
+      const payload = createMockPermit2Payload({
+        witness: {
+          to: "0x8888888888888888888888888888888888888888",
+          resource: permit2Requirements.resource,
+        },
+      });
+
+      const result = await verify(client, payload, permit2Requirements);
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_permit2_witness_mismatch");
+    });
+
+    it("should reject when the owner has not approved Permit2", async () => {
+      const client = createMockWallet() as unknown as ConnectedClient;
+      vi.mocked(getERC20Allowance).mockResolvedValueOnce(BigInt(0));
+
+      const result = await verify(client, createMockPermit2Payload(), permit2Requirements);
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_permit2_allowance");
+    });
+
+    it("should transfer only the settlement amount without approving the facilitator", async () => {
+      const wallet = createMockWallet();
+      vi.mocked(wallet.writeContract).mockReset().mockResolvedValueOnce("0xpermit2tx");
+
+      const result = await settle(
+        wallet,
+        createMockPermit2Payload(),
+        withSettlementAmount(permit2Requirements, "250000"),
+      );
+
+      expect(result).toEqual({
+        success: true,
+        transaction: "0xpermit2tx",
+        network: "base-sepolia",
+        payer: ownerAddress,
+      });
+      expect(wallet.writeContract).toHaveBeenCalledTimes(1);
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: permit2Address,
+          functionName: "permitWitnessTransferFrom",
+          args: expect.arrayContaining([
+            { to: permit2Requirements.payTo, requestedAmount: BigInt(250000) },
+          ]),
+        }),
+      );
+    });
+
+    it("should reject a settlement amount above the permitted amount", async () => {
+      const wallet = createMockWallet();
+
+      const result = await settle(
+        wallet,
+        createMockPermit2Payload(),
+        withSettlementAmount(permit2Requirements, "1000001"),
+      );
+
+      expect(result.errorReason).toBe("invalid_upto_evm_payload_settlement_amount");
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { Account, Chain, Transport } from "viem";
+import { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  UptoEvmPayload,
+  UptoEvmPermit2Payload,
+  VerifyResponse,
+} from "../../../types/verify";
+import { PermitErrorReasons, settlePermit, verifyPermit } from "../../evm/permit";
+import { Permit2ErrorReasons, settlePermit2, verifyPermit2 } from "../../evm/permit2";
+import { getSettlementAmount, SCHEME } from "../../upto";
+
+const PERMIT_ERROR_REASONS: PermitErrorReasons = {
+  signature: "invalid_upto_evm_payload_signature",
+  spenderMismatch: "invalid_upto_evm_payload_spender_mismatch",
+  deadline: "invalid_upto_evm_payload_permit_deadline",
+  nonce: "invalid_upto_evm_payload_permit_nonce",
+  value: "invalid_upto_evm_payload_permit_value",
+  permitFailed: "settle_upto_evm_permit_failed",
+  transferFailed: "settle_upto_evm_transfer_failed",
+};
+
+const PERMIT2_ERROR_REASONS: Permit2ErrorReasons = {
+  signature: "invalid_upto_evm_payload_signature",
+  tokenMismatch: "invalid_upto_evm_payload_permit2_token_mismatch",
+  spenderMismatch: "invalid_upto_evm_payload_spender_mismatch",
+  witnessMismatch: "invalid_upto_evm_payload_permit2_witness_mismatch",
+  deadline: "invalid_upto_evm_payload_permit_deadline",
+  nonce: "invalid_upto_evm_payload_permit_nonce",
+  allowance: "invalid_upto_evm_payload_permit2_allowance",
+  value: "invalid_upto_evm_payload_permit_value",
+  transferFailed: "settle_upto_evm_permit2_failed",
+};
+
+/**
+ * Verifies an upto payment payload against the required payment details
+ *
+ * This function performs several verification steps:
+ * - Verifies the scheme
+ * - Validates the EIP-2612 permit or Permit2 signature
+ * - Checks the permit is granted to the facilitator named in the payment requirements
+ * - Checks the permit deadline is sufficiently in the future
+ * - Checks the permit nonce is the owner's current nonce on the token, or is unused on Permit2
+ * - Ensures the permitted value covers the maximum amount required
+ * - Verifies the client has enough funds to cover the maximum amount required
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed payment payload containing the permit and signature
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verify<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    return {
+      isValid: false,
+      invalidReason: `unsupported_scheme`,
+      payer: getPayer(payload),
+    };
+  }
+
+  if (isPermit2Payload(payload)) {
+    const { permit2Authorization, signature } = payload.payload;
+    return verifyPermit2(
+      client,
+      payload,
+      permit2Authorization,
+      signature,
+      paymentRequirements,
+      PERMIT2_ERROR_REASONS,
+    );
+  }
+
+  const { authorization, signature } = payload.payload as UptoEvmPayload;
+  return verifyPermit(
+    client,
+    payload,
+    authorization,
+    signature,
+    paymentRequirements,
+    PERMIT_ERROR_REASONS,
+  );
+}
+
+/**
+ * Settles an upto payment by transferring the settlement amount
+ *
+ * The amount to transfer is reported by the resource server through `extra.settlementAmount`
+ * (see `withSettlementAmount`) and defaults to `maxAmountRequired`. It can never exceed the
+ * value the client permitted.
+ *
+ * An EIP-2612 permit is submitted for its full value before the amount is transferred, so when
+ * less than the permitted value is settled, the difference stays approved to the facilitator
+ * wallet. That allowance does not expire with the permit deadline and only the payer can reset
+ * it. Requirements with `extra.authorizationType: "permit2"` are paid with Permit2 instead, which
+ * transfers only the settlement amount and leaves no allowance behind.
+ *
+ * @param wallet - The facilitator wallet, which must be the spender of the permit
+ * @param paymentPayload - The signed payment payload containing the permit and signature
+ * @param paymentRequirements - The payment requirements, including the settlement amount
+ * @returns A SettleResponse containing the transfer transaction status and hash
+ */
+export async function settle<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<SettleResponse> {
+  const payer = getPayer(paymentPayload);
+
+  // re-verify to ensure the payment is still valid
+  const valid = await verify(wallet, paymentPayload, paymentRequirements);
+  if (!valid.isValid) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: valid.invalidReason ?? "invalid_scheme",
+      payer,
+    };
+  }
+
+  // The settlement amount can never exceed what the client permitted
+  const permittedValue = isPermit2Payload(paymentPayload)
+    ? paymentPayload.payload.permit2Authorization.permitted.amount
+    : (paymentPayload.payload as UptoEvmPayload).authorization.value;
+  const amount = getSettlementAmount(paymentRequirements);
+  if (
+    amount === undefined ||
+    amount > BigInt(permittedValue) ||
+    amount > BigInt(paymentRequirements.maxAmountRequired)
+  ) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: "invalid_upto_evm_payload_settlement_amount",
+      payer,
+    };
+  }
+
+  if (isPermit2Payload(paymentPayload)) {
+    const { permit2Authorization, signature } = paymentPayload.payload;
+    return settlePermit2(
+      wallet,
+      paymentPayload,
+      permit2Authorization,
+      signature,
+      paymentRequirements,
+      amount,
+      PERMIT2_ERROR_REASONS,
+    );
+  }
+
+  const { authorization, signature } = paymentPayload.payload as UptoEvmPayload;
+  return settlePermit(
+    wallet,
+    paymentPayload,
+    authorization,
+    signature,
+    paymentRequirements,
+    amount,
+    PERMIT_ERROR_REASONS,
+  );
+}
+
+/**
+ * Checks whether an upto payment payload was signed with Permit2 rather than an EIP-2612 permit
+ *
+ * @param payload - The payment payload to inspect
+ * @returns True if the payload carries a Permit2 authorization
+ */
+function isPermit2Payload(
+  payload: PaymentPayload,
+): payload is PaymentPayload & { payload: UptoEvmPermit2Payload } {
+  return "permit2Authorization" in payload.payload;
+}
+
+/**
+ * Gets the address paying with an upto payment payload
+ *
+ * @param payload - The payment payload to inspect
+ * @returns The address of the payer
+ */
+function getPayer(payload: PaymentPayload): string {
+  return isPermit2Payload(payload)
+    ? payload.payload.permit2Authorization.from
+    : (payload.payload as UptoEvmPayload).authorization.owner;
+}
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import {
+  isEvmSignerWallet,
+  isMultiNetworkSigner,
+  SupportedEVMNetworks,
+} from "../../../types/shared";
+import { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import { UptoEvmPayloadSchema, UptoEvmPermit2PayloadSchema } from "../../../types/verify";
+import { SchemeImplementation } from "../../registry";
+import { SCHEME } from "../../upto";
+import { createPaymentHeader } from "./client";
+import { settle, verify } from "./facilitator";
+
+/**
+ * Creates the built-in implementation of the upto scheme on EVM networks
+ *
+ * @returns The upto EVM scheme implementation
+ */
+export function uptoEvmScheme(): SchemeImplementation {
+  return {
+    scheme: SCHEME,
+    networks: SupportedEVMNetworks,
+    payloadSchema: z.union([UptoEvmPayloadSchema, UptoEvmPermit2PayloadSchema]),
+    createPaymentHeader: async (client, x402Version, paymentRequirements) => {
+      const evmClient = isMultiNetworkSigner(client) ? client.evm : client;
+
+      if (!isEvmSignerWallet(evmClient)) {
+        throw new Error("Invalid evm wallet client provided");
+      }
+
+      return await createPaymentHeader(evmClient, x402Version, paymentRequirements);
+    },
+    verify: (client, payload, paymentRequirements) =>
+      verify(client as ConnectedClient, payload, paymentRequirements),
+    settle: (client, payload, paymentRequirements) =>
+      settle(client as SignerWallet, payload, paymentRequirements),
+  };
+}
@@ -0,0 +1,4 @@
+export * as evm from "./evm";
+export * from "./utils";
+
+export const SCHEME = "upto";
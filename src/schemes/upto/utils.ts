@@ -0,0 +1,39 @@
+import { PaymentRequirements } from "../../types/verify";
+
+/**
+ * Returns a copy of the payment requirements carrying the amount actually consumed,
+ * to be passed to the facilitator's settle for the upto scheme.
+ *
+ * @param paymentRequirements - The payment requirements the payment was verified against
+ * @param amount - The amount to settle in atomic units, at most `maxAmountRequired`
+ * @returns The payment requirements with the settlement amount set in `extra`
+ */
+export function withSettlementAmount(
+  paymentRequirements: PaymentRequirements,
+  amount: string | bigint,
+): PaymentRequirements {
+  return {
+    ...paymentRequirements,
+    extra: {
+      ...paymentRequirements.extra,
+      settlementAmount: amount.toString(),
+    },
+  };
+}
+
+/**
+ * Gets the amount to settle for the upto scheme.
+ * Defaults to `maxAmountRequired` when the resource server did not report an amount.
+ *
+ * @param paymentRequirements - The payment requirements to read the settlement amount from
+ * @returns The amount to settle in atomic units, or undefined if the reported amount is not a valid amount
+ */
+export function getSettlementAmount(paymentRequirements: PaymentRequirements): bigint | undefined {
+  const settlementAmount = String(
+    paymentRequirements.extra?.settlementAmount ?? paymentRequirements.maxAmountRequired,
+  );
+  if (!/^[0-9]+$/.test(settlementAmount)) {
+    return undefined;
+  }
+  return BigInt(settlementAmount);
+}
@@ -0,0 +1,159 @@
+import { Address } from "@solana/kit";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { buildAccepts } from "./accepts";
+
+const payTo = "0x1234567890123456789012345678901234567890";
+const svmPayTo = "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4" as Address;
+const feePayer = "FeePayer1111111111111111111111111111111111";
+const spender = "0x9999999999999999999999999999999999999999";
+
+describe("buildAccepts", () => {
+  const facilitator = { supported: vi.fn() };
+  const options = {
+    payTo,
+    resource: "https://api.example.com/paid",
+    method: "GET",
+    facilitator,
+  } as const;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    facilitator.supported.mockResolvedValue({
+      kinds: [
+        { x402Version: 1, scheme: "exact", network: "solana-devnet", extra: { feePayer } },
+        { x402Version: 1, scheme: "exact", network: "solana", extra: { feePayer } },
+        { x402Version: 1, scheme: "exact", network: "base", extra: { spender } },
+        { x402Version: 1, scheme: "upto", network: "base", extra: { spender } },
+      ],
+    });
+  });
+
+  it("should build one requirement per network of the route", async () => {
+    const accepts = await buildAccepts(
+      { price: "$0.01", network: ["base-sepolia", "base"] },
+      options,
+    );
+
+    expect(accepts).toEqual([
+      expect.objectContaining({
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "10000",
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        payTo,
+        resource: "https://api.example.com/paid",
+        extra: { name: "USDC", version: "2" },
+      }),
+      expect.objectContaining({
+        network: "base",
+        asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+        extra: { name: "USD Coin", version: "2" },
+      }),
+    ]);
+    expect(facilitator.supported).not.toHaveBeenCalled();
+  });
+
+  it("should resolve each payment option with its own price, recipient and fee payer", async () => {
+    const accepts = await buildAccepts(
+      {
+        accepts: [
+          { network: "base", price: "€0.10" },
+          { network: "solana-devnet", price: "$0.01", payTo: svmPayTo },
+          { network: "solana", price: { amount: "0.02", currency: "PYUSD" }, payTo: svmPayTo },
+        ],
+        config: { description: "Paid content" },
+      },
+      options,
+    );
+
+    expect(accepts).toEqual([
+      expect.objectContaining({
+        network: "base",
+        maxAmountRequired: "100000",
+        asset: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42",
+        payTo,
+        description: "Paid content",
+        extra: { name: "EURC", version: "2" },
+      }),
+      expect.objectContaining({
+        network: "solana-devnet",
+        maxAmountRequired: "10000",
+        asset: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+        payTo: svmPayTo,
+        extra: { feePayer },
+      }),
+      expect.objectContaining({
+        network: "solana",
+        maxAmountRequired: "20000",
+        asset: "2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo",
+        payTo: svmPayTo,
+        extra: { feePayer },
+      }),
+    ]);
+    expect(facilitator.supported).toHaveBeenCalledTimes(1);
+  });
+
+  it("should use the scheme of a payment option and the facilitator as spender of upto", async () => {
+    const [requirements] = await buildAccepts(
+      { accepts: [{ network: "base", price: "$0.01", scheme: "upto" }] },
+      options,
+    );
+
+    expect(requirements.scheme).toBe("upto");
+    expect(requirements.extra).toEqual({ name: "USD Coin", version: "2", spender });
+  });
+
+  it("should merge the extra of a payment option into the requirements", async () => {
+    const accepts = await buildAccepts(
+      {
+        accepts: [
+          { network: "base", price: "$0.01", extra: { authorizationType: "eip2612" } },
+          { network: "solana-devnet", price: "$0.01", payTo: svmPayTo, extra: { memo: "x" } },
+        ],
+      },
+      options,
+    );
+
+    expect(accepts.map(requirements => requirements.extra)).toEqual([
+      { name: "USD Coin", version: "2", authorizationType: "eip2612", spender },
+      { memo: "x", feePayer },
+    ]);
+  });
+
+  it("should keep the spender set by a payment option", async () => {
+    const otherSpender = "0x8888888888888888888888888888888888888888";
+    const [requirements] = await buildAccepts(
+      {
+        accepts: [
+          { network: "base", price: "$0.01", scheme: "upto", extra: { spender: otherSpender } },
+        ],
+      },
+      options,
+    );
+
+    expect(requirements.extra?.spender).toBe(otherSpender);
+    expect(facilitator.supported).not.toHaveBeenCalled();
+  });
+
+  it("should throw if the facilitator provides no spender for a permit payment", async () => {
+    facilitator.supported.mockResolvedValue({ kinds: [] });
+
+    await expect(
+      buildAccepts({ accepts: [{ network: "base", price: "$0.01", scheme: "upto" }] }, options),
+    ).rejects.toThrow("The facilitator did not provide a spender for network: base.");
+  });
+
+  it("should throw if the facilitator provides no fee payer", async () => {
+    facilitator.supported.mockResolvedValue({ kinds: [] });
+
+    await expect(
+      buildAccepts({ price: "$0.01", network: "solana-devnet" }, { ...options, payTo: svmPayTo }),
+    ).rejects.toThrow("The facilitator did not provide a fee payer for network: solana-devnet.");
+  });
+
+  it("should throw if a price cannot be resolved", async () => {
+    await expect(buildAccepts({ price: "€0.10", network: "sei" }, options)).rejects.toThrow(
+      "Unable to get EURC on sei",
+    );
+  });
+});
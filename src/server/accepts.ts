@@ -0,0 +1,140 @@
+import { Address as SolanaAddress } from "@solana/kit";
+import { Address, getAddress } from "viem";
+import { getRoutePaymentOptions, processPriceToAtomicAmount } from "../shared";
+import {
+  ERC20TokenAmount,
+  Network,
+  RouteConfig,
+  SupportedEVMNetworks,
+  SupportedSVMNetworks,
+} from "../types";
+import { PaymentRequirements, SupportedPaymentKindsResponse } from "../types/verify";
+import { FacilitatorClient } from "../verify";
+
+// The exact EVM authorization types that grant the facilitator a permit to spend the payment
+const PERMIT_AUTHORIZATION_TYPES: unknown[] = ["eip2612", "permit2"];
+
+/**
+ * Builds the payment requirements accepted for a route, one per payment option. Assets are
+ * resolved per network and SVM requirements get the fee payer of the facilitator, which pays
+ * the transaction fees. EVM requirements paid with permits, i.e. upto requirements and exact
+ * requirements with an EIP-2612 or Permit2 `authorizationType`, get the facilitator as spender.
+ * The option's `extra` is merged into the requirements' `extra`.
+ *
+ * @param routeConfig - The payment configuration of the route
+ * @param options - Where the requirements are for and who receives the payments
+ * @param options.payTo - The address receiving payments for options without their own `payTo`
+ * @param options.resource - The URL of the resource, used unless the route overrides it
+ * @param options.method - The HTTP method of the request
+ * @param options.facilitator - The facilitator, asked for its fee payers and spenders
+ * @returns The payment requirements, in the order of the route's payment options
+ * @throws Error if a price cannot be resolved, a network is not supported or the facilitator
+ * provides no fee payer or spender where one is needed
+ */
+export async function buildAccepts(
+  routeConfig: RouteConfig,
+  {
+    payTo,
+    resource,
+    method,
+    facilitator,
+  }: {
+    payTo: Address | SolanaAddress;
+    resource: string;
+    method: string;
+    facilitator: Pick<FacilitatorClient, "supported">;
+  },
+): Promise<PaymentRequirements[]> {
+  const {
+    description,
+    mimeType,
+    maxTimeoutSeconds,
+    inputSchema,
+    outputSchema,
+    discoverable,
+    resource: configuredResource,
+  } = routeConfig.config || {};
+
+  // fetched at most once, and only if a fee payer or spender is needed
+  let supported: Promise<SupportedPaymentKindsResponse> | undefined;
+
+  /**
+   * Gets a value the facilitator advertises in the `extra` of a supported kind
+   *
+   * @param scheme - The scheme of the kind
+   * @param network - The network of the kind
+   * @param key - The key of the value in the kind's `extra`
+   * @returns The value, or undefined if the facilitator does not advertise it
+   */
+  async function getSupportedExtra(scheme: string, network: Network, key: string) {
+    supported ??= facilitator.supported();
+    return (await supported).kinds.find(kind => kind.network === network && kind.scheme === scheme)
+      ?.extra?.[key];
+  }
+
+  return Promise.all(
+    getRoutePaymentOptions(routeConfig).map(async option => {
+      const { network, scheme = "exact" } = option;
+      const atomicAmountForAsset = processPriceToAtomicAmount(option.price, network);
+      if ("error" in atomicAmountForAsset) {
+        throw new Error(atomicAmountForAsset.error);
+      }
+      const { maxAmountRequired, asset } = atomicAmountForAsset;
+
+      const baseRequirements = {
+        scheme,
+        network,
+        maxAmountRequired,
+        resource: configuredResource || resource,
+        description: description ?? "",
+        mimeType: mimeType ?? "",
+        maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
+        outputSchema: {
+          input: {
+            type: "http",
+            method,
+            discoverable: discoverable ?? true,
+            ...inputSchema,
+          },
+          output: outputSchema,
+        },
+      };
+
+      if (SupportedEVMNetworks.includes(network)) {
+        const extra: Record<string, unknown> = {
+          ...(asset as ERC20TokenAmount["asset"]).eip712,
+          ...option.extra,
+        };
+        const isPaidWithPermit =
+          scheme === "upto" || PERMIT_AUTHORIZATION_TYPES.includes(extra.authorizationType);
+        if (isPaidWithPermit && !extra.spender) {
+          extra.spender = await getSupportedExtra(scheme, network, "spender");
+          if (!extra.spender) {
+            throw new Error(`The facilitator did not provide a spender for network: ${network}.`);
+          }
+        }
+        return {
+          ...baseRequirements,
+          payTo: getAddress(option.payTo ?? payTo),
+          asset: getAddress(asset.address),
+          extra,
+        };
+      }
+
+      if (SupportedSVMNetworks.includes(network)) {
+        const feePayer = await getSupportedExtra(scheme, network, "feePayer");
+        if (!feePayer) {
+          throw new Error(`The facilitator did not provide a fee payer for network: ${network}.`);
+        }
+        return {
+          ...baseRequirements,
+          payTo: option.payTo ?? payTo,
+          asset: asset.address,
+          extra: { ...option.extra, feePayer },
+        };
+      }
+
+      throw new Error(`Unsupported network: ${network}`);
+    }),
+  );
+}
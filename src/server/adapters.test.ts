@@ -0,0 +1,212 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { withFetchPayment, withNodePayment } from "./adapters";
+import { x402HandleResult, x402ResourceServer } from "./resourceServer";
+
+const paymentRequiredResult = {
+  type: "payment-required" as const,
+  status: 402 as const,
+  body: { x402Version: 1, error: "X-PAYMENT header is required", accepts: [] },
+  headers: { "PAYMENT-REQUIRED": "required" },
+};
+
+/**
+ * Creates a payment-verified result whose settlement resolves to the given outcome
+ *
+ * @param success - Whether the settlement succeeds
+ * @returns The handle result and its settle mock
+ */
+function makeVerifiedResult(success = true) {
+  const settle = vi.fn().mockResolvedValue(
+    success
+      ? { success: true, response: {}, headers: { "X-PAYMENT-RESPONSE": "settled" } }
+      : {
+          success: false,
+          status: 402,
+          body: { x402Version: 1, error: "invalid_transaction_state", accepts: [] },
+          headers: {},
+        },
+  );
+  return {
+    settle,
+    result: { type: "payment-verified", settle } as unknown as x402HandleResult,
+  };
+}
+
+/**
+ * Creates a resource server whose handleRequest resolves to the given result
+ *
+ * @param result - The result of handleRequest
+ * @returns The mocked resource server
+ */
+function makeServer(result: x402HandleResult): x402ResourceServer {
+  return { handleRequest: vi.fn().mockResolvedValue(result) } as unknown as x402ResourceServer;
+}
+
+describe("withFetchPayment", () => {
+  const request = new Request("https://api.example.com/paid");
+
+  it("should serve requests that do not need a payment", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("ok"));
+
+    const response = await withFetchPayment(makeServer({ type: "pass-through" }), handler)(request);
+
+    expect(await response.text()).toBe("ok");
+  });
+
+  it("should answer with the 402 body without calling the handler", async () => {
+    const handler = vi.fn();
+
+    const response = await withFetchPayment(makeServer(paymentRequiredResult), handler)(request);
+
+    expect(response.status).toBe(402);
+    expect(response.headers.get("PAYMENT-REQUIRED")).toBe("required");
+    expect(await response.json()).toEqual(paymentRequiredResult.body);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("should settle after the handler and add the payment response header", async () => {
+    const { result } = makeVerifiedResult();
+    const handler = vi.fn().mockResolvedValue(new Response("paid content"));
+
+    const response = await withFetchPayment(makeServer(result), handler)(request);
+
+    expect(response.headers.get("X-PAYMENT-RESPONSE")).toBe("settled");
+    expect(await response.text()).toBe("paid content");
+  });
+
+  it("should not settle when the handler fails", async () => {
+    const { result, settle } = makeVerifiedResult();
+    const handler = vi.fn().mockResolvedValue(new Response("error", { status: 500 }));
+
+    const response = await withFetchPayment(makeServer(result), handler)(request);
+
+    expect(response.status).toBe(500);
+    expect(settle).not.toHaveBeenCalled();
+  });
+
+  it("should answer with 402 when settlement fails", async () => {
+    const { result } = makeVerifiedResult(false);
+    const handler = vi.fn().mockResolvedValue(new Response("paid content"));
+
+    const response = await withFetchPayment(makeServer(result), handler)(request);
+
+    expect(response.status).toBe(402);
+    expect(await response.json()).toMatchObject({ error: "invalid_transaction_state" });
+  });
+
+  it("should answer with 500 when the request cannot be handled", async () => {
+    const server = {
+      handleRequest: vi.fn().mockRejectedValue(new Error("Facilitator unreachable")),
+    } as unknown as x402ResourceServer;
+    const handler = vi.fn();
+
+    const response = await withFetchPayment(server, handler)(request);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Facilitator unreachable" });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe("withNodePayment", () => {
+  let httpServer: Server | undefined;
+
+  /**
+   * Starts an HTTP server for the given resource server result and returns its URL
+   *
+   * @param result - The result of handleRequest, or the resource server
+   * @param handler - The handler serving the resource
+   * @returns The URL of the started server
+   */
+  async function listen(
+    result: x402HandleResult | x402ResourceServer,
+    handler: Parameters<typeof withNodePayment>[1] = (_request, response) => {
+      setTimeout(() => response.end("paid content"), 5);
+    },
+  ): Promise<string> {
+    const server = "type" in result ? makeServer(result) : result;
+    httpServer = createServer(withNodePayment(server, handler));
+    await new Promise<void>(resolve => httpServer!.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(httpServer!.address() as AddressInfo).port}/paid`;
+  }
+
+  beforeEach(() => {
+    httpServer = undefined;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => httpServer?.close(resolve));
+  });
+
+  it("should answer with the 402 body", async () => {
+    const response = await fetch(await listen(paymentRequiredResult));
+
+    expect(response.status).toBe(402);
+    expect(response.headers.get("PAYMENT-REQUIRED")).toBe("required");
+    expect(await response.json()).toEqual(paymentRequiredResult.body);
+  });
+
+  it("should hold the response back until the payment is settled", async () => {
+    const { result, settle } = makeVerifiedResult();
+
+    const response = await fetch(await listen(result));
+
+    expect(settle).toHaveBeenCalled();
+    expect(response.headers.get("X-PAYMENT-RESPONSE")).toBe("settled");
+    expect(await response.text()).toBe("paid content");
+  });
+
+  it("should answer with 402 when settlement fails", async () => {
+    const { result } = makeVerifiedResult(false);
+
+    const response = await fetch(await listen(result));
+
+    expect(response.status).toBe(402);
+    expect(await response.json()).toMatchObject({ error: "invalid_transaction_state" });
+  });
+
+  it("should hold back written content until the payment is settled", async () => {
+    const { result, settle } = makeVerifiedResult();
+
+    const response = await fetch(
+      await listen(result, (_request, response) => {
+        response.writeHead(200, { "Content-Type": "text/plain" });
+        response.write("paid ");
+        expect(settle).not.toHaveBeenCalled();
+        setTimeout(() => response.end("content"), 5);
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-PAYMENT-RESPONSE")).toBe("settled");
+    expect(await response.text()).toBe("paid content");
+  });
+
+  it("should not send written content when settlement fails", async () => {
+    const { result } = makeVerifiedResult(false);
+
+    const response = await fetch(
+      await listen(result, (_request, response) => {
+        response.writeHead(200, { "Content-Type": "text/plain" });
+        response.write("paid ");
+        response.end("content");
+      }),
+    );
+
+    expect(response.status).toBe(402);
+    expect(await response.json()).toMatchObject({ error: "invalid_transaction_state" });
+  });
+
+  it("should answer with 500 when the request cannot be handled", async () => {
+    const server = {
+      handleRequest: vi.fn().mockRejectedValue(new Error("Facilitator unreachable")),
+    } as unknown as x402ResourceServer;
+
+    const response = await fetch(await listen(server));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Facilitator unreachable" });
+  });
+});
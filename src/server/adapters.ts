@@ -0,0 +1,273 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { TLSSocket } from "tls";
+import { PaymentPayload, PaymentRequirements } from "../types/verify";
+import { x402HandleResult, x402RequestLike, x402ResourceServer } from "./resourceServer";
+
+/**
+ * The verified payment of a paid request, passed to the handlers wrapped by the adapters
+ */
+export type x402PaymentContext = {
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+  /**
+   * Sets the amount consumed by the request, in atomic units, for resources paid with the upto
+   * scheme. The verified maximum is settled if it is not set.
+   */
+  setSettlementAmount: (amount: string) => void;
+};
+
+/**
+ * Creates the payment context of a verified payment
+ *
+ * @param result - The verified payment
+ * @returns The context passed to the handler, and a getter for the amount it set
+ */
+function createPaymentContext(result: Extract<x402HandleResult, { type: "payment-verified" }>): {
+  context: x402PaymentContext;
+  getSettlementAmount: () => string | undefined;
+} {
+  let settlementAmount: string | undefined;
+  return {
+    context: {
+      paymentPayload: result.paymentPayload,
+      paymentRequirements: result.paymentRequirements,
+      setSettlementAmount: amount => {
+        settlementAmount = amount;
+      },
+    },
+    getSettlementAmount: () => settlementAmount,
+  };
+}
+
+/**
+ * Builds the body of the 500 response sent when a request cannot be handled, e.g. because the
+ * facilitator is unreachable or the price of a route cannot be resolved
+ *
+ * @param error - The error that was thrown
+ * @returns The JSON body with the error message
+ */
+function internalErrorBody(error: unknown): { error: string } {
+  console.error("Failed to handle payment:", error);
+  return { error: error instanceof Error ? error.message : "Failed to handle payment" };
+}
+
+/**
+ * Creates a request-like object from a WHATWG Fetch API request
+ *
+ * @param request - The Fetch API request
+ * @returns The request-like object for the resource server
+ */
+export function fromFetchRequest(request: Request): x402RequestLike {
+  return {
+    method: request.method,
+    url: request.url,
+    getHeader: name => request.headers.get(name) ?? undefined,
+  };
+}
+
+/**
+ * Wraps a Fetch API request handler (e.g. Next.js route handlers, Hono, Bun, Deno or
+ * Cloudflare Workers) so that requests to paid routes must carry a valid payment, which is
+ * settled once the handler has responded successfully
+ *
+ * @param server - The resource server protecting the handler
+ * @param handler - The handler serving the resource, given the payment of paid requests
+ * @returns A Fetch API request handler enforcing payments
+ */
+export function withFetchPayment(
+  server: x402ResourceServer,
+  handler: (request: Request, payment?: x402PaymentContext) => Promise<Response>,
+): (request: Request) => Promise<Response> {
+  return async request => {
+    let result: x402HandleResult;
+    try {
+      result = await server.handleRequest(fromFetchRequest(request));
+    } catch (error) {
+      return Response.json(internalErrorBody(error), { status: 500 });
+    }
+
+    switch (result.type) {
+      case "pass-through":
+        return handler(request);
+      case "payment-required":
+        return Response.json(result.body, { status: result.status, headers: result.headers });
+      case "paywall":
+        return new Response(result.html, {
+          status: result.status,
+          headers: { "Content-Type": "text/html" },
+        });
+    }
+
+    const { context, getSettlementAmount } = createPaymentContext(result);
+    const response = await handler(request, context);
+    // only settle when the resource was actually served
+    if (response.status >= 400) {
+      return response;
+    }
+
+    const settlement = await result.settle(getSettlementAmount());
+    if (!settlement.success) {
+      return Response.json(settlement.body, {
+        status: settlement.status,
+        headers: settlement.headers,
+      });
+    }
+
+    const headers = new Headers(response.headers);
+    Object.entries(settlement.headers).forEach(([name, value]) => headers.set(name, value));
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
+
+/**
+ * Creates a request-like object from a Node.js incoming message
+ *
+ * @param request - The Node.js incoming message
+ * @returns The request-like object for the resource server
+ */
+export function fromIncomingMessage(request: IncomingMessage): x402RequestLike {
+  const protocol = (request.socket as TLSSocket).encrypted ? "https" : "http";
+  return {
+    method: request.method ?? "GET",
+    url: `${protocol}://${request.headers.host ?? "localhost"}${request.url ?? "/"}`,
+    getHeader: name => {
+      const value = request.headers[name.toLowerCase()];
+      return Array.isArray(value) ? value.join(", ") : value;
+    },
+  };
+}
+
+type NodePaymentHandler = (
+  request: IncomingMessage,
+  response: ServerResponse,
+  payment?: x402PaymentContext,
+) => void | Promise<void>;
+
+/**
+ * Wraps a Node.js request handler (e.g. for `http.createServer`) so that requests to paid
+ * routes must carry a valid payment. Everything the handler writes is held back until it ends
+ * the response, so that the payment can be settled and X-PAYMENT-RESPONSE added before any of
+ * the paid resource is sent. Handlers that stream their response are therefore buffered.
+ * Errors, e.g. from an unreachable facilitator, are answered with 500 instead of rejecting.
+ *
+ * @param server - The resource server protecting the handler
+ * @param handler - The handler serving the resource, given the payment of paid requests
+ * @returns A Node.js request handler enforcing payments
+ */
+export function withNodePayment(
+  server: x402ResourceServer,
+  handler: NodePaymentHandler,
+): (request: IncomingMessage, response: ServerResponse) => Promise<void> {
+  return async (request, response) => {
+    const { writeHead, write, end } = response;
+    const restore = () => Object.assign(response, { writeHead, write, end });
+
+    try {
+      await handlePayment(server, handler, request, response, restore);
+    } catch (error) {
+      restore();
+      const body = internalErrorBody(error);
+      if (response.headersSent) {
+        response.destroy();
+        return;
+      }
+      response.writeHead(500, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    }
+  };
+}
+
+/**
+ * Handles a Node.js request for `withNodePayment`
+ *
+ * @param server - The resource server protecting the handler
+ * @param handler - The handler serving the resource
+ * @param request - The incoming request
+ * @param response - The response, whose writeHead, write and end are intercepted for paid requests
+ * @param restore - Restores the intercepted methods of the response
+ */
+async function handlePayment(
+  server: x402ResourceServer,
+  handler: NodePaymentHandler,
+  request: IncomingMessage,
+  response: ServerResponse,
+  restore: () => void,
+): Promise<void> {
+  const result = await server.handleRequest(fromIncomingMessage(request));
+
+  switch (result.type) {
+    case "pass-through":
+      await handler(request, response);
+      return;
+    case "payment-required":
+      response.writeHead(result.status, {
+        "Content-Type": "application/json",
+        ...result.headers,
+      });
+      response.end(JSON.stringify(result.body));
+      return;
+    case "paywall":
+      response.writeHead(result.status, { "Content-Type": "text/html" });
+      response.end(result.html);
+      return;
+  }
+
+  // Intercept writeHead, write and end so the response is held back until the payment is settled
+  let writeHeadArgs: unknown[] | undefined;
+  const writes: unknown[][] = [];
+  let endArgs: unknown[] = [];
+  const ended = new Promise<void>(resolve => {
+    response.writeHead = ((...args: unknown[]) => {
+      writeHeadArgs = args;
+      return response;
+    }) as ServerResponse["writeHead"];
+    response.write = ((...args: unknown[]) => {
+      writes.push(args);
+      return true;
+    }) as ServerResponse["write"];
+    response.end = ((...args: unknown[]) => {
+      endArgs = args;
+      resolve();
+      return response;
+    }) as ServerResponse["end"];
+  });
+
+  const { context, getSettlementAmount } = createPaymentContext(result);
+  await handler(request, response, context);
+  await ended;
+  restore();
+
+  const send = () => {
+    if (writeHeadArgs) {
+      response.writeHead(...(writeHeadArgs as Parameters<ServerResponse["writeHead"]>));
+    }
+    writes.forEach(args => response.write(...(args as Parameters<ServerResponse["write"]>)));
+    response.end(...(endArgs as Parameters<ServerResponse["end"]>));
+  };
+
+  // only settle when the resource was actually served
+  const statusCode = (writeHeadArgs?.[0] as number | undefined) ?? response.statusCode;
+  if (statusCode >= 400) {
+    send();
+    return;
+  }
+
+  const settlement = await result.settle(getSettlementAmount());
+  if (!settlement.success) {
+    // nothing of the resource has been sent, so answer with the 402 instead
+    response.removeHeader("Content-Length");
+    response.writeHead(settlement.status, {
+      "Content-Type": "application/json",
+      ...settlement.headers,
+    });
+    response.end(JSON.stringify(settlement.body));
+    return;
+  }
+
+  Object.entries(settlement.headers).forEach(([name, value]) => response.setHeader(name, value));
+  send();
+}
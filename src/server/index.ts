@@ -0,0 +1,3 @@
+export * from "./accepts";
+export * from "./resourceServer";
+export * from "./adapters";
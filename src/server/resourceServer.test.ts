@@ -0,0 +1,458 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { x402ResourceServer, x402RequestLike } from "./resourceServer";
+import { withFetchPayment } from "./adapters";
+import { useFacilitator } from "../verify";
+import { getPaywallHtml } from "../paywall";
+import { exact } from "../schemes";
+import { createPaymentHeader } from "../client";
+import { createSigner } from "../types/shared/evm";
+import {
+  decodePaymentRequiredHeader,
+  decodePaymentResponseHeader,
+  encodePaymentSignatureHeader,
+  PaymentPayload,
+} from "../types/verify";
+
+vi.mock("../verify", () => ({
+  useFacilitator: vi.fn(),
+}));
+
+vi.mock("../shared/evm", async importOriginal => ({
+  ...((await importOriginal()) as Record<string, unknown>),
+  getPermitNonce: vi.fn().mockResolvedValue(BigInt(0)),
+}));
+
+vi.mock("../paywall", () => ({
+  getPaywallHtml: vi.fn().mockReturnValue("<html>paywall</html>"),
+}));
+
+const payTo = "0x1234567890123456789012345678901234567890";
+
+const paymentPayload: PaymentPayload = {
+  x402Version: 1,
+  scheme: "exact",
+  network: "base-sepolia",
+  payload: {
+    signature: "0x1234567890123456789012345678901234567890123456789012345678901234",
+    authorization: {
+      from: "0xabcdef1234567890123456789012345678901234",
+      to: payTo,
+      value: "10000",
+      validAfter: "1740672089",
+      validBefore: "1740672154",
+      nonce: "0x1234567890123456789012345678901234567890123456789012345678901234",
+    },
+  },
+};
+
+/**
+ * Creates a request-like object for tests
+ *
+ * @param url - The absolute URL of the request
+ * @param headers - The request headers
+ * @param method - The HTTP method of the request
+ * @returns The request-like object
+ */
+function makeRequest(
+  url: string,
+  headers: Record<string, string> = {},
+  method = "GET",
+): x402RequestLike {
+  return {
+    method,
+    url,
+    getHeader: name =>
+      Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1],
+  };
+}
+
+describe("x402ResourceServer", () => {
+  const facilitator = {
+    verify: vi.fn(),
+    settle: vi.fn(),
+    getSettlementStatus: vi.fn(),
+    supported: vi.fn(),
+    list: vi.fn(),
+    getCacheStats: vi.fn(),
+  };
+  let server: x402ResourceServer;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useFacilitator).mockReturnValue(facilitator);
+    facilitator.verify.mockResolvedValue({ isValid: true, payer: payTo });
+    facilitator.settle.mockResolvedValue({
+      success: true,
+      transaction: "0xtx",
+      network: "base-sepolia",
+      payer: payTo,
+    });
+    server = new x402ResourceServer(payTo, {
+      "GET /paid": { price: "$0.01", network: "base-sepolia", config: { description: "Paid" } },
+    });
+  });
+
+  it("should pass through requests that do not match a paid route", async () => {
+    const result = await server.handleRequest(makeRequest("https://api.example.com/free"));
+
+    expect(result).toEqual({ type: "pass-through" });
+  });
+
+  it("should require a payment with the route's payment requirements", async () => {
+    const result = await server.handleRequest(makeRequest("https://api.example.com/paid?q=1"));
+
+    expect(result).toEqual({
+      type: "payment-required",
+      status: 402,
+      body: {
+        x402Version: 1,
+        error: "X-PAYMENT header is required",
+        accepts: [
+          expect.objectContaining({
+            scheme: "exact",
+            network: "base-sepolia",
+            maxAmountRequired: "10000",
+            resource: "https://api.example.com/paid",
+            description: "Paid",
+            payTo,
+            asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+          }),
+        ],
+      },
+      headers: { "PAYMENT-REQUIRED": expect.any(String) },
+    });
+  });
+
+  it("should send the version 2 payment requirements in the PAYMENT-REQUIRED header", async () => {
+    const result = await server.handleRequest(makeRequest("https://api.example.com/paid"));
+
+    const header = result.type === "payment-required" && result.headers["PAYMENT-REQUIRED"];
+    expect(decodePaymentRequiredHeader(header as string)).toEqual({
+      x402Version: 2,
+      error: "X-PAYMENT header is required",
+      resource: expect.objectContaining({
+        url: "https://api.example.com/paid",
+        description: "Paid",
+      }),
+      accepts: [
+        expect.objectContaining({
+          scheme: "exact",
+          network: "eip155:84532",
+          amount: "10000",
+          payTo,
+          asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        }),
+      ],
+    });
+  });
+
+  it("should accept version 2 payments and answer with the PAYMENT-RESPONSE header", async () => {
+    const result = await server.handleRequest(
+      makeRequest("https://api.example.com/paid", {
+        "PAYMENT-SIGNATURE": encodePaymentSignatureHeader({
+          x402Version: 2,
+          accepted: {
+            scheme: "exact",
+            network: "eip155:84532",
+            amount: "10000",
+            asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+            payTo,
+            maxTimeoutSeconds: 60,
+          },
+          payload: paymentPayload.payload,
+        }),
+      }),
+    );
+    expect(result).toMatchObject({
+      type: "payment-verified",
+      paymentPayload: { x402Version: 1, scheme: "exact", network: "base-sepolia" },
+    });
+    expect(facilitator.verify).toHaveBeenCalledWith(
+      paymentPayload,
+      expect.objectContaining({ network: "base-sepolia" }),
+    );
+
+    const settlement = result.type === "payment-verified" && (await result.settle());
+
+    const header = settlement && settlement.success && settlement.headers["PAYMENT-RESPONSE"];
+    expect(decodePaymentResponseHeader(header as string)).toMatchObject({
+      success: true,
+      transaction: "0xtx",
+      network: "base-sepolia",
+    });
+  });
+
+  describe("with two assets on one network", () => {
+    const eurc = "0x808456652fdb597867f38412077A9182bf77359F";
+
+    beforeEach(() => {
+      server = new x402ResourceServer(payTo, {
+        "GET /paid": {
+          accepts: [
+            { network: "base-sepolia", price: "$0.01" },
+            {
+              network: "base-sepolia",
+              price: {
+                amount: "10000",
+                asset: { address: eurc, decimals: 6, eip712: { name: "EURC", version: "2" } },
+              },
+            },
+          ],
+        },
+      });
+    });
+
+    it("should verify version 2 payments against the requirements they accepted", async () => {
+      const result = await server.handleRequest(
+        makeRequest("https://api.example.com/paid", {
+          "PAYMENT-SIGNATURE": encodePaymentSignatureHeader({
+            x402Version: 2,
+            accepted: {
+              scheme: "exact",
+              network: "eip155:84532",
+              amount: "10000",
+              asset: eurc,
+              payTo,
+              maxTimeoutSeconds: 60,
+            },
+            payload: paymentPayload.payload,
+          }),
+        }),
+      );
+
+      expect(result).toMatchObject({
+        type: "payment-verified",
+        paymentRequirements: { asset: eurc },
+      });
+      expect(facilitator.verify).toHaveBeenCalledOnce();
+      expect(facilitator.verify).toHaveBeenCalledWith(
+        paymentPayload,
+        expect.objectContaining({ asset: eurc }),
+      );
+    });
+
+    it("should select the requirements version 1 payments verify against", async () => {
+      facilitator.verify
+        .mockResolvedValueOnce({
+          isValid: false,
+          invalidReason: "invalid_exact_evm_payload_signature",
+        })
+        .mockResolvedValueOnce({ isValid: true, payer: payTo });
+
+      const result = await server.handleRequest(
+        makeRequest("https://api.example.com/paid", {
+          "X-PAYMENT": exact.evm.encodePayment(paymentPayload),
+        }),
+      );
+
+      expect(result).toMatchObject({
+        type: "payment-verified",
+        paymentRequirements: { asset: eurc },
+      });
+      expect(facilitator.verify).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report why version 1 payments verify against no requirements", async () => {
+      facilitator.verify.mockResolvedValue({
+        isValid: false,
+        invalidReason: "invalid_exact_evm_payload_signature",
+      });
+
+      const result = await server.handleRequest(
+        makeRequest("https://api.example.com/paid", {
+          "X-PAYMENT": exact.evm.encodePayment(paymentPayload),
+        }),
+      );
+
+      expect(result).toMatchObject({
+        type: "payment-required",
+        body: { error: "invalid_exact_evm_payload_signature" },
+      });
+    });
+  });
+
+  it("should serve the paywall to web browsers", async () => {
+    const result = await server.handleRequest(
+      makeRequest("https://api.example.com/paid", {
+        Accept: "text/html",
+        "User-Agent": "Mozilla/5.0",
+      }),
+    );
+
+    expect(result).toEqual({ type: "paywall", status: 402, html: "<html>paywall</html>" });
+  });
+
+  it("should tell the paywall whether the route's network is a testnet", async () => {
+    const browserHeaders = { Accept: "text/html", "User-Agent": "Mozilla/5.0" };
+    const testnetServer = new x402ResourceServer(payTo, {
+      "GET /paid": { price: "$0.01", network: "avalanche-fuji" },
+    });
+    const mainnetServer = new x402ResourceServer(payTo, {
+      "GET /paid": { price: "$0.01", network: "base" },
+    });
+
+    await testnetServer.handleRequest(makeRequest("https://api.example.com/paid", browserHeaders));
+    await mainnetServer.handleRequest(makeRequest("https://api.example.com/paid", browserHeaders));
+
+    expect(vi.mocked(getPaywallHtml).mock.calls.map(([options]) => options.testnet)).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it("should reject a malformed payment header", async () => {
+    const result = await server.handleRequest(
+      makeRequest("https://api.example.com/paid", { "X-PAYMENT": "not-a-payment" }),
+    );
+
+    expect(result.type).toBe("payment-required");
+    expect(facilitator.verify).not.toHaveBeenCalled();
+  });
+
+  it("should reject a payment the facilitator does not verify", async () => {
+    facilitator.verify.mockResolvedValue({
+      isValid: false,
+      invalidReason: "insufficient_funds",
+      payer: payTo,
+    });
+
+    const result = await server.handleRequest(
+      makeRequest("https://api.example.com/paid", {
+        "X-PAYMENT": exact.evm.encodePayment(paymentPayload),
+      }),
+    );
+
+    expect(result).toMatchObject({
+      type: "payment-required",
+      body: { error: "insufficient_funds", payer: payTo },
+    });
+  });
+
+  it("should settle a verified payment after the response and return the response header", async () => {
+    const result = await server.handleRequest(
+      makeRequest("https://api.example.com/paid", {
+        "X-PAYMENT": exact.evm.encodePayment(paymentPayload),
+      }),
+    );
+    expect(result.type).toBe("payment-verified");
+    expect(facilitator.settle).not.toHaveBeenCalled();
+
+    const settlement = result.type === "payment-verified" && (await result.settle());
+
+    expect(settlement).toEqual({
+      success: true,
+      response: expect.objectContaining({ success: true, transaction: "0xtx" }),
+      headers: { "X-PAYMENT-RESPONSE": expect.any(String) },
+    });
+  });
+
+  it("should settle the amount the handler consumed through the Fetch adapter", async () => {
+    const handler = withFetchPayment(server, async (_request, payment) => {
+      payment?.setSettlementAmount("2500");
+      return new Response("paid content");
+    });
+
+    const response = await handler(
+      new Request("https://api.example.com/paid", {
+        headers: { "X-PAYMENT": exact.evm.encodePayment(paymentPayload) },
+      }),
+    );
+
+    expect(await response.text()).toBe("paid content");
+    expect(facilitator.settle).toHaveBeenCalledWith(
+      paymentPayload,
+      expect.objectContaining({
+        maxAmountRequired: "10000",
+        extra: expect.objectContaining({ settlementAmount: "2500" }),
+      }),
+    );
+  });
+
+  it("should be paid for an upto route and settle the amount the handler consumed", async () => {
+    const spender = "0x9999999999999999999999999999999999999999";
+    facilitator.supported.mockResolvedValue({
+      kinds: [{ x402Version: 1, scheme: "upto", network: "base-sepolia", extra: { spender } }],
+    });
+    const uptoServer = new x402ResourceServer(payTo, {
+      "GET /generate": { accepts: [{ network: "base-sepolia", price: "$0.10", scheme: "upto" }] },
+    });
+    const handler = withFetchPayment(uptoServer, async (_request, payment) => {
+      payment?.setSettlementAmount("25000");
+      return new Response("generated");
+    });
+
+    const paymentRequired = await handler(new Request("https://api.example.com/generate"));
+    const { accepts } = await paymentRequired.json();
+    const signer = createSigner("base-sepolia", `0x${"1".repeat(64)}`);
+    const header = await createPaymentHeader(signer, 1, accepts[0]);
+    const response = await handler(
+      new Request("https://api.example.com/generate", { headers: { "X-PAYMENT": header } }),
+    );
+
+    expect(paymentRequired.status).toBe(402);
+    expect(accepts[0]).toMatchObject({ scheme: "upto", extra: { spender } });
+    expect(await response.text()).toBe("generated");
+    expect(facilitator.settle).toHaveBeenCalledWith(
+      expect.objectContaining({
+        scheme: "upto",
+        payload: expect.objectContaining({
+          authorization: expect.objectContaining({
+            owner: signer.account.address,
+            spender,
+            value: "100000",
+          }),
+        }),
+      }),
+      expect.objectContaining({
+        maxAmountRequired: "100000",
+        extra: expect.objectContaining({ spender, settlementAmount: "25000" }),
+      }),
+    );
+  });
+
+  it("should report a failed settlement as payment required", async () => {
+    facilitator.settle.mockResolvedValue({
+      success: false,
+      errorReason: "invalid_transaction_state",
+      transaction: "",
+      network: "base-sepolia",
+    });
+    const result = await server.handleRequest(
+      makeRequest("https://api.example.com/paid", {
+        "X-PAYMENT": exact.evm.encodePayment(paymentPayload),
+      }),
+    );
+
+    const settlement = result.type === "payment-verified" && (await result.settle());
+
+    expect(settlement).toMatchObject({
+      success: false,
+      status: 402,
+      body: { error: "invalid_transaction_state" },
+    });
+  });
+
+  it("should include the facilitator fee payer in SVM payment requirements", async () => {
+    facilitator.supported.mockResolvedValue({
+      kinds: [
+        {
+          x402Version: 1,
+          scheme: "exact",
+          network: "solana-devnet",
+          extra: { feePayer: "FeePayer1111111111111111111111111111111111" },
+        },
+      ],
+    });
+    const svmServer = new x402ResourceServer(
+      "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4" as never,
+      { "/paid": { price: "$0.01", network: "solana-devnet" } },
+    );
+
+    const result = await svmServer.handleRequest(makeRequest("https://api.example.com/paid"));
+
+    expect(result).toMatchObject({
+      type: "payment-required",
+      body: { accepts: [{ extra: { feePayer: "FeePayer1111111111111111111111111111111111" } }] },
+    });
+  });
+});
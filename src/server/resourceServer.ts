@@ -0,0 +1,332 @@
+import { Address as SolanaAddress } from "@solana/kit";
+import { Address } from "viem";
+import { getPaywallHtml } from "../paywall";
+import { exact } from "../schemes";
+import { withSettlementAmount } from "../schemes/upto/utils";
+import {
+  computeRoutePatterns,
+  filterMatchingPaymentRequirements,
+  findMatchingRoute,
+  getRoutePaymentOptions,
+  toJsonSafe,
+} from "../shared";
+import {
+  FacilitatorConfig,
+  getNetworkRegistry,
+  moneyWithCurrencySchema,
+  MultiFacilitatorConfig,
+  PaywallConfig,
+  Price,
+  RoutePattern,
+  RoutesConfig,
+} from "../types";
+import {
+  decodePaymentSignatureHeader,
+  encodePaymentRequiredHeader,
+  encodePaymentResponseHeader,
+  PaymentPayload,
+  paymentPayloadFromV2,
+  paymentRequiredToV2,
+  PaymentRequirements,
+  PaymentRequirementsV2,
+  settleResponseHeader,
+  SettleResponse,
+  VerifyResponse,
+  x402Headers,
+} from "../types/verify";
+import { FacilitatorClient, useFacilitator } from "../verify";
+import { buildAccepts } from "./accepts";
+
+const x402Version = 1;
+
+/**
+ * The parts of an incoming HTTP request the resource server needs, independent of the framework
+ */
+export interface x402RequestLike {
+  /** The HTTP method of the request */
+  method: string;
+  /** The absolute URL of the request */
+  url: string;
+  /** Gets the value of a request header, case-insensitively */
+  getHeader: (name: string) => string | undefined;
+}
+
+/**
+ * The body of a 402 Payment Required JSON response
+ */
+export type x402PaymentRequiredBody = {
+  x402Version: number;
+  error: string;
+  accepts: PaymentRequirements[];
+  payer?: string;
+};
+
+/**
+ * The outcome of settling a verified payment once the protected resource has been served
+ */
+export type x402SettleResult =
+  | {
+      success: true;
+      response: SettleResponse;
+      /** The headers to add to the response, i.e. X-PAYMENT-RESPONSE or PAYMENT-RESPONSE */
+      headers: Record<string, string>;
+    }
+  | {
+      success: false;
+      status: 402;
+      body: x402PaymentRequiredBody;
+      /** The headers to add to the response, i.e. PAYMENT-REQUIRED */
+      headers: Record<string, string>;
+    };
+
+/**
+ * The outcome of handling a request with the resource server
+ */
+export type x402HandleResult =
+  /** The request does not match a paid route and can be served as is */
+  | { type: "pass-through" }
+  /**
+   * The request must be answered with a 402 JSON response, with the headers carrying the
+   * version 2 payment requirements
+   */
+  | {
+      type: "payment-required";
+      status: 402;
+      body: x402PaymentRequiredBody;
+      headers: Record<string, string>;
+    }
+  /** The request comes from a web browser and must be answered with the paywall */
+  | { type: "paywall"; status: 402; html: string }
+  /**
+   * The payment is valid: serve the resource, then call `settle` if the response succeeded
+   * and add the returned headers, or answer with the returned 402 body if settlement failed.
+   * Resources paid with the upto scheme pass the amount they consumed, in atomic units, to
+   * `settle`, which otherwise settles the verified maximum.
+   */
+  | {
+      type: "payment-verified";
+      paymentPayload: PaymentPayload;
+      paymentRequirements: PaymentRequirements;
+      settle: (amount?: string) => Promise<x402SettleResult>;
+    };
+
+/**
+ * Framework-agnostic x402 resource server. Matches requests against the paid routes, answers
+ * them with payment requirements or the paywall, verifies X-PAYMENT headers with the facilitator
+ * and settles payments once the resource has been served. Both versions of the protocol are
+ * served: 402 responses carry the version 1 body and the version 2 PAYMENT-REQUIRED header, and
+ * payments are accepted from either X-PAYMENT or PAYMENT-SIGNATURE. Framework adapters only need
+ * to translate their request into an `x402RequestLike` and the result into a response.
+ */
+export class x402ResourceServer {
+  private readonly routePatterns: RoutePattern[];
+  private readonly facilitator: FacilitatorClient;
+
+  /**
+   * Creates a resource server
+   *
+   * @param payTo - The address to receive payments
+   * @param routes - The paid routes and their payment configuration
+   * @param facilitator - The facilitator, or facilitators, used to verify and settle payments
+   * @param paywall - The configuration of the paywall shown to web browsers
+   */
+  constructor(
+    private readonly payTo: Address | SolanaAddress,
+    routes: RoutesConfig,
+    facilitator?: FacilitatorConfig | MultiFacilitatorConfig,
+    private readonly paywall?: PaywallConfig,
+  ) {
+    this.routePatterns = computeRoutePatterns(routes);
+    this.facilitator = useFacilitator(facilitator);
+  }
+
+  /**
+   * Handles a request, deciding whether it can be served, needs a payment or has a valid payment
+   *
+   * @param request - The request to handle
+   * @returns The discriminated result the adapter must act upon
+   */
+  async handleRequest(request: x402RequestLike): Promise<x402HandleResult> {
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+    const matchingRoute = findMatchingRoute(this.routePatterns, url.pathname, method);
+    if (!matchingRoute) {
+      return { type: "pass-through" };
+    }
+
+    // the paywall shows the first, preferred, payment option
+    const [{ price, network }] = getRoutePaymentOptions(matchingRoute.config);
+    const { customPaywallHtml, errorMessages } = matchingRoute.config.config || {};
+    const paymentRequirements = await buildAccepts(matchingRoute.config, {
+      payTo: this.payTo,
+      resource: `${url.origin}${url.pathname}`,
+      method,
+      facilitator: this.facilitator,
+    });
+
+    const paymentRequired = (error: string, payer?: string): x402HandleResult => ({
+      type: "payment-required",
+      ...buildPaymentRequiredResponse(paymentRequirements, error, payer),
+    });
+
+    const paymentV2 = request.getHeader(x402Headers[2].payment);
+    const payment = paymentV2 ?? request.getHeader(x402Headers[1].payment);
+    if (!payment) {
+      const userAgent = request.getHeader("User-Agent") || "";
+      const acceptHeader = request.getHeader("Accept") || "";
+      const isWebBrowser = acceptHeader.includes("text/html") && userAgent.includes("Mozilla");
+      if (isWebBrowser) {
+        const html =
+          customPaywallHtml ||
+          getPaywallHtml({
+            amount: getDisplayAmount(price),
+            paymentRequirements: toJsonSafe(paymentRequirements) as PaymentRequirements[],
+            currentUrl: `${url.pathname}${url.search}`,
+            testnet: getNetworkRegistry().get(network)?.testnet ?? false,
+            cdpClientKey: this.paywall?.cdpClientKey,
+            appName: this.paywall?.appName,
+            appLogo: this.paywall?.appLogo,
+            sessionTokenEndpoint: this.paywall?.sessionTokenEndpoint,
+          });
+        return { type: "paywall", status: 402, html };
+      }
+      return paymentRequired(errorMessages?.paymentRequired || "X-PAYMENT header is required");
+    }
+
+    let paymentPayload: PaymentPayload;
+    let accepted: PaymentRequirementsV2 | undefined;
+    try {
+      if (paymentV2) {
+        const paymentPayloadV2 = decodePaymentSignatureHeader(paymentV2);
+        paymentPayload = paymentPayloadFromV2(paymentPayloadV2);
+        accepted = paymentPayloadV2.accepted;
+      } else {
+        paymentPayload = exact.evm.decodePayment(payment);
+        paymentPayload.x402Version = x402Version;
+      }
+    } catch (error) {
+      return paymentRequired(
+        errorMessages?.invalidPayment ||
+          (error instanceof Error ? error.message : "Invalid or malformed payment header"),
+      );
+    }
+
+    const matchingPaymentRequirements = filterMatchingPaymentRequirements(
+      paymentRequirements,
+      paymentPayload,
+      accepted,
+    );
+    if (matchingPaymentRequirements.length === 0) {
+      return paymentRequired(
+        errorMessages?.noMatchingRequirements || "Unable to find matching payment requirements",
+      );
+    }
+
+    // a version 1 payment does not name its asset or payee, so the requirements it pays are
+    // the first ones the facilitator verifies it against
+    let selectedPaymentRequirements: PaymentRequirements | undefined;
+    try {
+      let rejection: VerifyResponse | undefined;
+      for (const candidate of matchingPaymentRequirements) {
+        const response = await this.facilitator.verify(paymentPayload, candidate);
+        if (response.isValid) {
+          selectedPaymentRequirements = candidate;
+          break;
+        }
+        rejection ??= response;
+      }
+      if (!selectedPaymentRequirements) {
+        return paymentRequired(
+          errorMessages?.verificationFailed || rejection?.invalidReason || "Invalid payment",
+          rejection?.payer,
+        );
+      }
+    } catch (error) {
+      return paymentRequired(
+        errorMessages?.verificationFailed ||
+          (error instanceof Error ? error.message : "Failed to verify payment"),
+      );
+    }
+
+    const settle = async (amount?: string): Promise<x402SettleResult> => {
+      const settlementFailed = (error: string, payer?: string): x402SettleResult => ({
+        success: false,
+        ...buildPaymentRequiredResponse(paymentRequirements, error, payer),
+      });
+
+      try {
+        const response = await this.facilitator.settle(
+          paymentPayload,
+          amount === undefined
+            ? selectedPaymentRequirements
+            : withSettlementAmount(selectedPaymentRequirements, amount),
+        );
+        if (!response.success) {
+          return settlementFailed(
+            errorMessages?.settlementFailed || response.errorReason || "Settlement failed",
+            response.payer,
+          );
+        }
+        return {
+          success: true,
+          response,
+          // answer in the version of the protocol the payment was made with
+          headers: paymentV2
+            ? { [x402Headers[2].paymentResponse]: encodePaymentResponseHeader(response) }
+            : { [x402Headers[1].paymentResponse]: settleResponseHeader(response) },
+        };
+      } catch (error) {
+        return settlementFailed(
+          errorMessages?.settlementFailed ||
+            (error instanceof Error ? error.message : "Failed to settle payment"),
+        );
+      }
+    };
+
+    return {
+      type: "payment-verified",
+      paymentPayload,
+      paymentRequirements: selectedPaymentRequirements,
+      settle,
+    };
+  }
+}
+
+/**
+ * Builds a 402 response requiring a payment, in both versions of the protocol
+ *
+ * @param paymentRequirements - The payment requirements accepted for the resource
+ * @param error - The reason the payment is required
+ * @param payer - The payer of a rejected payment, if known
+ * @returns The 402 status, the version 1 body and the version 2 PAYMENT-REQUIRED header
+ */
+function buildPaymentRequiredResponse(
+  paymentRequirements: PaymentRequirements[],
+  error: string,
+  payer?: string,
+): { status: 402; body: x402PaymentRequiredBody; headers: Record<string, string> } {
+  const accepts = toJsonSafe(paymentRequirements) as PaymentRequirements[];
+  return {
+    status: 402,
+    body: { x402Version, error, accepts, ...(payer ? { payer } : {}) },
+    headers: {
+      [x402Headers[2].paymentRequired]: encodePaymentRequiredHeader(
+        paymentRequiredToV2(accepts, error),
+      ),
+    },
+  };
+}
+
+/**
+ * Gets the amount shown on the paywall for a price
+ *
+ * @param price - The price of the route
+ * @returns The amount in whole units of the asset, or NaN if the price cannot be parsed
+ */
+function getDisplayAmount(price: Price): number {
+  if (typeof price === "string" || typeof price === "number" || "currency" in price) {
+    const parsed = moneyWithCurrencySchema.safeParse(price);
+    return parsed.success ? parsed.data.amount : Number.NaN;
+  }
+  return Number(price.amount) / 10 ** price.asset.decimals;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+import { zeroAddress, zeroHash } from "viem";
+import { ConnectedClient } from "../../types/shared/evm";
+import { supportsEip3009 } from "./erc20";
+
+const asset = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+
+/**
+ * Creates a client whose contract reads resolve or reject
+ *
+ * @param readContract - The mocked readContract implementation
+ * @returns The mocked client
+ */
+function createMockClient(readContract: ReturnType<typeof vi.fn>) {
+  return { readContract } as unknown as ConnectedClient;
+}
+
+describe("supportsEip3009", () => {
+  it("should probe the token's authorizationState view", async () => {
+    const readContract = vi.fn().mockResolvedValue(false);
+
+    await expect(supportsEip3009(createMockClient(readContract), asset)).resolves.toBe(true);
+    expect(readContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: asset,
+        functionName: "authorizationState",
+        args: [zeroAddress, zeroHash],
+      }),
+    );
+  });
+
+  it("should report tokens whose authorizationState call reverts as unsupported", async () => {
+    const readContract = vi.fn().mockRejectedValue(new Error("execution reverted"));
+
+    await expect(supportsEip3009(createMockClient(readContract), asset)).resolves.toBe(false);
+  });
+});
@@ -1,4 +1,4 @@
-import { Account, Address, Chain, Transport } from "viem";
+import { Account, Address, Chain, Hex, Transport, zeroAddress, zeroHash } from "viem";
 import { usdcABI as erc20PermitABI } from "../../types/shared/evm/erc20PermitABI";
 import { ConnectedClient } from "../../types/shared/evm/wallet";
 
@@ -27,3 +27,131 @@ export async function getERC20Balance<
   });
   return balance as bigint;
 }
+
+/**
+ * Gets the number of decimals of an ERC20 token
+ *
+ * @param client - The Viem client instance connected to the blockchain
+ * @param erc20Address - The address of the ERC20 contract
+ * @returns A promise that resolves to the decimals of the token
+ */
+export async function getERC20Decimals<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined = undefined,
+>(client: ConnectedClient<transport, chain, account>, erc20Address: Address): Promise<number> {
+  const decimals = await client.readContract({
+    address: erc20Address,
+    abi: erc20PermitABI,
+    functionName: "decimals",
+  });
+  return Number(decimals);
+}
+
+/**
+ * Gets the current EIP-2612 permit nonce of an owner for an ERC20 token
+ *
+ * @param client - The Viem client instance connected to the blockchain
+ * @param erc20Address - The address of the ERC20 contract
+ * @param owner - The address of the token owner
+ * @returns A promise that resolves to the owner's current permit nonce
+ */
+export async function getPermitNonce<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined = undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  erc20Address: Address,
+  owner: Address,
+): Promise<bigint> {
+  const nonce = await client.readContract({
+    address: erc20Address,
+    abi: erc20PermitABI,
+    functionName: "nonces",
+    args: [owner],
+  });
+  return nonce as bigint;
+}
+
+/**
+ * Checks whether an EIP-3009 authorization nonce has already been used or canceled by an authorizer
+ *
+ * @param client - The Viem client instance connected to the blockchain
+ * @param erc20Address - The address of the ERC20 contract
+ * @param authorizer - The address that signed the authorization
+ * @param nonce - The 32-byte nonce of the authorization
+ * @returns A promise that resolves to true if the nonce can no longer be used
+ */
+export async function isAuthorizationUsed<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined = undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  erc20Address: Address,
+  authorizer: Address,
+  nonce: Hex,
+): Promise<boolean> {
+  const isUsed = await client.readContract({
+    address: erc20Address,
+    abi: erc20PermitABI,
+    functionName: "authorizationState",
+    args: [authorizer, nonce],
+  });
+  return isUsed as boolean;
+}
+
+/**
+ * Checks whether an ERC20 token implements EIP-3009 transferWithAuthorization, by probing
+ * its `authorizationState` view. Tokens without it must be paid with an EIP-2612 permit.
+ *
+ * @param client - The Viem client instance connected to the blockchain
+ * @param erc20Address - The address of the ERC20 contract
+ * @returns A promise that resolves to true if the token supports EIP-3009
+ */
+export async function supportsEip3009<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined = undefined,
+>(client: ConnectedClient<transport, chain, account>, erc20Address: Address): Promise<boolean> {
+  try {
+    await client.readContract({
+      address: erc20Address,
+      abi: erc20PermitABI,
+      functionName: "authorizationState",
+      args: [zeroAddress, zeroHash],
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the amount of an ERC20 token that a spender is allowed to transfer on behalf of an owner
+ *
+ * @param client - The Viem client instance connected to the blockchain
+ * @param erc20Address - The address of the ERC20 contract
+ * @param owner - The address of the token owner
+ * @param spender - The address of the spender
+ * @returns A promise that resolves to the allowance as a bigint
+ */
+export async function getERC20Allowance<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined = undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  erc20Address: Address,
+  owner: Address,
+  spender: Address,
+): Promise<bigint> {
+  const allowance = await client.readContract({
+    address: erc20Address,
+    abi: erc20PermitABI,
+    functionName: "allowance",
+    args: [owner, spender],
+  });
+  return allowance as bigint;
+}
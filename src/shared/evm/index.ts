@@ -1,2 +1,3 @@
 export * from "./usdc";
 export * from "./erc20";
+export * from "./permit2";
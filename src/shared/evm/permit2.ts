@@ -0,0 +1,31 @@
+import { Account, Address, Chain, Transport } from "viem";
+import { permit2ABI, permit2Address } from "../../types/shared/evm/permit2";
+import { ConnectedClient } from "../../types/shared/evm/wallet";
+
+/**
+ * Checks whether a Permit2 signature transfer nonce has already been used by an owner.
+ * Permit2 nonces are unordered: the upper 248 bits select a word of the owner's nonce
+ * bitmap and the lower 8 bits select the bit within that word.
+ *
+ * @param client - The Viem client instance connected to the blockchain
+ * @param owner - The address of the token owner
+ * @param nonce - The nonce to check
+ * @returns A promise that resolves to true if the nonce has been used
+ */
+export async function isPermit2NonceUsed<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined = undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  owner: Address,
+  nonce: bigint,
+): Promise<boolean> {
+  const bitmap = await client.readContract({
+    address: permit2Address,
+    abi: permit2ABI,
+    functionName: "nonceBitmap",
+    args: [owner, nonce >> 8n],
+  });
+  return ((bitmap as bigint) & (1n << (nonce & 0xffn))) !== 0n;
+}
@@ -3,9 +3,11 @@ import {
   computeRoutePatterns,
   findMatchingRoute,
   getDefaultAsset,
+  getRoutePaymentOptions,
   processPriceToAtomicAmount,
 } from "./middleware";
 import type { RoutesConfig, Network } from "../types";
+import { builtInNetworks } from "../types/shared/builtInNetworks";
 
 describe("computeRoutePatterns", () => {
   it("should handle simple string price routes", () => {
@@ -35,6 +37,21 @@ describe("computeRoutePatterns", () => {
     });
   });
 
+  it("should handle bare prices in a currency", () => {
+    const patterns = computeRoutePatterns({ "/api/test": { amount: "0.10", currency: "EURC" } });
+
+    expect(patterns[0].config).toEqual({
+      price: { amount: "0.10", currency: "EURC" },
+      network: "base-sepolia",
+    });
+  });
+
+  it("should reject routes without payment options", () => {
+    expect(() => computeRoutePatterns({ "/api/test": { accepts: [] } })).toThrow(
+      "No payment options for route pattern: /api/test",
+    );
+  });
+
   it("should handle routes with HTTP verbs", () => {
     const routes: RoutesConfig = {
       "GET /api/test": "$0.01",
@@ -290,6 +307,21 @@ describe("findMatchingRoute", () => {
   });
 });
 
+describe("getRoutePaymentOptions", () => {
+  it("should list one payment option per network", () => {
+    expect(getRoutePaymentOptions({ price: "$0.01", network: ["base", "solana"] })).toEqual([
+      { network: "base", price: "$0.01" },
+      { network: "solana", price: "$0.01" },
+    ]);
+  });
+
+  it("should list the configured payment options", () => {
+    const accepts = [{ network: "base" as const, price: "$0.01", payTo: "0xabc", scheme: "upto" }];
+
+    expect(getRoutePaymentOptions({ accepts })).toEqual(accepts);
+  });
+});
+
 describe("getDefaultAsset", () => {
   it("should return Base USDC asset details", () => {
     const result = getDefaultAsset("base");
@@ -370,6 +402,20 @@ describe("getDefaultAsset", () => {
   it("should handle unknown networks", () => {
     expect(() => getDefaultAsset("unknown" as Network)).toThrow("Unsupported network: unknown");
   });
+
+  it("should resolve every stablecoin of the built-in EVM networks", () => {
+    for (const { network, family, stablecoins } of builtInNetworks) {
+      if (family !== "evm") {
+        continue;
+      }
+      for (const { symbol, address } of stablecoins) {
+        expect(getDefaultAsset(network, symbol)).toMatchObject({
+          address,
+          eip712: expect.any(Object),
+        });
+      }
+    }
+  });
 });
 
 describe("processPriceToAtomicAmount", () => {
@@ -436,6 +482,44 @@ describe("processPriceToAtomicAmount", () => {
     });
   });
 
+  it("should resolve euro prices to EURC", () => {
+    const eurc = {
+      address: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42",
+      decimals: 6,
+      eip712: { name: "EURC", version: "2" },
+    };
+
+    expect(processPriceToAtomicAmount("€0.10", "base")).toEqual({
+      maxAmountRequired: "100000",
+      asset: eurc,
+    });
+    expect(processPriceToAtomicAmount("0.10 EURC", "base")).toEqual({
+      maxAmountRequired: "100000",
+      asset: eurc,
+    });
+    expect(processPriceToAtomicAmount({ amount: "0.10", currency: "eurc" }, "base")).toEqual({
+      maxAmountRequired: "100000",
+      asset: eurc,
+    });
+  });
+
+  it("should resolve prices in a currency to SPL tokens", () => {
+    const result = processPriceToAtomicAmount({ amount: 1.5, currency: "PYUSD" }, "solana");
+    expect(result).toEqual({
+      maxAmountRequired: "1500000",
+      asset: { address: "2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo", decimals: 6 },
+    });
+  });
+
+  it("should reject currencies that are not in the network's catalog", () => {
+    expect(processPriceToAtomicAmount("€0.10", "sei")).toEqual({
+      error: "Unable to get EURC on sei",
+    });
+    expect(processPriceToAtomicAmount({ amount: "0.10", currency: "USDT" }, "polygon")).toEqual({
+      error: "Unable to get USDT on polygon",
+    });
+  });
+
   it("should handle zero price", () => {
     const result = processPriceToAtomicAmount("$0", "base-sepolia");
     expect(result).toEqual({
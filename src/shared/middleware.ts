@@ -1,19 +1,20 @@
-import { Address, Hex } from "viem";
+import { Address, Hex, parseUnits } from "viem";
 import {
-  moneySchema,
+  moneyWithCurrencySchema,
   Network,
   Price,
   RouteConfig,
   RoutePattern,
   ERC20TokenAmount,
   PaymentRequirements,
+  PaymentRequirementsV2,
+  PaymentOption,
   PaymentPayload,
   SPLTokenAmount,
+  getNetworkRegistry,
 } from "../types";
 import { RoutesConfig } from "../types";
 import { safeBase64Decode } from "./base64";
-import { getUsdcChainConfigForChain } from "./evm";
-import { getNetworkId } from "./network";
 
 /**
  * Computes the route patterns for the given routes config
@@ -25,9 +26,9 @@ export function computeRoutePatterns(routes: RoutesConfig): RoutePattern[] {
   const normalizedRoutes = Object.fromEntries(
     Object.entries(routes).map(([pattern, value]) => [
       pattern,
-      typeof value === "string" || typeof value === "number"
-        ? ({ price: value, network: "base-sepolia" } as RouteConfig)
-        : (value as RouteConfig),
+      typeof value === "object" && ("price" in value || "accepts" in value)
+        ? (value as RouteConfig)
+        : ({ price: value, network: "base-sepolia" } as RouteConfig),
     ]),
   );
 
@@ -37,6 +38,9 @@ export function computeRoutePatterns(routes: RoutesConfig): RoutePattern[] {
     if (!path) {
       throw new Error(`Invalid route pattern: ${pattern}`);
     }
+    if (getRoutePaymentOptions(routeConfig).length === 0) {
+      throw new Error(`No payment options for route pattern: ${pattern}`);
+    }
     return {
       verb: verb.toUpperCase(),
       pattern: new RegExp(
@@ -56,6 +60,20 @@ export function computeRoutePatterns(routes: RoutesConfig): RoutePattern[] {
   });
 }
 
+/**
+ * Lists the ways of paying for a route, one per network for routes priced on several networks
+ *
+ * @param routeConfig - The payment configuration of the route
+ * @returns The payment options of the route, in order of preference
+ */
+export function getRoutePaymentOptions(routeConfig: RouteConfig): PaymentOption[] {
+  if (routeConfig.accepts) {
+    return routeConfig.accepts;
+  }
+  const networks = Array.isArray(routeConfig.network) ? routeConfig.network : [routeConfig.network];
+  return networks.map(network => ({ network, price: routeConfig.price }));
+}
+
 /**
  * Finds the matching route pattern for the given path and method
  *
@@ -116,24 +134,36 @@ export function findMatchingRoute(
 }
 
 /**
- * Gets the default asset (USDC) for the given network
+ * Gets the default asset for the given network from its asset catalog
  *
  * @param network - The network to get the default asset for
+ * @param currency - The symbol of the stablecoin to use, e.g. "EURC". Defaults to the first
+ * stablecoin of the network, which is usually USDC.
  * @returns The default asset
+ * @throws Error if the network is not supported or has no stablecoin that can be paid with
  */
-export function getDefaultAsset(network: Network) {
-  const chainId = getNetworkId(network);
-  const usdc = getUsdcChainConfigForChain(chainId);
-  if (!usdc) {
-    throw new Error(`Unable to get default asset on ${network}`);
+export function getDefaultAsset(
+  network: Network,
+  currency?: string,
+): ERC20TokenAmount["asset"] | SPLTokenAmount["asset"] {
+  const definition = getNetworkRegistry().get(network);
+  if (!definition) {
+    throw new Error(`Unsupported network: ${network}`);
+  }
+  const stablecoin = currency
+    ? definition.stablecoins.find(stablecoin => stablecoin.symbol === currency)
+    : definition.stablecoins[0];
+  if (!stablecoin) {
+    throw new Error(`Unable to get ${currency ?? "default asset"} on ${network}`);
+  }
+  // EVM assets are paid with EIP-3009 authorizations, which are signed over the EIP-712 domain
+  if (definition.family === "evm" && !stablecoin.eip712) {
+    throw new Error(`Unable to pay with ${stablecoin.symbol} on ${network}`);
   }
   return {
-    address: usdc.usdcAddress,
-    decimals: 6,
-    eip712: {
-      name: usdc.usdcName,
-      version: "2",
-    },
+    address: stablecoin.address as Address,
+    decimals: stablecoin.decimals,
+    ...(stablecoin.eip712 ? { eip712: { ...stablecoin.eip712 } } : {}),
   };
 }
 
@@ -150,21 +180,25 @@ export function processPriceToAtomicAmount(
 ):
   | { maxAmountRequired: string; asset: ERC20TokenAmount["asset"] | SPLTokenAmount["asset"] }
   | { error: string } {
-  // Handle USDC amount (string) or token amount (ERC20TokenAmount)
+  // Handle money (string, number or amount with currency) or token amount (ERC20TokenAmount)
   let maxAmountRequired: string;
   let asset: ERC20TokenAmount["asset"] | SPLTokenAmount["asset"];
 
-  if (typeof price === "string" || typeof price === "number") {
-    // USDC amount in dollars
-    const parsedAmount = moneySchema.safeParse(price);
+  if (typeof price === "string" || typeof price === "number" || "currency" in price) {
+    // Money in whole units of a stablecoin from the asset catalog
+    const parsedAmount = moneyWithCurrencySchema.safeParse(price);
     if (!parsedAmount.success) {
       return {
-        error: `Invalid price (price: ${price}). Must be in the form "$3.10", 0.10, "0.001", ${parsedAmount.error}`,
+        error: `Invalid price (price: ${JSON.stringify(price)}). Must be in the form "$3.10", 0.10, "0.001", "€0.10" or { amount: "0.10", currency: "EURC" }, ${parsedAmount.error}`,
       };
     }
-    const parsedUsdAmount = parsedAmount.data;
-    asset = getDefaultAsset(network);
-    maxAmountRequired = (parsedUsdAmount * 10 ** asset.decimals).toString();
+    const { amount, currency } = parsedAmount.data;
+    try {
+      asset = getDefaultAsset(network, currency);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+    maxAmountRequired = parseUnits(amount.toString(), asset.decimals).toString();
   } else {
     // Token amount in atomic units
     maxAmountRequired = price.amount;
@@ -177,20 +211,46 @@ export function processPriceToAtomicAmount(
   };
 }
 
+/**
+ * Filters the payment requirements a payment may pay. A version 1 payment only names its scheme
+ * and network, so several requirements match it when a route accepts several assets or payees on
+ * one network; a version 2 payment names the requirements it accepted.
+ *
+ * @param paymentRequirements - The payment requirements to search through
+ * @param payment - The payment to match against
+ * @param accepted - The requirements accepted by a version 2 payment
+ * @returns The matching payment requirements, in order of preference
+ */
+export function filterMatchingPaymentRequirements(
+  paymentRequirements: PaymentRequirements[],
+  payment: PaymentPayload,
+  accepted?: PaymentRequirementsV2,
+): PaymentRequirements[] {
+  return paymentRequirements.filter(
+    value =>
+      value.scheme === payment.scheme &&
+      value.network === payment.network &&
+      (!accepted ||
+        (value.asset === accepted.asset &&
+          value.payTo === accepted.payTo &&
+          value.maxAmountRequired === accepted.amount)),
+  );
+}
+
 /**
  * Finds the matching payment requirements for the given payment
  *
  * @param paymentRequirements - The payment requirements to search through
  * @param payment - The payment to match against
- * @returns The matching payment requirements or undefined if no match is found
+ * @param accepted - The requirements accepted by a version 2 payment
+ * @returns The first matching payment requirements or undefined if no match is found
  */
 export function findMatchingPaymentRequirements(
   paymentRequirements: PaymentRequirements[],
   payment: PaymentPayload,
+  accepted?: PaymentRequirementsV2,
 ) {
-  return paymentRequirements.find(
-    value => value.scheme === payment.scheme && value.network === payment.network,
-  );
+  return filterMatchingPaymentRequirements(paymentRequirements, payment, accepted)[0];
 }
 
 /**
@@ -1,18 +1,17 @@
-import { EvmNetworkToChainId, Network, SvmNetworkToChainId } from "../types/shared";
+import { Caip2ChainId, getNetworkRegistry, Network, resolveNetwork } from "../types/shared";
 
 /**
- * Converts a network name to its corresponding chain ID
+ * Converts a network name or CAIP-2 chain id to its corresponding chain ID
  *
- * @param network - The network name to convert to a chain ID
+ * @param networkOrChainId - The network name or CAIP-2 chain id to convert to a chain ID
  * @returns The chain ID for the specified network
  * @throws Error if the network is not supported
  */
-export function getNetworkId(network: Network): number {
-  if (EvmNetworkToChainId.has(network)) {
-    return EvmNetworkToChainId.get(network)!;
+export function getNetworkId(networkOrChainId: Network | Caip2ChainId): number {
+  const network = resolveNetwork(networkOrChainId);
+  const chainId = getNetworkRegistry().get(network)?.chainId;
+  if (chainId === undefined) {
+    throw new Error(`Unsupported network: ${network}`);
   }
-  if (SvmNetworkToChainId.has(network)) {
-    return SvmNetworkToChainId.get(network)!;
-  }
-  throw new Error(`Unsupported network: ${network}`);
+  return chainId;
 }
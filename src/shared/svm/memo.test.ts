@@ -0,0 +1,64 @@
+import { getUtf8Encoder } from "@solana/kit";
+import { sha256, stringToBytes } from "viem";
+import { describe, expect, it } from "vitest";
+import {
+  createResourceMemo,
+  getResourceMemoInstruction,
+  isResourceMemo,
+  isResourceMemoFor,
+  MEMO_PROGRAM_ADDRESS,
+} from "./memo";
+
+const resource = "https://api.example.com/weather";
+const encode = (memo: string) => getUtf8Encoder().encode(memo);
+
+describe("createResourceMemo", () => {
+  it("should hash the resource with the client nonce", () => {
+    const hash = sha256(stringToBytes(`${resource}:00112233`)).slice(2);
+
+    expect(createResourceMemo(resource, "00112233")).toBe(`x402:00112233:${hash}`);
+  });
+
+  it("should use a random 16-byte nonce by default", () => {
+    const memo = createResourceMemo(resource);
+
+    expect(memo).toMatch(/^x402:[0-9a-f]{32}:[0-9a-f]{64}$/);
+    expect(createResourceMemo(resource)).not.toBe(memo);
+  });
+});
+
+describe("getResourceMemoInstruction", () => {
+  it("should create a memo instruction without accounts", () => {
+    const instruction = getResourceMemoInstruction(resource);
+
+    expect(instruction.programAddress).toBe(MEMO_PROGRAM_ADDRESS);
+    expect(instruction.accounts).toBeUndefined();
+    expect(isResourceMemoFor(instruction.data, resource)).toBe(true);
+  });
+});
+
+describe("isResourceMemoFor", () => {
+  it("should match resource memos for the same resource only", () => {
+    const memo = encode(createResourceMemo(resource));
+
+    expect(isResourceMemo(memo)).toBe(true);
+    expect(isResourceMemoFor(memo, resource)).toBe(true);
+    expect(isResourceMemoFor(memo, "https://api.example.com/forecast")).toBe(false);
+  });
+
+  it("should not match other memos", () => {
+    expect(isResourceMemo(encode("order-42"))).toBe(false);
+    expect(isResourceMemoFor(encode("order-42"), resource)).toBe(false);
+    expect(isResourceMemoFor(encode("x402:00112233:deadbeef"), resource)).toBe(false);
+    expect(isResourceMemoFor(undefined, resource)).toBe(false);
+  });
+
+  it("should not match resource memos whose nonce is not 16 random bytes", () => {
+    expect(isResourceMemoFor(encode(createResourceMemo(resource, "00112233")), resource)).toBe(
+      false,
+    );
+    expect(
+      isResourceMemoFor(encode(createResourceMemo(resource, "ab".repeat(512))), resource),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  address,
+  getUtf8Decoder,
+  getUtf8Encoder,
+  Instruction,
+  type ReadonlyUint8Array,
+} from "@solana/kit";
+import { sha256, stringToBytes, toHex } from "viem";
+
+// The SPL Memo program, which records its instruction data as UTF-8 in the transaction logs
+export const MEMO_PROGRAM_ADDRESS = address("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
+
+const RESOURCE_MEMO_PREFIX = "x402:";
+// The nonce and hash of a resource memo: 16 and 32 bytes as lowercase hex
+const RESOURCE_MEMO_BODY_REGEX = /^([0-9a-f]{32}):([0-9a-f]{64})$/;
+const RESOURCE_MEMO_LENGTH = RESOURCE_MEMO_PREFIX.length + 32 + 1 + 64;
+
+/**
+ * Hashes a resource together with the client nonce binding a payment to it.
+ *
+ * @param resource - The URL of the resource paid for
+ * @param nonce - The client nonce, a hex string
+ * @returns The SHA-256 hash of the resource and nonce as a hex string without prefix
+ */
+function hashResource(resource: string, nonce: string): string {
+  return sha256(stringToBytes(`${resource}:${nonce}`)).slice(2);
+}
+
+/**
+ * Creates the memo binding a payment transaction to the resource it pays for, in the format
+ * `x402:<nonce>:<sha256(resource:nonce)>`. The random nonce keeps payments for the same
+ * resource distinguishable.
+ *
+ * @param resource - The URL of the resource paid for
+ * @param nonce - The client nonce, a random 16-byte hex string by default
+ * @returns The resource memo
+ */
+export function createResourceMemo(
+  resource: string,
+  nonce: string = toHex(globalThis.crypto.getRandomValues(new Uint8Array(16))).slice(2),
+): string {
+  return `${RESOURCE_MEMO_PREFIX}${nonce}:${hashResource(resource, nonce)}`;
+}
+
+/**
+ * Creates a Memo program instruction binding a payment transaction to the resource it pays for.
+ *
+ * @param resource - The URL of the resource paid for
+ * @returns The memo instruction, without signer accounts
+ */
+export function getResourceMemoInstruction(resource: string): Instruction {
+  return {
+    programAddress: MEMO_PROGRAM_ADDRESS,
+    data: getUtf8Encoder().encode(createResourceMemo(resource)),
+  };
+}
+
+/**
+ * Checks whether memo instruction data is a resource memo, see `createResourceMemo`.
+ *
+ * @param data - The data of a memo instruction
+ * @returns True if the memo binds the payment to a resource
+ */
+export function isResourceMemo(data: ReadonlyUint8Array | undefined): boolean {
+  return !!data && getUtf8Decoder().decode(data).startsWith(RESOURCE_MEMO_PREFIX);
+}
+
+/**
+ * Checks whether memo instruction data is a resource memo for the given resource. The memo must
+ * have the exact format of `createResourceMemo` with a random 16-byte nonce, which bounds its
+ * length.
+ *
+ * @param data - The data of a memo instruction
+ * @param resource - The URL of the resource paid for
+ * @returns True if the memo's hash matches the resource and the memo's nonce
+ */
+export function isResourceMemoFor(data: ReadonlyUint8Array | undefined, resource: string): boolean {
+  if (!data || data.length !== RESOURCE_MEMO_LENGTH || !isResourceMemo(data)) {
+    return false;
+  }
+  const match = getUtf8Decoder()
+    .decode(data)
+    .slice(RESOURCE_MEMO_PREFIX.length)
+    .match(RESOURCE_MEMO_BODY_REGEX);
+  return !!match && match[2] === hashResource(resource, match[1]);
+}
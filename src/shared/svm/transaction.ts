@@ -1,5 +1,9 @@
 import { ExactSvmPayload } from "../../types/verify/x402Specs";
 import {
+  Address,
+  fetchEncodedAccount,
+  getAddressDecoder,
+  Nonce,
   getBase64EncodedWireTransaction,
   getBase64Encoder,
   getTransactionDecoder,
@@ -163,3 +167,23 @@ function mergeTransactionSignatures<TTransaction extends Transaction>(
     }),
   }) as TTransaction;
 }
+
+/**
+ * Fetches the nonce stored in a durable nonce account.
+ *
+ * @param rpc - The RPC client to fetch the nonce account with
+ * @param nonceAccountAddress - The address of the nonce account
+ * @returns The current nonce of the account, or undefined if the account does not exist or is
+ * not an initialized nonce account
+ */
+export async function fetchNonce(
+  rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+  nonceAccountAddress: Address,
+): Promise<Nonce | undefined> {
+  const nonceAccount = await fetchEncodedAccount(rpc, nonceAccountAddress);
+  // nonce accounts store a u32 version and a u32 state, then the authority and the nonce
+  if (!nonceAccount.exists || nonceAccount.data.length < 72 || nonceAccount.data[4] !== 1) {
+    return undefined;
+  }
+  return getAddressDecoder().decode(nonceAccount.data, 40) as string as Nonce;
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { X402Config, SvmConfig } from "./config";
+import { createInMemoryNonceStore } from "../facilitator/nonceStore";
 
 describe("X402Config Types", () => {
   describe("SvmConfig", () => {
@@ -29,6 +30,15 @@ describe("X402Config Types", () => {
       expect(config.svmConfig?.rpcUrl).toBe("https://api.mainnet-beta.solana.com");
     });
 
+    it("should accept X402Config with an evmConfig nonce store", () => {
+      const nonceStore = createInMemoryNonceStore();
+      const config: X402Config = {
+        evmConfig: { nonceStore },
+      };
+
+      expect(config.evmConfig?.nonceStore).toBe(nonceStore);
+    });
+
     it("should accept empty X402Config", () => {
       const config: X402Config = {};
 
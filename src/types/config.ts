@@ -1,3 +1,6 @@
+import type { NonceStore } from "../facilitator/nonceStore";
+import type { SpendingPolicy } from "../client/spendingPolicy";
+
 /**
  * Configuration options for Solana (SVM) RPC connections.
  */
@@ -7,13 +10,116 @@ export interface SvmConfig {
    * If not provided, defaults to public Solana RPC endpoints based on network.
    */
   rpcUrl?: string;
+  /**
+   * Whether clients prepend an idempotent instruction creating the receiver's associated token
+   * account to their payment transactions, paid for by the client:
+   * - "never" requires the account to exist already (default)
+   * - "if-missing" only adds it when the account does not exist yet
+   * - "always" always adds it
+   */
+  createRecipientAta?: "never" | "if-missing" | "always";
+  /**
+   * A durable nonce account the client is the nonce authority of. When set, clients give payment
+   * transactions a durable nonce lifetime instead of a recent blockhash, so they stay valid until
+   * the nonce advances and can be signed offline or queued.
+   */
+  durableNonce?: {
+    /** The address of the nonce account */
+    nonceAccountAddress: string;
+    /** The nonce currently stored in the account. Fetched from the RPC if omitted */
+    nonce?: string;
+  };
+  /**
+   * Whether clients append a memo binding payment transactions to the resource they pay for, a
+   * hash of the resource and a client nonce, so they cannot be replayed for another resource.
+   * Defaults to false
+   */
+  bindResourceMemo?: boolean;
+  /** The policy facilitators verify payment transactions against */
+  facilitatorPolicy?: SvmFacilitatorPolicy;
+  /** How facilitators broadcast and confirm settlement transactions */
+  settlement?: SvmSettlementConfig;
+}
+
+/**
+ * How facilitators broadcast and confirm SVM settlement transactions. The signed transaction is
+ * sent again on an interval until it is confirmed, its blockhash expires or the timeout elapses,
+ * so that transactions dropped under congestion still land. Settlements in the "async" settlement
+ * mode are broadcast once and not sent again.
+ */
+export interface SvmSettlementConfig {
+  /** The commitment settlements are confirmed at. Defaults to "confirmed" */
+  commitment?: "confirmed" | "finalized";
+  /** How long to wait for the confirmation, in milliseconds. Defaults to 60 seconds */
+  timeoutMs?: number;
+  /** How often the transaction is sent again, in milliseconds. Defaults to 2 seconds, 0 disables */
+  rebroadcastIntervalMs?: number;
+}
+
+/**
+ * The rules a facilitator enforces on SVM payment transactions before paying their fees. The
+ * transactions consist of the compute limit and price instructions, an optional instruction
+ * creating the receiver's associated token account, the transfer and optional memos.
+ */
+export interface SvmFacilitatorPolicy {
+  /** The highest compute unit price accepted, in microlamports. Defaults to 5 lamports */
+  maxComputeUnitPrice?: number | bigint;
+  /** The highest compute unit limit accepted. Defaults to no limit */
+  maxComputeUnitLimit?: number;
+  /** Whether and which Memo program instructions are accepted after the transfer */
+  memo?: {
+    /** Whether memo instructions are accepted. Defaults to false */
+    allowed?: boolean;
+    /** The most memo instructions accepted. Defaults to 1 */
+    maxInstructions?: number;
+    /** The longest memo accepted, in bytes. Defaults to 256 */
+    maxLength?: number;
+  };
+  /**
+   * How memos binding the payment to its resource are checked. They are not subject to the memo
+   * rules above unless this is "off":
+   * - "off" treats them like any other memo
+   * - "optional" rejects transactions whose memo is for another resource (default)
+   * - "required" also rejects transactions without such a memo
+   */
+  resourceMemo?: "off" | "optional" | "required";
+  /** The token programs transfers may use. Defaults to the SPL Token and Token-2022 programs */
+  allowedTokenPrograms?: string[];
+  /** The mints transfers may move. Defaults to any mint */
+  allowedMints?: string[];
 }
 
+/**
+ * Configuration options for EVM facilitator operations.
+ */
+export interface EvmConfig {
+  /**
+   * Store used to reserve EIP-3009 nonces from verify until their settlement, so that duplicate
+   * payment headers are rejected before the resource is served twice. Reservations expire with
+   * the authorization and are released when the settlement fails. If not provided, only the
+   * on-chain authorization state is checked. `createFacilitatorServer` defaults to an in-memory store.
+   */
+  nonceStore?: NonceStore;
+}
+
+/**
+ * How the facilitator settles payments:
+ * - "sync" waits for the settlement transaction to be confirmed (default)
+ * - "async" returns a "pending" response with a settlement id as soon as it is broadcast. SVM
+ *   settlement transactions are then broadcast once, without rebroadcasts
+ */
+export type SettlementMode = "sync" | "async";
+
 /**
  * Configuration options for X402 client and facilitator operations.
  */
 export interface X402Config {
   /** Configuration for Solana (SVM) operations */
   svmConfig?: SvmConfig;
-  // Future: evmConfig?: EvmConfig for EVM-specific configurations
+  /** Configuration for EVM operations */
+  evmConfig?: EvmConfig;
+  /** How payments are settled. Defaults to "sync" */
+  settlementMode?: SettlementMode;
+  /** Policy that client payments are checked against before they are signed, and recorded in once they went through */
+  spendingPolicy?: SpendingPolicy;
 }
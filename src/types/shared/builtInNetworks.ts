@@ -0,0 +1,185 @@
+import {
+  abstract,
+  abstractTestnet,
+  avalanche,
+  avalancheFuji,
+  base,
+  baseSepolia,
+  bsc,
+  bscTestnet,
+  eduChain,
+  iotex,
+  peaq,
+  polygon,
+  polygonAmoy,
+  sei,
+  seiTestnet,
+  story,
+} from "viem/chains";
+import type { Chain } from "viem";
+import { skaleBaseSepolia } from "./custom-chains";
+import type { NetworkDefinition, StablecoinDefinition } from "./networkRegistry";
+
+/**
+ * Builds the definition of an EVM network whose default stablecoin is USDC
+ *
+ * @param network - The network name
+ * @param chain - The viem chain of the network
+ * @param testnet - Whether the network is a testnet
+ * @param usdcAddress - The address of the USDC contract
+ * @param usdcName - The EIP-712 domain name of the USDC contract
+ * @param stablecoins - The other stablecoins of the network
+ * @returns The network definition
+ */
+function evmNetwork<TNetwork extends string>(
+  network: TNetwork,
+  chain: Chain,
+  testnet: boolean,
+  usdcAddress: string,
+  usdcName: string,
+  stablecoins: StablecoinDefinition[] = [],
+): NetworkDefinition & { network: TNetwork } {
+  return {
+    network,
+    family: "evm",
+    chainId: chain.id,
+    chain,
+    testnet,
+    stablecoins: [
+      {
+        symbol: "USDC",
+        address: usdcAddress,
+        decimals: 6,
+        eip712: { name: usdcName, version: "2" },
+      },
+      ...stablecoins,
+    ],
+  };
+}
+
+// EVM stablecoins are listed with the EIP-712 domain of their EIP-3009 authorizations, tokens the
+// exact scheme cannot pay with, e.g. USDT on Polygon and Avalanche, are left out.
+// Solana has no chain ids, x402 version 1 uses 101 and 103 and CAIP-2 the genesis hash prefix
+export const builtInNetworks = [
+  evmNetwork(
+    "abstract",
+    abstract,
+    false,
+    "0x84a71ccd554cc1b02749b35d22f684cc8ec987e1",
+    "Bridged USDC",
+  ),
+  evmNetwork(
+    "abstract-testnet",
+    abstractTestnet,
+    true,
+    "0xe4C7fBB0a626ed208021ccabA6Be1566905E2dFc",
+    "Bridged USDC",
+  ),
+  evmNetwork(
+    "base-sepolia",
+    baseSepolia,
+    true,
+    "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    "USDC",
+    [
+      {
+        symbol: "EURC",
+        address: "0x808456652fdb597867f38412077A9182bf77359F",
+        decimals: 6,
+        eip712: { name: "EURC", version: "2" },
+      },
+    ],
+  ),
+  evmNetwork("base", base, false, "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", "USD Coin", [
+    {
+      symbol: "EURC",
+      address: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42",
+      decimals: 6,
+      eip712: { name: "EURC", version: "2" },
+    },
+  ]),
+  evmNetwork(
+    "avalanche-fuji",
+    avalancheFuji,
+    true,
+    "0x5425890298aed601595a70AB815c96711a31Bc65",
+    "USD Coin",
+  ),
+  evmNetwork(
+    "avalanche",
+    avalanche,
+    false,
+    "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E",
+    "USD Coin",
+  ),
+  evmNetwork("iotex", iotex, false, "0xcdf79194c6c285077a58da47641d4dbe51f63542", "Bridged USDC"),
+  {
+    network: "solana-devnet",
+    family: "svm",
+    chainId: 103,
+    caip2ChainId: "solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1",
+    testnet: true,
+    stablecoins: [
+      { symbol: "USDC", address: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU", decimals: 6 },
+    ],
+  },
+  {
+    network: "solana",
+    family: "svm",
+    chainId: 101,
+    caip2ChainId: "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp",
+    testnet: false,
+    stablecoins: [
+      { symbol: "USDC", address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", decimals: 6 },
+      { symbol: "EURC", address: "HzwqbKZw8HxMN6bF2yFZNrht3c2iXXzpKcFu7uBEDKtr", decimals: 6 },
+      { symbol: "USDT", address: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB", decimals: 6 },
+      { symbol: "PYUSD", address: "2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo", decimals: 6 },
+    ],
+  },
+  evmNetwork("sei", sei, false, "0xe15fc38f6d8c56af07bbcbe3baf5708a2bf42392", "USDC"),
+  evmNetwork("sei-testnet", seiTestnet, true, "0x4fcf1784b31630811181f670aea7a7bef803eaed", "USDC"),
+  evmNetwork("polygon", polygon, false, "0x3c499c542cef5e3811e1192ce70d8cc03d5c3359", "USD Coin"),
+  evmNetwork(
+    "polygon-amoy",
+    polygonAmoy,
+    true,
+    "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582",
+    "USDC",
+  ),
+  evmNetwork("peaq", peaq, false, "0xbbA60da06c2c5424f03f7434542280FCAd453d10", "USDC"),
+  evmNetwork("story", story, false, "0xF1815bd50389c46847f0Bda824eC8da914045D14", "Bridged USDC"),
+  evmNetwork(
+    "educhain",
+    eduChain,
+    false,
+    "0x12a272A581feE5577A5dFa371afEB4b2F3a8C2F8",
+    "Bridged USDC (Stargate)",
+  ),
+  evmNetwork(
+    "skale-base-sepolia",
+    skaleBaseSepolia,
+    true,
+    "0x2e08028E3C4c2356572E096d8EF835cD5C6030bD",
+    "Bridged USDC (SKALE Bridge)",
+  ),
+  // Binance-Peg stablecoins do not support EIP-3009, so bsc has no stablecoin the exact scheme
+  // can pay with
+  {
+    network: "bsc",
+    family: "evm",
+    chainId: bsc.id,
+    chain: bsc,
+    testnet: false,
+    stablecoins: [],
+  },
+  {
+    network: "bsc-testnet",
+    family: "evm",
+    chainId: bscTestnet.id,
+    chain: bscTestnet,
+    testnet: true,
+    stablecoins: [],
+  },
+] as const satisfies readonly NetworkDefinition[];
+
+export type BuiltInNetwork = (typeof builtInNetworks)[number]["network"];
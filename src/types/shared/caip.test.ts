@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  Caip10AccountIdSchema,
+  Caip2ChainIdSchema,
+  formatCaip10AccountId,
+  formatCaip2ChainId,
+  fromCaip2Network,
+  isCaip2ChainId,
+  parseCaip10AccountId,
+  parseCaip2ChainId,
+  resolveNetwork,
+  toCaip2Network,
+} from "./caip";
+import { getNetworkId } from "../../shared/network";
+
+describe("CAIP-2 chain ids", () => {
+  it("should parse and format chain ids", () => {
+    expect(parseCaip2ChainId("eip155:8453")).toEqual({ namespace: "eip155", reference: "8453" });
+    expect(formatCaip2ChainId("eip155", 8453)).toBe("eip155:8453");
+    expect(() => parseCaip2ChainId("base")).toThrow("Invalid CAIP-2 chain id: base");
+    expect(() => formatCaip2ChainId("EIP155", "1")).toThrow("Invalid CAIP-2 chain id");
+  });
+
+  it("should tell chain ids from network names", () => {
+    expect(isCaip2ChainId("eip155:8453")).toBe(true);
+    expect(isCaip2ChainId("base")).toBe(false);
+    expect(Caip2ChainIdSchema.safeParse("solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp").success).toBe(
+      true,
+    );
+    expect(Caip2ChainIdSchema.safeParse("solana").success).toBe(false);
+  });
+
+  it("should convert EVM and SVM networks to chain ids and back", () => {
+    expect(toCaip2Network("base")).toBe("eip155:8453");
+    expect(toCaip2Network("solana")).toBe("solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp");
+    expect(fromCaip2Network("eip155:84532")).toBe("base-sepolia");
+    expect(fromCaip2Network("solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1")).toBe("solana-devnet");
+  });
+
+  it("should reject unknown chain ids", () => {
+    expect(() => fromCaip2Network("eip155:1")).toThrow("Unsupported network: eip155:1");
+    expect(() => fromCaip2Network("cosmos:cosmoshub-4")).toThrow("Unsupported network");
+  });
+
+  it("should resolve either form to a network name", () => {
+    expect(resolveNetwork("eip155:43114")).toBe("avalanche");
+    expect(resolveNetwork("avalanche")).toBe("avalanche");
+    expect(getNetworkId("eip155:43114")).toBe(43114);
+    expect(getNetworkId("solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp")).toBe(101);
+  });
+});
+
+describe("CAIP-10 account ids", () => {
+  const address = "0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb";
+
+  it("should parse and format account ids", () => {
+    expect(parseCaip10AccountId(`eip155:8453:${address}`)).toEqual({
+      chainId: "eip155:8453",
+      namespace: "eip155",
+      reference: "8453",
+      address,
+    });
+    expect(formatCaip10AccountId("base", address)).toBe(`eip155:8453:${address}`);
+    expect(formatCaip10AccountId("eip155:8453", address)).toBe(`eip155:8453:${address}`);
+  });
+
+  it("should reject invalid account ids", () => {
+    expect(() => parseCaip10AccountId("eip155:8453")).toThrow("Invalid CAIP-10 account id");
+    expect(() => formatCaip10AccountId("base", "")).toThrow("Invalid CAIP-10 account id");
+    expect(Caip10AccountIdSchema.safeParse(`eip155:8453:${address}`).success).toBe(true);
+  });
+});
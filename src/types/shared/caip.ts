@@ -0,0 +1,154 @@
+import { z } from "zod";
+import type { Network } from "./network";
+import { getNetworkRegistry } from "./networkRegistry";
+
+/**
+ * A CAIP-2 chain id, e.g. "eip155:8453" or "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp"
+ */
+export type Caip2ChainId = `${string}:${string}`;
+
+/**
+ * A CAIP-10 account id, i.e. an address prefixed with its CAIP-2 chain id,
+ * e.g. "eip155:8453:0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb"
+ */
+export type Caip10AccountId = `${Caip2ChainId}:${string}`;
+
+const Caip2ChainIdRegex = /^([-a-z0-9]{3,8}):([-_a-zA-Z0-9]{1,32})$/;
+const Caip10AccountIdRegex = /^([-a-z0-9]{3,8}):([-_a-zA-Z0-9]{1,32}):([-.%a-zA-Z0-9]{1,128})$/;
+
+export const Caip2ChainIdSchema = z
+  .string()
+  .refine((value): value is Caip2ChainId => Caip2ChainIdRegex.test(value), {
+    message: "Invalid CAIP-2 chain id",
+  });
+export const Caip10AccountIdSchema = z
+  .string()
+  .refine((value): value is Caip10AccountId => Caip10AccountIdRegex.test(value), {
+    message: "Invalid CAIP-10 account id",
+  });
+
+/**
+ * Checks whether a value is a CAIP-2 chain id rather than a network name
+ *
+ * @param value - The value to check
+ * @returns True if the value is a CAIP-2 chain id
+ */
+export function isCaip2ChainId(value: string): value is Caip2ChainId {
+  return Caip2ChainIdRegex.test(value);
+}
+
+/**
+ * Parses a CAIP-2 chain id into its namespace and reference
+ *
+ * @param chainId - The CAIP-2 chain id, e.g. "eip155:8453"
+ * @returns The namespace, e.g. "eip155", and reference, e.g. "8453"
+ * @throws Error if the chain id is not a valid CAIP-2 chain id
+ */
+export function parseCaip2ChainId(chainId: string): { namespace: string; reference: string } {
+  const match = Caip2ChainIdRegex.exec(chainId);
+  if (!match) {
+    throw new Error(`Invalid CAIP-2 chain id: ${chainId}`);
+  }
+  return { namespace: match[1], reference: match[2] };
+}
+
+/**
+ * Formats a CAIP-2 chain id from its namespace and reference
+ *
+ * @param namespace - The namespace, e.g. "eip155"
+ * @param reference - The reference within the namespace, e.g. "8453"
+ * @returns The CAIP-2 chain id
+ * @throws Error if the result is not a valid CAIP-2 chain id
+ */
+export function formatCaip2ChainId(namespace: string, reference: string | number): Caip2ChainId {
+  const chainId = `${namespace}:${reference}`;
+  if (!isCaip2ChainId(chainId)) {
+    throw new Error(`Invalid CAIP-2 chain id: ${chainId}`);
+  }
+  return chainId;
+}
+
+/**
+ * Parses a CAIP-10 account id into its chain id and address
+ *
+ * @param accountId - The CAIP-10 account id, e.g. "eip155:8453:0xab16…"
+ * @returns The CAIP-2 chain id, its namespace and reference, and the address
+ * @throws Error if the account id is not a valid CAIP-10 account id
+ */
+export function parseCaip10AccountId(accountId: string): {
+  chainId: Caip2ChainId;
+  namespace: string;
+  reference: string;
+  address: string;
+} {
+  const match = Caip10AccountIdRegex.exec(accountId);
+  if (!match) {
+    throw new Error(`Invalid CAIP-10 account id: ${accountId}`);
+  }
+  return {
+    chainId: `${match[1]}:${match[2]}`,
+    namespace: match[1],
+    reference: match[2],
+    address: match[3],
+  };
+}
+
+/**
+ * Formats a CAIP-10 account id from a chain and an address
+ *
+ * @param chain - The CAIP-2 chain id or network name of the account
+ * @param address - The address of the account on the chain
+ * @returns The CAIP-10 account id
+ * @throws Error if the network is not supported or the result is not a valid CAIP-10 account id
+ */
+export function formatCaip10AccountId(
+  chain: Network | Caip2ChainId,
+  address: string,
+): Caip10AccountId {
+  const accountId = `${isCaip2ChainId(chain) ? chain : toCaip2Network(chain)}:${address}`;
+  if (!Caip10AccountIdRegex.test(accountId)) {
+    throw new Error(`Invalid CAIP-10 account id: ${accountId}`);
+  }
+  return accountId as Caip10AccountId;
+}
+
+/**
+ * Converts a network name to its CAIP-2 chain id, as used by x402 version 2
+ *
+ * @param network - The network name to convert
+ * @returns The CAIP-2 chain id, e.g. "eip155:8453"
+ * @throws Error if the network is not supported
+ */
+export function toCaip2Network(network: Network): Caip2ChainId {
+  const chainId = getNetworkRegistry().get(network)?.caip2ChainId;
+  if (!chainId) {
+    throw new Error(`Unsupported network: ${network}`);
+  }
+  return chainId;
+}
+
+/**
+ * Converts a CAIP-2 chain id, as used by x402 version 2, to its network name
+ *
+ * @param chainId - The CAIP-2 chain id to convert, e.g. "eip155:8453"
+ * @returns The network name
+ * @throws Error if the network is not supported
+ */
+export function fromCaip2Network(chainId: string): Network {
+  const network = getNetworkRegistry().getByCaip2ChainId(chainId)?.network;
+  if (!network) {
+    throw new Error(`Unsupported network: ${chainId}`);
+  }
+  return network;
+}
+
+/**
+ * Resolves a network given either as a network name or as a CAIP-2 chain id
+ *
+ * @param network - The network name or CAIP-2 chain id
+ * @returns The network name
+ * @throws Error if the CAIP-2 chain id is not supported
+ */
+export function resolveNetwork(network: Network | Caip2ChainId): Network {
+  return isCaip2ChainId(network) ? fromCaip2Network(network) : network;
+}
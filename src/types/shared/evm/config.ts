@@ -1,78 +1,20 @@
 import { Address } from "viem";
 import { Address as SolanaAddress } from "@solana/kit";
+import { getNetworkRegistry } from "../networkRegistry";
 
-export const config: Record<string, ChainConfig> = {
-  "84532": {
-    usdcAddress: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-    usdcName: "USDC",
-  },
-  "8453": {
-    usdcAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-    usdcName: "USD Coin",
-  },
-  "43113": {
-    usdcAddress: "0x5425890298aed601595a70AB815c96711a31Bc65",
-    usdcName: "USD Coin",
-  },
-  "43114": {
-    usdcAddress: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E",
-    usdcName: "USD Coin",
-  },
-  "4689": {
-    usdcAddress: "0xcdf79194c6c285077a58da47641d4dbe51f63542",
-    usdcName: "Bridged USDC",
-  },
-  // solana devnet
-  "103": {
-    usdcAddress: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU" as SolanaAddress,
-    usdcName: "USDC",
-  },
-  // solana mainnet
-  "101": {
-    usdcAddress: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v" as SolanaAddress,
-    usdcName: "USDC",
-  },
-  "1328": {
-    usdcAddress: "0x4fcf1784b31630811181f670aea7a7bef803eaed",
-    usdcName: "USDC",
-  },
-  "1329": {
-    usdcAddress: "0xe15fc38f6d8c56af07bbcbe3baf5708a2bf42392",
-    usdcName: "USDC",
-  },
-  "137": {
-    usdcAddress: "0x3c499c542cef5e3811e1192ce70d8cc03d5c3359",
-    usdcName: "USD Coin",
-  },
-  "80002": {
-    usdcAddress: "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582",
-    usdcName: "USDC",
-  },
-  "3338": {
-    usdcAddress: "0xbbA60da06c2c5424f03f7434542280FCAd453d10",
-    usdcName: "USDC",
-  },
-  "2741": {
-    usdcAddress: "0x84a71ccd554cc1b02749b35d22f684cc8ec987e1",
-    usdcName: "Bridged USDC",
-  },
-  "11124": {
-    usdcAddress: "0xe4C7fBB0a626ed208021ccabA6Be1566905E2dFc",
-    usdcName: "Bridged USDC",
-  },
-  "1514": {
-    usdcAddress: "0xF1815bd50389c46847f0Bda824eC8da914045D14",
-    usdcName: "Bridged USDC",
-  },
-  "41923": {
-    usdcAddress: "0x12a272A581feE5577A5dFa371afEB4b2F3a8C2F8",
-    usdcName: "Bridged USDC (Stargate)",
-  },
-  "324705682": {
-    usdcAddress: "0x2e08028E3C4c2356572E096d8EF835cD5C6030bD",
-    usdcName: "Bridged USDC (SKALE Bridge)",
-  },
-};
+// The USDC of every registered network, keyed by chain id. Kept in sync with the network registry.
+// EVM tokens without an EIP-712 domain are left out as they cannot be paid with EIP-3009.
+export const config: Record<string, ChainConfig> = {};
+
+getNetworkRegistry().subscribe(({ family, chainId, stablecoins }) => {
+  const usdc = stablecoins.find(stablecoin => stablecoin.symbol === "USDC");
+  if (usdc && (family === "svm" || usdc.eip712)) {
+    config[chainId.toString()] = {
+      usdcAddress: usdc.address as Address | SolanaAddress,
+      usdcName: usdc.eip712?.name ?? usdc.symbol,
+    };
+  }
+});
 
 export type ChainConfig = {
   usdcAddress: Address | SolanaAddress;
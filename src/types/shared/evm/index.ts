@@ -1,4 +1,6 @@
 export * from "./config";
 export * from "./eip3009";
+export * from "./eip2612";
+export * from "./permit2";
 export * from "./erc20PermitABI";
 export * from "./wallet";
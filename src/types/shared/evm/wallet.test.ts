@@ -92,6 +92,12 @@ describe("createConnectedClient", () => {
     expect(client.transport).toBe("mock-transport");
   });
 
+  it("should create a public client for a CAIP-2 chain id", () => {
+    const client = createConnectedClient("eip155:8453");
+
+    expect(client.chain).toEqual(base);
+  });
+
   it("should throw an error for unsupported network", () => {
     expect(() => createConnectedClient("unsupported-network")).toThrow(
       "Unsupported network: unsupported-network",
@@ -10,24 +10,9 @@ import type {
   PublicClient,
   LocalAccount,
 } from "viem";
-import {
-  baseSepolia,
-  avalancheFuji,
-  base,
-  sei,
-  seiTestnet,
-  polygon,
-  polygonAmoy,
-  peaq,
-  avalanche,
-  iotexTestnet,
-  iotex,
-  abstract,
-  abstractTestnet,
-  story,
-  eduChain,
-} from "viem/chains";
-import { skaleBaseSepolia } from "../custom-chains";
+import { baseSepolia, avalancheFuji } from "viem/chains";
+import { resolveNetwork } from "../caip";
+import { getNetworkRegistry } from "../networkRegistry";
 import { privateKeyToAccount } from "viem/accounts";
 import { Hex } from "viem";
 import { eip712WalletActions } from "viem/zksync";
@@ -192,52 +177,22 @@ export function isAccount<
 }
 
 /**
- * Maps network strings to Chain objects
+ * Gets the Chain object of a network from the network registry
  *
- * @param network - The network string to convert to a Chain object
+ * @param networkOrChainId - The network name or CAIP-2 chain id to convert to a Chain object
  * @returns The corresponding Chain object
+ * @throws Error if the network is not a registered EVM network
  */
-export function getChainFromNetwork(network: string | undefined): Chain {
-  if (!network) {
+export function getChainFromNetwork(networkOrChainId: string | undefined): Chain {
+  if (!networkOrChainId) {
     throw new Error("NETWORK environment variable is not set");
   }
-
-  switch (network) {
-    case "abstract":
-      return abstract;
-    case "abstract-testnet":
-      return abstractTestnet;
-    case "base":
-      return base;
-    case "base-sepolia":
-      return baseSepolia;
-    case "avalanche":
-      return avalanche;
-    case "avalanche-fuji":
-      return avalancheFuji;
-    case "sei":
-      return sei;
-    case "sei-testnet":
-      return seiTestnet;
-    case "polygon":
-      return polygon;
-    case "polygon-amoy":
-      return polygonAmoy;
-    case "peaq":
-      return peaq;
-    case "story":
-      return story;
-    case "educhain":
-      return eduChain;
-    case "iotex":
-      return iotex;
-    case "iotex-testnet":
-      return iotexTestnet;
-    case "skale-base-sepolia":
-      return skaleBaseSepolia;
-    default:
-      throw new Error(`Unsupported network: ${network}`);
+  const network = resolveNetwork(networkOrChainId);
+  const chain = getNetworkRegistry().get(network)?.chain;
+  if (!chain) {
+    throw new Error(`Unsupported network: ${network}`);
   }
+  return chain;
 }
 
 const ZKSTACK_CHAIN_IDS = new Set([
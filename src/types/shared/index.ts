@@ -1,5 +1,8 @@
+export * from "./caip";
 export * from "./money";
 export * from "./network";
+export * from "./networkRegistry";
+export type { BuiltInNetwork } from "./builtInNetworks";
 export * from "./resource";
 export * from "./middleware";
 export * from "./wallet";
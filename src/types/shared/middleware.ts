@@ -1,13 +1,79 @@
-import { CreateHeaders } from "../../verify";
+import { CreateHeaders, FacilitatorCache } from "../../verify";
 import { Money } from "./money";
 import { Network } from "./network";
 import { Resource } from "./resource";
 import { EvmSigner } from "./evm";
 import { HTTPRequestStructure } from "..";
 
+export type FacilitatorOperation = "verify" | "settle" | "settlementStatus" | "supported" | "list";
+
+export type FacilitatorRetryConfig = {
+  /** The number of retries after the first attempt. Defaults to 2 */
+  retries?: number;
+  /** The base delay of the exponential backoff, in milliseconds. Defaults to 100 */
+  minDelayMs?: number;
+  /** The maximum delay between two attempts, in milliseconds. Defaults to 2000 */
+  maxDelayMs?: number;
+};
+
+export type FacilitatorCircuitBreakerConfig = {
+  /** The number of consecutive failures after which the circuit opens. Defaults to 5 */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a probe request is let through, in milliseconds. Defaults to 30000 */
+  resetTimeoutMs?: number;
+};
+
+export type FacilitatorCacheConfig = {
+  /** The store of cached responses. Defaults to an in-memory LRU cache */
+  store?: FacilitatorCache;
+  /** How long responses without Cache-Control max-age stay fresh, in milliseconds. Defaults to 60000 */
+  ttlMs?: number;
+  /**
+   * How long stale responses without Cache-Control stale-while-revalidate are served while
+   * they are revalidated in the background, in milliseconds. Defaults to 0
+   */
+  staleWhileRevalidateMs?: number;
+};
+
 export type FacilitatorConfig = {
   url: Resource;
   createAuthHeaders?: CreateHeaders;
+  /**
+   * The timeout of each facilitator request, in milliseconds, either for every operation or per
+   * operation. Defaults to 90000 for settle and 10000 for the other operations
+   */
+  timeoutMs?: number | Partial<Record<FacilitatorOperation, number>>;
+  /**
+   * Retries of the idempotent operations (every operation but settle) after network errors,
+   * timeouts, 429 and 5xx responses, or false to disable them
+   */
+  retry?: FacilitatorRetryConfig | false;
+  /** Stops calling a failing facilitator for a while, or false to disable it */
+  circuitBreaker?: FacilitatorCircuitBreakerConfig | false;
+  /** Caches the supported and list responses, honouring Cache-Control and ETag, or false to disable it */
+  cache?: FacilitatorCacheConfig | false;
+};
+
+export type RoutedFacilitatorConfig = FacilitatorConfig & {
+  /** The networks routed to this facilitator. Defaults to every network it supports */
+  networks?: Network[];
+  /** The schemes routed to this facilitator. Defaults to every scheme it supports */
+  schemes?: string[];
+  /** The relative share of requests sent to this facilitator with the "weighted" strategy. Defaults to 1 */
+  weight?: number;
+};
+
+export type MultiFacilitatorConfig = {
+  /** The facilitators, in order of preference with the "ordered" strategy */
+  facilitators: RoutedFacilitatorConfig[];
+  /**
+   * How facilitators serving the same network and scheme are picked: "ordered" prefers the first
+   * one, "weighted" picks one at random by weight. The others are only used for failover.
+   * Defaults to "ordered"
+   */
+  strategy?: "ordered" | "weighted";
+  /** How long each facilitator's /supported response is cached, in milliseconds. Defaults to 60000 */
+  supportedCacheTtlMs?: number;
 };
 
 export type PaywallConfig = {
@@ -57,12 +123,34 @@ export interface SPLTokenAmount {
 
 export type Price = Money | ERC20TokenAmount | SPLTokenAmount;
 
-export interface RouteConfig {
-  price: Price;
+/**
+ * One way of paying for a route, advertised as one entry of the 402 response's `accepts`
+ */
+export interface PaymentOption {
   network: Network;
-  config?: PaymentMiddlewareConfig;
+  price: Price;
+  /** The address receiving the payment. Defaults to the server's address */
+  payTo?: string;
+  /** The payment scheme. Defaults to "exact" */
+  scheme?: string;
+  /**
+   * Scheme specific information merged into the payment requirements' `extra`, e.g.
+   * `{ authorizationType: "eip2612" }` to be paid with EIP-2612 permits
+   */
+  extra?: Record<string, unknown>;
 }
 
+/**
+ * The payment configuration of a route: either a price on one or several networks, or a list
+ * of payment options, each with its own network, price, recipient and scheme
+ */
+export type RouteConfig = {
+  config?: PaymentMiddlewareConfig;
+} & (
+  | { price: Price; network: Network | Network[]; accepts?: never }
+  | { accepts: PaymentOption[]; price?: never; network?: never }
+);
+
 export type RoutesConfig = Record<string, Price | RouteConfig>;
 
 export interface RoutePattern {
@@ -4,4 +4,58 @@ export const moneySchema = z
   .union([z.string().transform(x => x.replace(/[^0-9.-]+/g, "")), z.number()])
   .pipe(z.coerce.number().min(0.0001).max(999999999));
 
-export type Money = z.input<typeof moneySchema>;
+// Currency symbols that select a stablecoin other than the network's default asset
+export const currencySymbols: Record<string, string> = {
+  "€": "EURC",
+};
+
+/**
+ * An amount of money in a currency, e.g. `{ amount: "0.10", currency: "EURC" }`
+ */
+export type MoneyWithCurrency = {
+  amount: z.input<typeof moneySchema>;
+  /** The symbol of a stablecoin in the network's asset catalog, e.g. "EURC" */
+  currency: string;
+};
+
+export type Money = z.input<typeof moneySchema> | MoneyWithCurrency;
+
+/**
+ * Gets the currency code of a money string, e.g. "EURC" for "€0.10" or "0.10 EURC"
+ *
+ * @param money - The money string or number
+ * @returns The currency code, or undefined if there is none, e.g. for "$0.10"
+ */
+function getCurrency(money: string | number): string | undefined {
+  if (typeof money === "number") {
+    return undefined;
+  }
+  const code = /[A-Za-z]+/.exec(money)?.[0];
+  if (code) {
+    return code.toUpperCase();
+  }
+  return Object.entries(currencySymbols).find(([symbol]) => money.includes(symbol))?.[1];
+}
+
+// Parses money into an amount and the currency it is in. Dollar amounts have no currency, they
+// are paid in the network's default asset.
+export const moneyWithCurrencySchema = z
+  .union([
+    z.object({
+      amount: z.union([z.string(), z.number()]),
+      currency: z.string().min(1).toUpperCase(),
+    }),
+    z.union([z.string(), z.number()]).transform(money => ({
+      amount: money,
+      currency: getCurrency(money),
+    })),
+  ])
+  .pipe(
+    z.object({
+      amount: moneySchema,
+      currency: z
+        .string()
+        .optional()
+        .transform(currency => (currency === "USD" ? undefined : currency)),
+    }),
+  );
@@ -1,78 +1,39 @@
 import { z } from "zod";
+import type { BuiltInNetwork } from "./builtInNetworks";
+import { getNetworkRegistry } from "./networkRegistry";
 
-export const NetworkSchema = z.enum([
-  "abstract",
-  "abstract-testnet",
-  "base-sepolia",
-  "base",
-  "avalanche-fuji",
-  "avalanche",
-  "iotex",
-  "solana-devnet",
-  "solana",
-  "sei",
-  "sei-testnet",
-  "polygon",
-  "polygon-amoy",
-  "peaq",
-  "story",
-  "educhain",
-  "skale-base-sepolia",
-  "bsc",
-  "bsc-testnet"
-]);
-export type Network = z.infer<typeof NetworkSchema>;
+/**
+ * The name of a network, either one of the built-in networks or one registered at runtime
+ * with `registerNetwork`
+ */
+export type Network = BuiltInNetwork | (string & {});
+
+export const NetworkSchema = z
+  .string()
+  .refine((network): network is Network => getNetworkRegistry().has(network), {
+    message: "Unsupported network",
+  });
+
+// The lookups below are kept in sync with the network registry, so that networks registered
+// at runtime show up in them as well
 
 // evm
-export const SupportedEVMNetworks: Network[] = [
-  "abstract",
-  "abstract-testnet",
-  "base-sepolia",
-  "base",
-  "avalanche-fuji",
-  "avalanche",
-  "iotex",
-  "sei",
-  "sei-testnet",
-  "polygon",
-  "polygon-amoy",
-  "peaq",
-  "story",
-  "educhain",
-  "skale-base-sepolia",
-  "bsc",
-  "bsc-testnet"
-];
-export const EvmNetworkToChainId = new Map<Network, number>([
-  ["abstract", 2741],
-  ["abstract-testnet", 11124],
-  ["base-sepolia", 84532],
-  ["base", 8453],
-  ["avalanche-fuji", 43113],
-  ["avalanche", 43114],
-  ["iotex", 4689],
-  ["sei", 1329],
-  ["sei-testnet", 1328],
-  ["polygon", 137],
-  ["polygon-amoy", 80002],
-  ["peaq", 3338],
-  ["story", 1514],
-  ["educhain", 41923],
-  ["skale-base-sepolia", 324705682],
-  ["bsc", 56],
-  ['bsc-testnet', 97]
-]);
+export const SupportedEVMNetworks: Network[] = [];
+export const EvmNetworkToChainId = new Map<Network, number>();
 
 // svm
-export const SupportedSVMNetworks: Network[] = ["solana-devnet", "solana"];
-export const SvmNetworkToChainId = new Map<Network, number>([
-  ["solana-devnet", 103],
-  ["solana", 101],
-]);
+export const SupportedSVMNetworks: Network[] = [];
+export const SvmNetworkToChainId = new Map<Network, number>();
+
+export const ChainIdToNetwork: Record<number, Network> = {};
 
-export const ChainIdToNetwork = Object.fromEntries(
-  [...SupportedEVMNetworks, ...SupportedSVMNetworks].map(network => [
-    EvmNetworkToChainId.get(network),
-    network,
-  ]),
-) as Record<number, Network>;
+getNetworkRegistry().subscribe(({ network, family, chainId }) => {
+  if (family === "evm") {
+    SupportedEVMNetworks.push(network);
+    EvmNetworkToChainId.set(network, chainId);
+    ChainIdToNetwork[chainId] = network;
+  } else {
+    SupportedSVMNetworks.push(network);
+    SvmNetworkToChainId.set(network, chainId);
+  }
+});
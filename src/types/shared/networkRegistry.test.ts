@@ -0,0 +1,163 @@
+import { defineChain } from "viem";
+import { bsc } from "viem/chains";
+import { describe, expect, it } from "vitest";
+import { getDefaultAsset } from "../../shared/middleware";
+import { getNetworkId } from "../../shared/network";
+import { fromCaip2Network, toCaip2Network } from "./caip";
+import { config } from "./evm/config";
+import { getChainFromNetwork } from "./evm/wallet";
+import {
+  ChainIdToNetwork,
+  NetworkSchema,
+  SupportedEVMNetworks,
+  SupportedSVMNetworks,
+} from "./network";
+import {
+  createNetworkRegistry,
+  getNetworkRegistry,
+  NetworkDefinition,
+  registerNetwork,
+} from "./networkRegistry";
+
+const testChain = defineChain({
+  id: 999_001,
+  name: "Test Chain",
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: { default: { http: ["https://rpc.test-chain.example"] } },
+});
+
+const testNetwork: NetworkDefinition = {
+  network: "test-chain",
+  family: "evm",
+  chainId: testChain.id,
+  chain: testChain,
+  testnet: true,
+  stablecoins: [
+    {
+      symbol: "USDC",
+      address: "0x1111111111111111111111111111111111111111",
+      decimals: 6,
+      eip712: { name: "USD Coin", version: "2" },
+    },
+  ],
+};
+
+describe("createNetworkRegistry", () => {
+  it("should resolve the CAIP-2 chain id of EVM networks", () => {
+    const registry = createNetworkRegistry([testNetwork]);
+
+    expect(registry.get("test-chain")?.caip2ChainId).toBe("eip155:999001");
+    expect(registry.getByChainId(999_001)?.network).toBe("test-chain");
+    expect(registry.getByCaip2ChainId("eip155:999001")?.network).toBe("test-chain");
+    expect(registry.list("svm")).toEqual([]);
+  });
+
+  it("should reject duplicate networks and chain ids", () => {
+    const registry = createNetworkRegistry([testNetwork]);
+
+    expect(() => registry.register(testNetwork)).toThrow(
+      "Network test-chain is already registered",
+    );
+    expect(() => registry.register({ ...testNetwork, network: "other-chain" })).toThrow(
+      "Chain id 999001 is already registered",
+    );
+  });
+
+  it("should reject invalid definitions", () => {
+    const registry = createNetworkRegistry();
+
+    expect(() => registry.register({ ...testNetwork, chain: undefined })).toThrow(
+      "Network test-chain needs a chain with id 999001",
+    );
+    expect(() =>
+      registry.register({
+        network: "test-svm",
+        family: "svm",
+        chainId: 1,
+        testnet: true,
+        stablecoins: [],
+      }),
+    ).toThrow("Network test-svm needs a CAIP-2 chain id");
+  });
+
+  it("should notify subscribers of registered and later networks", () => {
+    const registry = createNetworkRegistry([testNetwork]);
+    const networks: string[] = [];
+
+    const unsubscribe = registry.subscribe(network => networks.push(network.network));
+    registry.register({
+      ...testNetwork,
+      network: "second-chain",
+      chainId: 1,
+      chain: { ...testChain, id: 1 },
+    });
+    unsubscribe();
+    registry.register({
+      ...testNetwork,
+      network: "third-chain",
+      chainId: 2,
+      chain: { ...testChain, id: 2 },
+    });
+
+    expect(networks).toEqual(["test-chain", "second-chain"]);
+  });
+});
+
+describe("default network registry", () => {
+  it("should contain the built-in networks", () => {
+    const registry = getNetworkRegistry();
+
+    expect(registry.get("base")).toMatchObject({ family: "evm", chainId: 8453, testnet: false });
+    expect(registry.get("solana-devnet")).toMatchObject({
+      family: "svm",
+      chainId: 103,
+      testnet: true,
+    });
+    expect(registry.list("evm").map(network => network.network)).toEqual(SupportedEVMNetworks);
+    expect(registry.list("svm").map(network => network.network)).toEqual(SupportedSVMNetworks);
+  });
+
+  it("should resolve the chains of bsc and bsc-testnet", () => {
+    expect(getChainFromNetwork("bsc")).toBe(bsc);
+    expect(getChainFromNetwork("bsc-testnet").id).toBe(97);
+  });
+
+  it("should make networks registered at runtime available to every lookup", () => {
+    expect(NetworkSchema.safeParse("test-chain").success).toBe(false);
+
+    registerNetwork(testNetwork);
+
+    expect(NetworkSchema.safeParse("test-chain").success).toBe(true);
+    expect(SupportedEVMNetworks).toContain("test-chain");
+    expect(ChainIdToNetwork[999_001]).toBe("test-chain");
+    expect(getChainFromNetwork("test-chain")).toBe(testChain);
+    expect(getNetworkId("test-chain")).toBe(999_001);
+    expect(toCaip2Network("test-chain")).toBe("eip155:999001");
+    expect(fromCaip2Network("eip155:999001")).toBe("test-chain");
+    expect(config["999001"]).toEqual({
+      usdcAddress: "0x1111111111111111111111111111111111111111",
+      usdcName: "USD Coin",
+    });
+    expect(getDefaultAsset("test-chain")).toEqual({
+      address: "0x1111111111111111111111111111111111111111",
+      decimals: 6,
+      eip712: { name: "USD Coin", version: "2" },
+    });
+  });
+
+  it("should not resolve EVM stablecoins without an EIP-712 domain", () => {
+    registerNetwork({
+      ...testNetwork,
+      network: "test-chain-without-eip712",
+      chainId: 999_002,
+      chain: { ...testChain, id: 999_002 },
+      stablecoins: [
+        { symbol: "USDT", address: "0x2222222222222222222222222222222222222222", decimals: 6 },
+      ],
+    });
+
+    expect(() => getDefaultAsset("test-chain-without-eip712")).toThrow(
+      "Unable to pay with USDT on test-chain-without-eip712",
+    );
+  });
+});
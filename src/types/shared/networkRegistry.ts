@@ -0,0 +1,194 @@
+import type { Chain } from "viem";
+import { builtInNetworks } from "./builtInNetworks";
+import type { Caip2ChainId } from "./caip";
+
+export type NetworkFamily = "evm" | "svm";
+
+/**
+ * A stablecoin that can be used as the default asset of a network
+ */
+export type StablecoinDefinition = {
+  /** The ticker of the stablecoin, e.g. "USDC" */
+  symbol: string;
+  /** The token contract address or SPL mint */
+  address: string;
+  decimals: number;
+  /** The EIP-712 domain of the token, required to pay with it in the EVM "exact" scheme */
+  eip712?: {
+    name: string;
+    version: string;
+  };
+};
+
+/**
+ * A network that payments can be made on
+ */
+export type NetworkDefinition = {
+  /** The network name used in x402 version 1, e.g. "base" */
+  network: string;
+  family: NetworkFamily;
+  /** The EVM chain id, or for SVM networks the chain id x402 uses for them, e.g. 101 */
+  chainId: number;
+  /** The CAIP-2 chain id, defaults to "eip155:<chainId>" on EVM networks and is required on SVM */
+  caip2ChainId?: Caip2ChainId;
+  /** The viem chain, required on EVM networks */
+  chain?: Chain;
+  testnet: boolean;
+  /** The stablecoins of the network, the first one is the default asset for USD prices */
+  stablecoins: readonly StablecoinDefinition[];
+};
+
+/**
+ * A registered network, with its CAIP-2 chain id resolved
+ */
+export type RegisteredNetwork = NetworkDefinition & { caip2ChainId: Caip2ChainId };
+
+export type NetworkRegistry = {
+  register: (definition: NetworkDefinition) => RegisteredNetwork;
+  get: (network: string) => RegisteredNetwork | undefined;
+  getByChainId: (chainId: number, family?: NetworkFamily) => RegisteredNetwork | undefined;
+  getByCaip2ChainId: (caip2ChainId: string) => RegisteredNetwork | undefined;
+  has: (network: string) => boolean;
+  list: (family?: NetworkFamily) => RegisteredNetwork[];
+  subscribe: (listener: (network: RegisteredNetwork) => void) => () => void;
+};
+
+/**
+ * Creates a network registry
+ *
+ * @param definitions - The networks to register initially
+ * @returns A registry that networks can be registered with
+ */
+export function createNetworkRegistry(
+  definitions: readonly NetworkDefinition[] = [],
+): NetworkRegistry {
+  const networks = new Map<string, RegisteredNetwork>();
+  const listeners = new Set<(network: RegisteredNetwork) => void>();
+
+  /**
+   * Registers a network
+   *
+   * @param definition - The network to register
+   * @returns The registered network
+   * @throws Error if the network or its chain id is already registered, or the definition is invalid
+   */
+  function register(definition: NetworkDefinition): RegisteredNetwork {
+    if (networks.has(definition.network)) {
+      throw new Error(`Network ${definition.network} is already registered`);
+    }
+    if (getByChainId(definition.chainId, definition.family)) {
+      throw new Error(`Chain id ${definition.chainId} is already registered`);
+    }
+    if (definition.family === "evm" && definition.chain?.id !== definition.chainId) {
+      throw new Error(`Network ${definition.network} needs a chain with id ${definition.chainId}`);
+    }
+    const caip2ChainId =
+      definition.caip2ChainId ??
+      (definition.family === "evm" ? (`eip155:${definition.chainId}` as const) : undefined);
+    if (!caip2ChainId) {
+      throw new Error(`Network ${definition.network} needs a CAIP-2 chain id`);
+    }
+    if (getByCaip2ChainId(caip2ChainId)) {
+      throw new Error(`CAIP-2 chain id ${caip2ChainId} is already registered`);
+    }
+
+    const network = { ...definition, caip2ChainId };
+    networks.set(network.network, network);
+    listeners.forEach(listener => listener(network));
+    return network;
+  }
+
+  /**
+   * Gets a registered network by name
+   *
+   * @param network - The network name, e.g. "base"
+   * @returns The registered network or undefined if it is not registered
+   */
+  function get(network: string): RegisteredNetwork | undefined {
+    return networks.get(network);
+  }
+
+  /**
+   * Gets a registered network by chain id
+   *
+   * @param chainId - The chain id, e.g. 8453
+   * @param family - The family of the network, to tell EVM chain ids from the SVM ones
+   * @returns The registered network or undefined if it is not registered
+   */
+  function getByChainId(chainId: number, family?: NetworkFamily): RegisteredNetwork | undefined {
+    return list(family).find(network => network.chainId === chainId);
+  }
+
+  /**
+   * Gets a registered network by CAIP-2 chain id
+   *
+   * @param caip2ChainId - The CAIP-2 chain id, e.g. "eip155:8453"
+   * @returns The registered network or undefined if it is not registered
+   */
+  function getByCaip2ChainId(caip2ChainId: string): RegisteredNetwork | undefined {
+    return list().find(network => network.caip2ChainId === caip2ChainId);
+  }
+
+  /**
+   * Checks whether a network is registered
+   *
+   * @param network - The network name
+   * @returns True if the network is registered
+   */
+  function has(network: string): boolean {
+    return networks.has(network);
+  }
+
+  /**
+   * Lists the registered networks in registration order
+   *
+   * @param family - Only list the networks of this family
+   * @returns The registered networks
+   */
+  function list(family?: NetworkFamily): RegisteredNetwork[] {
+    return [...networks.values()].filter(network => !family || network.family === family);
+  }
+
+  /**
+   * Calls a listener with every registered network and every network registered later
+   *
+   * @param listener - The listener to call
+   * @returns A function that unsubscribes the listener
+   */
+  function subscribe(listener: (network: RegisteredNetwork) => void): () => void {
+    networks.forEach(network => listener(network));
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  definitions.forEach(register);
+
+  return { register, get, getByChainId, getByCaip2ChainId, has, list, subscribe };
+}
+
+let defaultNetworkRegistry: NetworkRegistry | null = null;
+
+/**
+ * Gets the default network registry, with the built-in networks registered
+ *
+ * @returns The default network registry
+ */
+export function getNetworkRegistry(): NetworkRegistry {
+  if (defaultNetworkRegistry === null) {
+    defaultNetworkRegistry = createNetworkRegistry(builtInNetworks);
+  }
+  return defaultNetworkRegistry;
+}
+
+/**
+ * Registers a network with the default network registry, which makes it available to every
+ * lookup of the library, e.g. `NetworkSchema`, `getChainFromNetwork` and `getDefaultAsset`
+ *
+ * @param definition - The network to register
+ * @returns The registered network
+ */
+export function registerNetwork(definition: NetworkDefinition): RegisteredNetwork {
+  return getNetworkRegistry().register(definition);
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  decodePaymentRequiredHeader,
+  decodePaymentResponseHeader,
+  encodePaymentRequiredHeader,
+  encodePaymentResponseHeader,
+  paymentPayloadFromV2,
+  paymentPayloadToV2,
+  paymentRequiredFromV2,
+  paymentRequiredToV2,
+  paymentRequirementsFromV2,
+  paymentRequirementsToV2,
+  resourceInfoFromPaymentRequirements,
+} from "./versions";
+import { PaymentPayload, PaymentRequirements } from "./x402Specs";
+
+const paymentRequirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base",
+  maxAmountRequired: "10000",
+  resource: "https://api.example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: "0x1234567890123456789012345678901234567890",
+  maxTimeoutSeconds: 60,
+  asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  extra: { name: "USD Coin", version: "2" },
+};
+
+const paymentPayload: PaymentPayload = {
+  x402Version: 2,
+  scheme: "exact",
+  network: "base",
+  payload: {
+    signature: "0x1234567890123456789012345678901234567890123456789012345678901234",
+    authorization: {
+      from: "0xabcdef1234567890123456789012345678901234",
+      to: "0x1234567890123456789012345678901234567890",
+      value: "10000",
+      validAfter: "1740672089",
+      validBefore: "1740672154",
+      nonce: "0x1234567890123456789012345678901234567890123456789012345678901234",
+    },
+  },
+};
+
+describe("x402 version converters", () => {
+  it("should move the resource out of version 2 payment requirements", () => {
+    expect(paymentRequirementsToV2(paymentRequirements)).toEqual({
+      scheme: "exact",
+      network: "eip155:8453",
+      amount: "10000",
+      asset: paymentRequirements.asset,
+      payTo: paymentRequirements.payTo,
+      maxTimeoutSeconds: 60,
+      extra: { name: "USD Coin", version: "2" },
+    });
+    expect(resourceInfoFromPaymentRequirements(paymentRequirements)).toEqual({
+      url: paymentRequirements.resource,
+      description: "Test resource",
+      mimeType: "application/json",
+    });
+  });
+
+  it("should convert payment requirements to version 2 and back without loss", () => {
+    const converted = paymentRequirementsFromV2(
+      paymentRequirementsToV2(paymentRequirements),
+      resourceInfoFromPaymentRequirements(paymentRequirements),
+    );
+
+    expect(converted).toEqual(paymentRequirements);
+  });
+
+  it("should round trip the PAYMENT-REQUIRED header", () => {
+    const header = encodePaymentRequiredHeader(
+      paymentRequiredToV2([paymentRequirements], "payment required"),
+    );
+    const paymentRequired = decodePaymentRequiredHeader(header);
+
+    expect(paymentRequired).toMatchObject({ x402Version: 2, error: "payment required" });
+    expect(paymentRequiredFromV2(paymentRequired)).toEqual([paymentRequirements]);
+  });
+
+  it("should drop version 2 requirements on unsupported networks", () => {
+    const paymentRequired = paymentRequiredToV2([paymentRequirements]);
+    paymentRequired.accepts.push({ ...paymentRequired.accepts[0], network: "eip155:1" });
+
+    expect(paymentRequiredFromV2(paymentRequired)).toEqual([paymentRequirements]);
+  });
+
+  it("should convert payment payloads to version 2 and back", () => {
+    const converted = paymentPayloadToV2(paymentPayload, paymentRequirements);
+
+    expect(converted).toEqual({
+      x402Version: 2,
+      resource: resourceInfoFromPaymentRequirements(paymentRequirements),
+      accepted: paymentRequirementsToV2(paymentRequirements),
+      payload: paymentPayload.payload,
+    });
+    expect(paymentPayloadFromV2(converted)).toEqual({ ...paymentPayload, x402Version: 1 });
+  });
+
+  it("should round trip the PAYMENT-RESPONSE header with a CAIP-2 network", () => {
+    const settlement = {
+      success: true,
+      transaction: "0x1234567890123456789012345678901234567890",
+      network: "base" as const,
+    };
+    const header = encodePaymentResponseHeader(settlement);
+
+    expect(JSON.parse(atob(header)).network).toBe("eip155:8453");
+    expect(decodePaymentResponseHeader(header)).toEqual(settlement);
+  });
+});
@@ -0,0 +1,252 @@
+import { safeBase64Decode, safeBase64Encode } from "../../shared";
+import { fromCaip2Network, toCaip2Network } from "../shared";
+import {
+  PaymentPayload,
+  PaymentPayloadSchema,
+  PaymentPayloadV2,
+  PaymentPayloadV2Schema,
+  PaymentRequiredV2,
+  PaymentRequiredV2Schema,
+  PaymentRequirements,
+  PaymentRequirementsV2,
+  ResourceInfo,
+  SettleResponse,
+  SettleResponseSchema,
+  SettleResponseV2,
+  SettleResponseV2Schema,
+} from "./x402Specs";
+
+/**
+ * The HTTP headers carrying payments in each version of the protocol. Version 1 sends the
+ * payment requirements in the 402 response body, version 2 in the PAYMENT-REQUIRED header.
+ */
+export const x402Headers = {
+  1: { payment: "X-PAYMENT", paymentResponse: "X-PAYMENT-RESPONSE" },
+  2: {
+    paymentRequired: "PAYMENT-REQUIRED",
+    payment: "PAYMENT-SIGNATURE",
+    paymentResponse: "PAYMENT-RESPONSE",
+  },
+} as const;
+
+/**
+ * Gets the version 2 resource description of payment requirements
+ *
+ * @param paymentRequirements - The version 1 payment requirements
+ * @returns The resource the requirements pay for
+ */
+export function resourceInfoFromPaymentRequirements(
+  paymentRequirements: PaymentRequirements,
+): ResourceInfo {
+  return {
+    url: paymentRequirements.resource,
+    description: paymentRequirements.description,
+    mimeType: paymentRequirements.mimeType,
+    ...(paymentRequirements.outputSchema ? { outputSchema: paymentRequirements.outputSchema } : {}),
+  };
+}
+
+/**
+ * Converts version 1 payment requirements to version 2
+ *
+ * @param paymentRequirements - The version 1 payment requirements
+ * @returns The version 2 payment requirements, without the resource
+ */
+export function paymentRequirementsToV2(
+  paymentRequirements: PaymentRequirements,
+): PaymentRequirementsV2 {
+  return {
+    scheme: paymentRequirements.scheme,
+    network: toCaip2Network(paymentRequirements.network),
+    amount: paymentRequirements.maxAmountRequired,
+    asset: paymentRequirements.asset,
+    payTo: paymentRequirements.payTo,
+    maxTimeoutSeconds: paymentRequirements.maxTimeoutSeconds,
+    ...(paymentRequirements.extra ? { extra: paymentRequirements.extra } : {}),
+  };
+}
+
+/**
+ * Converts version 2 payment requirements to version 1
+ *
+ * @param paymentRequirements - The version 2 payment requirements
+ * @param resource - The resource of the envelope the requirements were sent in
+ * @returns The version 1 payment requirements
+ * @throws Error if the network is not supported
+ */
+export function paymentRequirementsFromV2(
+  paymentRequirements: PaymentRequirementsV2,
+  resource: ResourceInfo,
+): PaymentRequirements {
+  return {
+    scheme: paymentRequirements.scheme,
+    network: fromCaip2Network(paymentRequirements.network),
+    maxAmountRequired: paymentRequirements.amount,
+    resource: resource.url,
+    description: resource.description ?? "",
+    mimeType: resource.mimeType ?? "",
+    ...(resource.outputSchema ? { outputSchema: resource.outputSchema } : {}),
+    payTo: paymentRequirements.payTo,
+    maxTimeoutSeconds: paymentRequirements.maxTimeoutSeconds,
+    asset: paymentRequirements.asset,
+    ...(paymentRequirements.extra ? { extra: paymentRequirements.extra } : {}),
+  };
+}
+
+/**
+ * Builds the version 2 payment required envelope of version 1 payment requirements, which
+ * must all be for the same resource
+ *
+ * @param accepts - The version 1 payment requirements
+ * @param error - The reason the payment is required
+ * @returns The version 2 payment required envelope
+ */
+export function paymentRequiredToV2(
+  accepts: PaymentRequirements[],
+  error?: string,
+): PaymentRequiredV2 {
+  return {
+    x402Version: 2,
+    ...(error ? { error } : {}),
+    resource: resourceInfoFromPaymentRequirements(accepts[0]),
+    accepts: accepts.map(paymentRequirementsToV2),
+  };
+}
+
+/**
+ * Converts a version 2 payment required envelope to version 1 payment requirements, dropping
+ * the requirements on networks that are not supported
+ *
+ * @param paymentRequired - The version 2 payment required envelope
+ * @returns The version 1 payment requirements
+ */
+export function paymentRequiredFromV2(paymentRequired: PaymentRequiredV2): PaymentRequirements[] {
+  return paymentRequired.accepts.flatMap(paymentRequirements => {
+    try {
+      return [paymentRequirementsFromV2(paymentRequirements, paymentRequired.resource)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Converts a payment payload to version 2
+ *
+ * @param paymentPayload - The payment payload, as created by the scheme implementation
+ * @param paymentRequirements - The version 1 payment requirements the payload pays
+ * @returns The version 2 payment payload
+ */
+export function paymentPayloadToV2(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): PaymentPayloadV2 {
+  return {
+    x402Version: 2,
+    resource: resourceInfoFromPaymentRequirements(paymentRequirements),
+    accepted: paymentRequirementsToV2(paymentRequirements),
+    payload: paymentPayload.payload,
+  };
+}
+
+/**
+ * Converts a version 2 payment payload to version 1, the payment payload verified by
+ * facilitators. The accepted requirements are not part of a version 1 payload, match them
+ * with `paymentRequirementsFromV2` instead.
+ *
+ * @param paymentPayload - The version 2 payment payload
+ * @returns The version 1 payment payload
+ * @throws Error if the network is not supported or the payload is invalid for the scheme
+ */
+export function paymentPayloadFromV2(paymentPayload: PaymentPayloadV2): PaymentPayload {
+  return PaymentPayloadSchema.parse({
+    x402Version: 1,
+    scheme: paymentPayload.accepted.scheme,
+    network: fromCaip2Network(paymentPayload.accepted.network),
+    payload: paymentPayload.payload,
+  });
+}
+
+/**
+ * Converts a settlement response to version 2
+ *
+ * @param response - The settlement response
+ * @returns The version 2 settlement response
+ */
+export function settleResponseToV2(response: SettleResponse): SettleResponseV2 {
+  return { ...response, network: toCaip2Network(response.network) };
+}
+
+/**
+ * Converts a version 2 settlement response to version 1
+ *
+ * @param response - The version 2 settlement response
+ * @returns The settlement response
+ * @throws Error if the network is not supported
+ */
+export function settleResponseFromV2(response: SettleResponseV2): SettleResponse {
+  return SettleResponseSchema.parse({ ...response, network: fromCaip2Network(response.network) });
+}
+
+/**
+ * Encodes a version 2 payment required envelope into a PAYMENT-REQUIRED header
+ *
+ * @param paymentRequired - The version 2 payment required envelope
+ * @returns The base64 encoded header value
+ */
+export function encodePaymentRequiredHeader(paymentRequired: PaymentRequiredV2): string {
+  return safeBase64Encode(JSON.stringify(paymentRequired));
+}
+
+/**
+ * Decodes a PAYMENT-REQUIRED header
+ *
+ * @param header - The base64 encoded header value
+ * @returns The validated version 2 payment required envelope
+ * @throws Error if the header is not a valid payment required envelope
+ */
+export function decodePaymentRequiredHeader(header: string): PaymentRequiredV2 {
+  return PaymentRequiredV2Schema.parse(JSON.parse(safeBase64Decode(header)));
+}
+
+/**
+ * Encodes a version 2 payment payload into a PAYMENT-SIGNATURE header
+ *
+ * @param paymentPayload - The version 2 payment payload
+ * @returns The base64 encoded header value
+ */
+export function encodePaymentSignatureHeader(paymentPayload: PaymentPayloadV2): string {
+  return safeBase64Encode(JSON.stringify(paymentPayload));
+}
+
+/**
+ * Decodes a PAYMENT-SIGNATURE header
+ *
+ * @param header - The base64 encoded header value
+ * @returns The validated version 2 payment payload
+ * @throws Error if the header is not a valid payment payload
+ */
+export function decodePaymentSignatureHeader(header: string): PaymentPayloadV2 {
+  return PaymentPayloadV2Schema.parse(JSON.parse(safeBase64Decode(header)));
+}
+
+/**
+ * Encodes a settlement response into a version 2 PAYMENT-RESPONSE header
+ *
+ * @param response - The settlement response
+ * @returns The base64 encoded header value
+ */
+export function encodePaymentResponseHeader(response: SettleResponse): string {
+  return safeBase64Encode(JSON.stringify(settleResponseToV2(response)));
+}
+
+/**
+ * Decodes a version 2 PAYMENT-RESPONSE header
+ *
+ * @param header - The base64 encoded header value
+ * @returns The settlement response
+ * @throws Error if the header is not a valid settlement response
+ */
+export function decodePaymentResponseHeader(header: string): SettleResponse {
+  return settleResponseFromV2(SettleResponseV2Schema.parse(JSON.parse(safeBase64Decode(header))));
+}
@@ -1,7 +1,8 @@
 import { z } from "zod";
-import { NetworkSchema } from "../shared";
+import { Caip2ChainIdSchema, NetworkSchema } from "../shared";
 import { SvmAddressRegex } from "../shared/svm";
 import { Base64EncodedRegex } from "../../shared/base64";
+import { getSchemeRegistry } from "../../schemes/registry";
 
 // Constants
 const EvmMaxAtomicUnits = 18;
@@ -10,8 +11,14 @@ const MixedAddressRegex = /^0x[a-fA-F0-9]{40}|[A-Za-z0-9][A-Za-z0-9-]{0,34}[A-Za
 const HexEncoded64ByteRegex = /^0x[0-9a-fA-F]{64}$/;
 const EvmSignatureRegex = /^0x[0-9a-fA-F]+$/; // Flexible hex signature validation
 // Enums
-export const schemes = ["exact"] as const;
-export const x402Versions = [1] as const;
+/**
+ * The built-in schemes.
+ *
+ * @deprecated Schemes are registered at runtime, use `getSchemeRegistry().getSchemes()` to list
+ * every registered scheme.
+ */
+export const schemes = ["exact", "upto"] as const;
+export const x402Versions = [1, 2] as const;
 export const ErrorReasons = [
   "insufficient_funds",
   "invalid_exact_evm_payload_authorization_valid_after",
@@ -20,6 +27,23 @@ export const ErrorReasons = [
   "invalid_exact_evm_payload_signature",
   "invalid_exact_evm_payload_undeployed_smart_wallet",
   "invalid_exact_evm_payload_recipient_mismatch",
+  "invalid_exact_evm_payload_nonce_used",
+  "invalid_exact_evm_payload_authorization_type",
+  "invalid_exact_evm_payload_permit_spender_mismatch",
+  "invalid_exact_evm_payload_permit_deadline",
+  "invalid_exact_evm_payload_permit_nonce",
+  "invalid_exact_evm_payload_permit2_allowance",
+  "invalid_exact_evm_payload_permit2_token_mismatch",
+  "invalid_exact_evm_payload_permit2_witness_mismatch",
+  "invalid_upto_evm_payload_signature",
+  "invalid_upto_evm_payload_spender_mismatch",
+  "invalid_upto_evm_payload_permit_deadline",
+  "invalid_upto_evm_payload_permit_nonce",
+  "invalid_upto_evm_payload_permit_value",
+  "invalid_upto_evm_payload_settlement_amount",
+  "invalid_upto_evm_payload_permit2_token_mismatch",
+  "invalid_upto_evm_payload_permit2_witness_mismatch",
+  "invalid_upto_evm_payload_permit2_allowance",
   "invalid_exact_svm_payload_transaction",
   "invalid_exact_svm_payload_transaction_amount_mismatch",
   "invalid_exact_svm_payload_transaction_create_ata_instruction",
@@ -29,15 +53,22 @@ export const ErrorReasons = [
   "invalid_exact_svm_payload_transaction_instructions_length",
   "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction",
   "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction",
+  "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction_too_high",
   "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high",
   "invalid_exact_svm_payload_transaction_instruction_not_spl_token_transfer_checked",
   "invalid_exact_svm_payload_transaction_instruction_not_token_2022_transfer_checked",
   "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
   "invalid_exact_svm_payload_transaction_fee_payer_transferring_funds",
+  "invalid_exact_svm_payload_transaction_memo_instruction_not_allowed",
+  "invalid_exact_svm_payload_transaction_memo_instruction_too_long",
+  "invalid_exact_svm_payload_transaction_resource_memo_mismatch",
+  "invalid_exact_svm_payload_transaction_resource_memo_missing",
+  "invalid_exact_svm_payload_transaction_mint_not_allowed",
   "invalid_exact_svm_payload_transaction_not_a_transfer_instruction",
   "invalid_exact_svm_payload_transaction_receiver_ata_not_found",
   "invalid_exact_svm_payload_transaction_sender_ata_not_found",
   "invalid_exact_svm_payload_transaction_simulation_failed",
+  "invalid_exact_svm_payload_transaction_token_program_not_allowed",
   "invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata",
   "invalid_network",
   "invalid_payload",
@@ -50,7 +81,13 @@ export const ErrorReasons = [
   "invalid_transaction_state",
   "invalid_x402_version",
   "settle_exact_svm_block_height_exceeded",
+  "settle_exact_svm_durable_nonce_invalidated",
   "settle_exact_svm_transaction_confirmation_timed_out",
+  "settle_exact_evm_permit_failed",
+  "settle_exact_evm_permit2_failed",
+  "settle_upto_evm_permit_failed",
+  "settle_upto_evm_transfer_failed",
+  "settle_upto_evm_permit2_failed",
   "unsupported_scheme",
   "unexpected_settle_error",
   "unexpected_verify_error",
@@ -60,6 +97,13 @@ export const ErrorReasons = [
 const isInteger: (value: string) => boolean = value =>
   Number.isInteger(Number(value)) && Number(value) >= 0;
 const hasMaxLength = (maxLength: number) => (value: string) => value.length <= maxLength;
+const isRegisteredScheme = (value: string) => getSchemeRegistry().hasScheme(value);
+
+// Schemes are registered at runtime, see schemes/registry.ts
+export const SchemeSchema = z
+  .string()
+  .refine(isRegisteredScheme, { message: "Unsupported scheme" });
+export type Scheme = z.infer<typeof SchemeSchema>;
 
 // x402PaymentRequirements
 const EvmOrSvmAddress = z.string().regex(EvmAddressRegex).or(z.string().regex(SvmAddressRegex));
@@ -68,7 +112,7 @@ const mixedAddressOrSvmAddress = z
   .regex(MixedAddressRegex)
   .or(z.string().regex(SvmAddressRegex));
 export const PaymentRequirementsSchema = z.object({
-  scheme: z.enum(schemes),
+  scheme: SchemeSchema,
   network: NetworkSchema,
   maxAmountRequired: z.string().refine(isInteger),
   resource: z.string().url(),
@@ -99,19 +143,113 @@ export const ExactEvmPayloadSchema = z.object({
 });
 export type ExactEvmPayload = z.infer<typeof ExactEvmPayloadSchema>;
 
+// x402EvmPermit (EIP-2612)
+export const EvmPermitSchema = z.object({
+  owner: z.string().regex(EvmAddressRegex),
+  spender: z.string().regex(EvmAddressRegex),
+  value: z.string().refine(isInteger).refine(hasMaxLength(EvmMaxAtomicUnits)),
+  nonce: z.string().refine(isInteger),
+  deadline: z.string().refine(isInteger),
+});
+export type EvmPermit = z.infer<typeof EvmPermitSchema>;
+
+// x402ExactEvmPermitPayload, for tokens that implement EIP-2612 but not EIP-3009
+export const ExactEvmPermitPayloadSchema = z.object({
+  signature: z.string().regex(EvmSignatureRegex),
+  permit: EvmPermitSchema,
+});
+export type ExactEvmPermitPayload = z.infer<typeof ExactEvmPermitPayloadSchema>;
+
+// x402EvmPermit2Authorization (Permit2 permitWitnessTransferFrom), the witness binds the transfer to payTo and the resource
+export const EvmPermit2AuthorizationSchema = z.object({
+  from: z.string().regex(EvmAddressRegex),
+  permitted: z.object({
+    token: z.string().regex(EvmAddressRegex),
+    amount: z.string().refine(isInteger).refine(hasMaxLength(EvmMaxAtomicUnits)),
+  }),
+  spender: z.string().regex(EvmAddressRegex),
+  nonce: z.string().refine(isInteger),
+  deadline: z.string().refine(isInteger),
+  witness: z.object({
+    to: z.string().regex(EvmAddressRegex),
+    resource: z.string().url(),
+  }),
+});
+export type EvmPermit2Authorization = z.infer<typeof EvmPermit2AuthorizationSchema>;
+
+// x402ExactEvmPermit2Payload, for any ERC-20 the payer has approved to Permit2
+export const ExactEvmPermit2PayloadSchema = z.object({
+  signature: z.string().regex(EvmSignatureRegex),
+  permit2Authorization: EvmPermit2AuthorizationSchema,
+});
+export type ExactEvmPermit2Payload = z.infer<typeof ExactEvmPermit2PayloadSchema>;
+
+// How the payer authorizes an exact EVM payment, selected through `PaymentRequirements.extra.authorizationType`
+export const ExactEvmAuthorizationTypes = ["eip3009", "eip2612", "permit2"] as const;
+export type ExactEvmAuthorizationType = (typeof ExactEvmAuthorizationTypes)[number];
+
 // x402ExactSvmPayload
 export const ExactSvmPayloadSchema = z.object({
   transaction: z.string().regex(Base64EncodedRegex),
 });
 export type ExactSvmPayload = z.infer<typeof ExactSvmPayloadSchema>;
 
-// x402PaymentPayload
-export const PaymentPayloadSchema = z.object({
-  x402Version: z.number().refine(val => x402Versions.includes(val as 1)),
-  scheme: z.enum(schemes),
-  network: NetworkSchema,
-  payload: z.union([ExactEvmPayloadSchema, ExactSvmPayloadSchema]),
+// x402UptoEvmPayload
+export const UptoEvmPayloadAuthorizationSchema = EvmPermitSchema;
+export type UptoEvmPayloadAuthorization = z.infer<typeof UptoEvmPayloadAuthorizationSchema>;
+
+export const UptoEvmPayloadSchema = z.object({
+  signature: z.string().regex(EvmSignatureRegex),
+  authorization: UptoEvmPayloadAuthorizationSchema,
+});
+export type UptoEvmPayload = z.infer<typeof UptoEvmPayloadSchema>;
+
+// x402UptoEvmPermit2Payload, Permit2 transfers only the settled amount and leaves no allowance behind
+export const UptoEvmPermit2PayloadSchema = z.object({
+  signature: z.string().regex(EvmSignatureRegex),
+  permit2Authorization: EvmPermit2AuthorizationSchema,
 });
+export type UptoEvmPermit2Payload = z.infer<typeof UptoEvmPermit2PayloadSchema>;
+
+// x402PaymentPayload
+export type SchemePayload =
+  | ExactEvmPayload
+  | ExactEvmPermitPayload
+  | ExactEvmPermit2Payload
+  | ExactSvmPayload
+  | UptoEvmPayload
+  | UptoEvmPermit2Payload;
+export const PaymentPayloadSchema = z
+  .object({
+    x402Version: z
+      .number()
+      .refine(val => x402Versions.includes(val as (typeof x402Versions)[number])),
+    scheme: SchemeSchema,
+    network: NetworkSchema,
+    payload: z.record(z.any()),
+  })
+  .transform((value, ctx) => {
+    // the payload shape is owned by the scheme implementation registered for the network
+    const implementation = getSchemeRegistry().get(value.scheme, value.network);
+    if (!implementation) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Scheme ${value.scheme} is not supported on network ${value.network}`,
+        path: ["network"],
+      });
+      return z.NEVER;
+    }
+
+    const result = implementation.payloadSchema.safeParse(value.payload);
+    if (!result.success) {
+      result.error.issues.forEach(issue =>
+        ctx.addIssue({ ...issue, path: ["payload", ...issue.path] }),
+      );
+      return z.NEVER;
+    }
+
+    return { ...value, payload: result.data as SchemePayload };
+  });
 export type PaymentPayload = z.infer<typeof PaymentPayloadSchema>;
 export type UnsignedPaymentPayload = Omit<PaymentPayload, "payload"> & {
   payload: Omit<ExactEvmPayload, "signature"> & { signature: undefined };
@@ -119,13 +257,29 @@ export type UnsignedPaymentPayload = Omit<PaymentPayload, "payload"> & {
 
 // x402 Resource Server Response
 export const x402ResponseSchema = z.object({
-  x402Version: z.number().refine(val => x402Versions.includes(val as 1)),
+  x402Version: z
+    .number()
+    .refine(val => x402Versions.includes(val as (typeof x402Versions)[number])),
   error: z.enum(ErrorReasons).optional(),
   accepts: z.array(PaymentRequirementsSchema).optional(),
   payer: z.string().regex(MixedAddressRegex).optional(),
 });
 export type x402Response = z.infer<typeof x402ResponseSchema>;
 
+// The body of 402 responses as clients receive it. Servers answer with free-text errors such as
+// "X-PAYMENT header is required", and each accepted payment requirement is validated on its own.
+export const x402PaymentRequiredResponseSchema = x402ResponseSchema.extend({
+  error: z.string().optional(),
+  accepts: z.array(z.unknown()).optional(),
+  payer: z.string().optional(),
+});
+export type x402PaymentRequiredResponse = Omit<
+  z.infer<typeof x402PaymentRequiredResponseSchema>,
+  "accepts"
+> & {
+  accepts?: PaymentRequirements[];
+};
+
 // x402RequestStructure
 const HTTPVerbsSchema = z.enum(["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS", "HEAD"]);
 export type HTTPVerbs = z.infer<typeof HTTPVerbsSchema>;
@@ -169,7 +323,9 @@ export type RequestStructure = z.infer<typeof RequestStructureSchema>;
 export const DiscoveredResourceSchema = z.object({
   resource: z.string(),
   type: z.enum(["http"]),
-  x402Version: z.number().refine(val => x402Versions.includes(val as 1)),
+  x402Version: z
+    .number()
+    .refine(val => x402Versions.includes(val as (typeof x402Versions)[number])),
   accepts: z.array(PaymentRequirementsSchema),
   lastUpdated: z.date(),
   metadata: z.record(z.any()).optional(),
@@ -198,6 +354,10 @@ export const VerifyResponseSchema = z.object({
 });
 export type VerifyResponse = z.infer<typeof VerifyResponseSchema>;
 
+// x402SettlementStatus
+export const SettlementStatuses = ["pending", "confirmed", "failed"] as const;
+export type SettlementStatus = (typeof SettlementStatuses)[number];
+
 // x402SettleResponse
 export const SettleResponseSchema = z.object({
   success: z.boolean(),
@@ -205,6 +365,9 @@ export const SettleResponseSchema = z.object({
   payer: EvmOrSvmAddress.optional(),
   transaction: z.string().regex(MixedAddressRegex),
   network: NetworkSchema,
+  // only set by facilitators settling asynchronously, which return "pending" once broadcast
+  status: z.enum(SettlementStatuses).optional(),
+  settlementId: z.string().optional(),
 });
 export type SettleResponse = z.infer<typeof SettleResponseSchema>;
 
@@ -218,7 +381,9 @@ export type ListDiscoveryResourcesRequest = z.infer<typeof ListDiscoveryResource
 
 // x402ListDiscoveryResourcesResponse
 export const ListDiscoveryResourcesResponseSchema = z.object({
-  x402Version: z.number().refine(val => x402Versions.includes(val as 1)),
+  x402Version: z
+    .number()
+    .refine(val => x402Versions.includes(val as (typeof x402Versions)[number])),
   items: z.array(DiscoveredResourceSchema),
   pagination: z.object({
     limit: z.number(),
@@ -230,8 +395,10 @@ export type ListDiscoveryResourcesResponse = z.infer<typeof ListDiscoveryResourc
 
 // x402SupportedPaymentKind
 export const SupportedPaymentKindSchema = z.object({
-  x402Version: z.number().refine(val => x402Versions.includes(val as 1)),
-  scheme: z.enum(schemes),
+  x402Version: z
+    .number()
+    .refine(val => x402Versions.includes(val as (typeof x402Versions)[number])),
+  scheme: SchemeSchema,
   network: NetworkSchema,
   extra: z.record(z.any()).optional(),
 });
@@ -242,3 +409,52 @@ export const SupportedPaymentKindsResponseSchema = z.object({
   kinds: z.array(SupportedPaymentKindSchema),
 });
 export type SupportedPaymentKindsResponse = z.infer<typeof SupportedPaymentKindsResponseSchema>;
+
+// x402 version 2 identifies networks with CAIP-2 ids and moves the resource out of the requirements
+
+// x402ResourceInfo (v2)
+export const ResourceInfoSchema = z.object({
+  url: z.string().url(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+  outputSchema: z.record(z.any()).optional(),
+});
+export type ResourceInfo = z.infer<typeof ResourceInfoSchema>;
+
+// x402PaymentRequirements (v2)
+export const PaymentRequirementsV2Schema = z.object({
+  scheme: SchemeSchema,
+  network: Caip2ChainIdSchema,
+  amount: z.string().refine(isInteger),
+  asset: mixedAddressOrSvmAddress,
+  payTo: EvmOrSvmAddress,
+  maxTimeoutSeconds: z.number().int(),
+  extra: z.record(z.any()).optional(),
+});
+export type PaymentRequirementsV2 = z.infer<typeof PaymentRequirementsV2Schema>;
+
+// x402PaymentRequired (v2), sent base64 encoded in the PAYMENT-REQUIRED header
+export const PaymentRequiredV2Schema = z.object({
+  x402Version: z.literal(2),
+  error: z.string().optional(),
+  resource: ResourceInfoSchema,
+  accepts: z.array(PaymentRequirementsV2Schema),
+  extensions: z.record(z.any()).optional(),
+});
+export type PaymentRequiredV2 = z.infer<typeof PaymentRequiredV2Schema>;
+
+// x402PaymentPayload (v2), sent base64 encoded in the PAYMENT-SIGNATURE header
+export const PaymentPayloadV2Schema = z.object({
+  x402Version: z.literal(2),
+  resource: ResourceInfoSchema.optional(),
+  accepted: PaymentRequirementsV2Schema,
+  payload: z.record(z.any()),
+  extensions: z.record(z.any()).optional(),
+});
+export type PaymentPayloadV2 = z.infer<typeof PaymentPayloadV2Schema>;
+
+// x402SettleResponse (v2), sent base64 encoded in the PAYMENT-RESPONSE header
+export const SettleResponseV2Schema = SettleResponseSchema.extend({
+  network: Caip2ChainIdSchema,
+});
+export type SettleResponseV2 = z.infer<typeof SettleResponseV2Schema>;
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createInMemoryFacilitatorCache, parseCacheControl } from "./cache";
+
+describe("createInMemoryFacilitatorCache", () => {
+  const entry = { value: { kinds: [] }, expiresAt: 0, staleUntil: 0 };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should get stored entries", async () => {
+    const cache = createInMemoryFacilitatorCache();
+
+    await cache.set("key", entry, 1000);
+
+    expect(await cache.get("key")).toEqual(entry);
+  });
+
+  it("should evict entries after their ttl", async () => {
+    vi.useFakeTimers();
+    const cache = createInMemoryFacilitatorCache();
+    await cache.set("key", entry, 1000);
+
+    vi.advanceTimersByTime(1000);
+
+    expect(await cache.get("key")).toBeUndefined();
+  });
+
+  it("should evict the least recently used entry when full", async () => {
+    const cache = createInMemoryFacilitatorCache(2);
+    await cache.set("first", entry, 1000);
+    await cache.set("second", entry, 1000);
+    await cache.get("first");
+
+    await cache.set("third", entry, 1000);
+
+    expect(await cache.get("first")).toEqual(entry);
+    expect(await cache.get("second")).toBeUndefined();
+    expect(await cache.get("third")).toEqual(entry);
+  });
+
+  it("should delete entries", async () => {
+    const cache = createInMemoryFacilitatorCache();
+    await cache.set("key", entry, 1000);
+
+    await cache.delete("key");
+
+    expect(await cache.get("key")).toBeUndefined();
+  });
+});
+
+describe("parseCacheControl", () => {
+  it("should parse max-age and stale-while-revalidate", () => {
+    expect(parseCacheControl("public, max-age=60, stale-while-revalidate=30")).toEqual({
+      noStore: false,
+      maxAgeMs: 60000,
+      staleWhileRevalidateMs: 30000,
+    });
+  });
+
+  it("should treat no-cache as immediately stale", () => {
+    expect(parseCacheControl("no-cache, max-age=60").maxAgeMs).toBe(0);
+  });
+
+  it("should parse no-store", () => {
+    expect(parseCacheControl("No-Store").noStore).toBe(true);
+  });
+
+  it("should ignore missing and invalid directives", () => {
+    expect(parseCacheControl(null)).toEqual({ noStore: false });
+    expect(parseCacheControl("max-age=abc")).toEqual({ noStore: false });
+  });
+});
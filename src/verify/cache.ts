@@ -0,0 +1,113 @@
+/**
+ * A cached facilitator response. Entries only hold JSON values so that they can be stored in
+ * external stores such as Redis.
+ */
+export type FacilitatorCacheEntry = {
+  /** The parsed response body */
+  value: unknown;
+  /** The ETag of the response, used to revalidate it once it is stale */
+  etag?: string;
+  /** The time until which the entry is fresh, in milliseconds since the epoch */
+  expiresAt: number;
+  /** The time until which the stale entry may be served while it is revalidated */
+  staleUntil: number;
+};
+
+/**
+ * A store for cached facilitator responses, with the shape of Redis-like key-value stores
+ */
+export interface FacilitatorCache {
+  /** Gets an entry, or undefined if it is not cached */
+  get: (key: string) => Promise<FacilitatorCacheEntry | undefined>;
+  /** Stores an entry, which the store may evict after `ttlMs` */
+  set: (key: string, entry: FacilitatorCacheEntry, ttlMs: number) => Promise<void>;
+  /** Removes an entry */
+  delete: (key: string) => Promise<void>;
+}
+
+export type FacilitatorCacheStats = {
+  /** Responses served from a fresh cache entry */
+  hits: number;
+  /** Responses served from a stale cache entry while it was revalidated in the background */
+  staleHits: number;
+  /** Responses fetched from the facilitator */
+  misses: number;
+  /** Revalidations answered with 304 Not Modified */
+  revalidations: number;
+};
+
+/**
+ * Creates an in-memory least-recently-used cache for facilitator responses
+ *
+ * @param maxEntries - The maximum number of entries, after which the least recently used is evicted
+ * @returns The in-memory cache
+ */
+export function createInMemoryFacilitatorCache(maxEntries: number = 100): FacilitatorCache {
+  const entries = new Map<string, { entry: FacilitatorCacheEntry; evictAt: number }>();
+
+  return {
+    async get(key) {
+      const cached = entries.get(key);
+      if (!cached) {
+        return undefined;
+      }
+      entries.delete(key);
+      if (cached.evictAt <= Date.now()) {
+        return undefined;
+      }
+      // re-insert to mark the entry as the most recently used
+      entries.set(key, cached);
+      return cached.entry;
+    },
+    async set(key, entry, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { entry, evictAt: Date.now() + ttlMs });
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Parses the caching directives of a Cache-Control header
+ *
+ * @param header - The Cache-Control header value
+ * @returns The directives relevant to caching facilitator responses, in milliseconds
+ */
+export function parseCacheControl(header: string | null | undefined): {
+  noStore: boolean;
+  maxAgeMs?: number;
+  staleWhileRevalidateMs?: number;
+} {
+  const directives = new Map(
+    (header ?? "")
+      .split(",")
+      .map(directive => directive.trim().toLowerCase().split("="))
+      .filter(([name]) => name)
+      .map(([name, value]) => [name, value] as const),
+  );
+
+  /**
+   * Gets the value of a directive in milliseconds
+   *
+   * @param name - The name of the directive
+   * @returns The value in milliseconds, or undefined if the directive is absent or invalid
+   */
+  const getMs = (name: string): number | undefined => {
+    const seconds = Number(directives.get(name));
+    return directives.has(name) && Number.isFinite(seconds) && seconds >= 0
+      ? seconds * 1000
+      : undefined;
+  };
+
+  return {
+    noStore: directives.has("no-store"),
+    // no-cache allows storing the response but requires revalidating it before each use
+    maxAgeMs: directives.has("no-cache") ? 0 : getMs("max-age"),
+    staleWhileRevalidateMs: getMs("stale-while-revalidate"),
+  };
+}
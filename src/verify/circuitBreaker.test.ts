@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { createCircuitBreaker } from "./circuitBreaker";
+
+describe("createCircuitBreaker", () => {
+  /**
+   * Creates a circuit breaker with a controllable clock
+   *
+   * @returns The circuit breaker and a function advancing the clock
+   */
+  function createTestCircuitBreaker() {
+    let time = 0;
+    const circuitBreaker = createCircuitBreaker(
+      { failureThreshold: 2, resetTimeoutMs: 1000 },
+      () => time,
+    );
+    return { circuitBreaker, advance: (ms: number) => (time += ms) };
+  }
+
+  it("should open after consecutive failures", () => {
+    const { circuitBreaker } = createTestCircuitBreaker();
+
+    circuitBreaker.onFailure();
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+    circuitBreaker.onFailure();
+
+    expect(circuitBreaker.getState()).toBe("open");
+    expect(circuitBreaker.tryAcquire()).toBe(false);
+  });
+
+  it("should reset the failure count after a success", () => {
+    const { circuitBreaker } = createTestCircuitBreaker();
+
+    circuitBreaker.onFailure();
+    circuitBreaker.onSuccess();
+    circuitBreaker.onFailure();
+
+    expect(circuitBreaker.getState()).toBe("closed");
+  });
+
+  it("should let a single probe through once the reset timeout has elapsed", () => {
+    const { circuitBreaker, advance } = createTestCircuitBreaker();
+    circuitBreaker.onFailure();
+    circuitBreaker.onFailure();
+
+    advance(1000);
+
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+    expect(circuitBreaker.getState()).toBe("half-open");
+    expect(circuitBreaker.tryAcquire()).toBe(false);
+  });
+
+  it("should close when the probe succeeds", () => {
+    const { circuitBreaker, advance } = createTestCircuitBreaker();
+    circuitBreaker.onFailure();
+    circuitBreaker.onFailure();
+    advance(1000);
+    circuitBreaker.tryAcquire();
+
+    circuitBreaker.onSuccess();
+
+    expect(circuitBreaker.getState()).toBe("closed");
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+  });
+
+  it("should open again when the probe fails", () => {
+    const { circuitBreaker, advance } = createTestCircuitBreaker();
+    circuitBreaker.onFailure();
+    circuitBreaker.onFailure();
+    advance(1000);
+    circuitBreaker.tryAcquire();
+
+    circuitBreaker.onFailure();
+
+    expect(circuitBreaker.getState()).toBe("open");
+    expect(circuitBreaker.tryAcquire()).toBe(false);
+  });
+});
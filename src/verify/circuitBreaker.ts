@@ -0,0 +1,86 @@
+import { FacilitatorCircuitBreakerConfig } from "../types";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreaker = {
+  /** Checks whether a request may be sent, letting a single probe through once the circuit can half-open */
+  tryAcquire: () => boolean;
+  /** Records a successful request, closing the circuit */
+  onSuccess: () => void;
+  /** Records a failed request, opening the circuit once the failure threshold is reached */
+  onFailure: () => void;
+  /** Gets the current state of the circuit */
+  getState: () => CircuitState;
+};
+
+/**
+ * Creates a circuit breaker. The circuit opens after `failureThreshold` consecutive failures,
+ * rejecting requests until `resetTimeoutMs` has elapsed. It then half-opens and lets a single
+ * probe request through, which closes the circuit if it succeeds or opens it again if it fails.
+ *
+ * @param config - The circuit breaker configuration
+ * @param config.failureThreshold - The number of consecutive failures that opens the circuit
+ * @param config.resetTimeoutMs - How long the circuit stays open before half-opening, in milliseconds
+ * @param now - Gets the current time in milliseconds, overridable for tests
+ * @returns The circuit breaker
+ */
+export function createCircuitBreaker(
+  { failureThreshold = 5, resetTimeoutMs = 30000 }: FacilitatorCircuitBreakerConfig = {},
+  now: () => number = Date.now,
+): CircuitBreaker {
+  let state: CircuitState = "closed";
+  let failures = 0;
+  let openedAt = 0;
+  let probing = false;
+
+  /**
+   * Checks whether a request may be sent
+   *
+   * @returns True if the request may be sent
+   */
+  function tryAcquire(): boolean {
+    if (state === "open" && now() - openedAt >= resetTimeoutMs) {
+      state = "half-open";
+    }
+    if (state === "half-open") {
+      if (probing) {
+        return false;
+      }
+      probing = true;
+      return true;
+    }
+    return state === "closed";
+  }
+
+  /**
+   * Records a successful request
+   */
+  function onSuccess(): void {
+    state = "closed";
+    failures = 0;
+    probing = false;
+  }
+
+  /**
+   * Records a failed request
+   */
+  function onFailure(): void {
+    failures++;
+    if (state === "half-open" || failures >= failureThreshold) {
+      state = "open";
+      openedAt = now();
+    }
+    probing = false;
+  }
+
+  /**
+   * Gets the current state of the circuit
+   *
+   * @returns The state of the circuit
+   */
+  function getState(): CircuitState {
+    return state;
+  }
+
+  return { tryAcquire, onSuccess, onFailure, getState };
+}
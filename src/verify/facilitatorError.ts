@@ -0,0 +1,35 @@
+import { FacilitatorOperation } from "../types";
+
+/**
+ * Error thrown by the facilitator client when a facilitator request fails
+ */
+export class FacilitatorError extends Error {
+  /**
+   * Creates a facilitator error
+   *
+   * @param message - The error message
+   * @param operation - The facilitator operation that failed
+   * @param status - The HTTP status of the response, if the facilitator responded
+   * @param body - The parsed body of the response, if any
+   */
+  constructor(
+    message: string,
+    readonly operation: FacilitatorOperation,
+    readonly status?: number,
+    readonly body?: unknown,
+  ) {
+    super(message);
+    this.name = "FacilitatorError";
+  }
+}
+
+/**
+ * Checks whether a failed facilitator request can be retried, i.e. whether it failed because of
+ * the network, a timeout, rate limiting or a server error rather than the request itself
+ *
+ * @param error - The error the request failed with
+ * @returns True if the request may succeed when retried
+ */
+export function isRetryableFacilitatorError(error: FacilitatorError): boolean {
+  return error.status === undefined || error.status === 429 || error.status >= 500;
+}
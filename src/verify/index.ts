@@ -1 +1,4 @@
+export * from "./cache";
+export * from "./circuitBreaker";
+export * from "./facilitatorError";
 export * from "./useFacilitator";
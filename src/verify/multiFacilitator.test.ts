@@ -0,0 +1,252 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMultiFacilitatorClient } from "./multiFacilitator";
+import { FacilitatorError } from "./facilitatorError";
+import type { FacilitatorClient } from "./useFacilitator";
+import { FacilitatorConfig, SupportedPaymentKindsResponse } from "../types";
+import { PaymentPayload, PaymentRequirements } from "../types/verify";
+
+const paymentPayload: PaymentPayload = {
+  x402Version: 1,
+  scheme: "exact",
+  network: "base-sepolia",
+  payload: {
+    signature: "0x1234567890123456789012345678901234567890123456789012345678901234",
+    authorization: {
+      from: "0x1234567890123456789012345678901234567890",
+      to: "0x1234567890123456789012345678901234567890",
+      value: "1000000",
+      validAfter: "1234567890",
+      validBefore: "1234567899",
+      nonce: "1234567890",
+    },
+  },
+};
+
+const paymentRequirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "1000000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: "0x1234567890123456789012345678901234567890",
+  maxTimeoutSeconds: 300,
+  asset: "0x1234567890123456789012345678901234567890",
+};
+
+const solanaRequirements: PaymentRequirements = {
+  ...paymentRequirements,
+  network: "solana-devnet",
+  payTo: "2Z5Cv5KfTRqBDmN8JGWmRSuTZbx6v4djN8hHqvNpEmh3",
+  asset: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+  extra: { feePayer: "FeePayer1111111111111111111111111111111111" },
+};
+
+/**
+ * Creates a mocked facilitator client
+ *
+ * @param kinds - The kinds returned by its /supported route
+ * @returns The mocked client
+ */
+function createMockClient(kinds: SupportedPaymentKindsResponse["kinds"]) {
+  return {
+    verify: vi.fn().mockResolvedValue({ isValid: true }),
+    settle: vi.fn().mockResolvedValue({
+      success: true,
+      transaction: "0xtx",
+      network: "base-sepolia",
+    }),
+    getSettlementStatus: vi.fn(),
+    supported: vi.fn().mockResolvedValue({ kinds }),
+    list: vi.fn(),
+    getCacheStats: vi.fn().mockReturnValue({ hits: 1, staleHits: 0, misses: 1, revalidations: 0 }),
+  } satisfies FacilitatorClient;
+}
+
+describe("createMultiFacilitatorClient", () => {
+  const baseKind = { x402Version: 1, scheme: "exact", network: "base-sepolia" as const };
+  const solanaKind = {
+    x402Version: 1,
+    scheme: "exact",
+    network: "solana-devnet" as const,
+    extra: { feePayer: "FeePayer1111111111111111111111111111111111" },
+  };
+  let clients: Record<string, ReturnType<typeof createMockClient>>;
+
+  /**
+   * Gets the mocked client of a facilitator config
+   *
+   * @param config - The facilitator config
+   * @returns The mocked client
+   */
+  const createClient = (config: FacilitatorConfig) => clients[config.url];
+
+  beforeEach(() => {
+    clients = {
+      "https://public.org": createMockClient([baseKind]),
+      "https://self-hosted.org": createMockClient([baseKind, solanaKind]),
+    };
+  });
+
+  it("should route payments by the networks each facilitator serves", async () => {
+    const client = createMultiFacilitatorClient(
+      {
+        facilitators: [
+          { url: "https://public.org", networks: ["base-sepolia"] },
+          { url: "https://self-hosted.org", networks: ["solana-devnet"] },
+        ],
+      },
+      createClient,
+    );
+
+    await client.verify(paymentPayload, paymentRequirements);
+    await client.verify({ ...paymentPayload, network: "solana-devnet" }, solanaRequirements);
+
+    expect(clients["https://public.org"].verify).toHaveBeenCalledTimes(1);
+    expect(clients["https://self-hosted.org"].verify).toHaveBeenCalledWith(
+      { ...paymentPayload, network: "solana-devnet" },
+      solanaRequirements,
+    );
+  });
+
+  it("should skip facilitators whose supported kinds do not include the payment", async () => {
+    const client = createMultiFacilitatorClient(
+      { facilitators: [{ url: "https://public.org" }, { url: "https://self-hosted.org" }] },
+      createClient,
+    );
+
+    await client.verify({ ...paymentPayload, network: "solana-devnet" }, solanaRequirements);
+
+    expect(clients["https://public.org"].verify).not.toHaveBeenCalled();
+    expect(clients["https://self-hosted.org"].verify).toHaveBeenCalled();
+  });
+
+  it("should cache the supported kinds of each facilitator", async () => {
+    const client = createMultiFacilitatorClient(
+      { facilitators: [{ url: "https://public.org" }] },
+      createClient,
+    );
+
+    await client.verify(paymentPayload, paymentRequirements);
+    await client.verify(paymentPayload, paymentRequirements);
+
+    expect(clients["https://public.org"].supported).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fail over verify when a facilitator is down", async () => {
+    clients["https://public.org"].verify.mockRejectedValueOnce(
+      new FacilitatorError("Service Unavailable", "verify", 503),
+    );
+    const client = createMultiFacilitatorClient(
+      { facilitators: [{ url: "https://public.org" }, { url: "https://self-hosted.org" }] },
+      createClient,
+    );
+
+    const response = await client.verify(paymentPayload, paymentRequirements);
+
+    expect(response.isValid).toBe(true);
+    expect(clients["https://self-hosted.org"].verify).toHaveBeenCalled();
+  });
+
+  it("should not fail over when a facilitator rejects the request", async () => {
+    clients["https://public.org"].verify.mockRejectedValueOnce(
+      new FacilitatorError("Invalid request", "verify", 400),
+    );
+    const client = createMultiFacilitatorClient(
+      { facilitators: [{ url: "https://public.org" }, { url: "https://self-hosted.org" }] },
+      createClient,
+    );
+
+    await expect(client.verify(paymentPayload, paymentRequirements)).rejects.toThrow(
+      "Invalid request",
+    );
+    expect(clients["https://self-hosted.org"].verify).not.toHaveBeenCalled();
+  });
+
+  it("should skip facilitators whose health check failed", async () => {
+    clients["https://public.org"].supported.mockRejectedValue(
+      new FacilitatorError("Service Unavailable", "supported", 503),
+    );
+    const client = createMultiFacilitatorClient(
+      { facilitators: [{ url: "https://public.org" }, { url: "https://self-hosted.org" }] },
+      createClient,
+    );
+
+    await client.verify(paymentPayload, paymentRequirements);
+
+    expect(clients["https://public.org"].verify).not.toHaveBeenCalled();
+    expect(clients["https://self-hosted.org"].verify).toHaveBeenCalled();
+  });
+
+  it("should settle with the facilitator that verified the payment", async () => {
+    clients["https://public.org"].verify.mockRejectedValueOnce(
+      new FacilitatorError("Service Unavailable", "verify", 503),
+    );
+    let time = 0;
+    const client = createMultiFacilitatorClient(
+      { facilitators: [{ url: "https://public.org" }, { url: "https://self-hosted.org" }] },
+      createClient,
+      () => time,
+    );
+
+    await client.verify(paymentPayload, paymentRequirements);
+    // the public facilitator is healthy again by the time the payment is settled
+    time += 60000;
+    await client.settle(paymentPayload, paymentRequirements);
+
+    expect(clients["https://public.org"].settle).not.toHaveBeenCalled();
+    expect(clients["https://self-hosted.org"].settle).toHaveBeenCalled();
+  });
+
+  it("should never fail over settle", async () => {
+    clients["https://public.org"].settle.mockRejectedValueOnce(
+      new FacilitatorError("Service Unavailable", "settle", 503),
+    );
+    const client = createMultiFacilitatorClient(
+      { facilitators: [{ url: "https://public.org" }, { url: "https://self-hosted.org" }] },
+      createClient,
+    );
+
+    await client.verify(paymentPayload, paymentRequirements);
+    await expect(client.settle(paymentPayload, paymentRequirements)).rejects.toThrow(
+      "Service Unavailable",
+    );
+    expect(clients["https://self-hosted.org"].settle).not.toHaveBeenCalled();
+  });
+
+  it("should pick facilitators by weight with the weighted strategy", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.9);
+    const client = createMultiFacilitatorClient(
+      {
+        facilitators: [
+          { url: "https://public.org", weight: 1 },
+          { url: "https://self-hosted.org", weight: 3 },
+        ],
+        strategy: "weighted",
+      },
+      createClient,
+    );
+
+    await client.verify(paymentPayload, paymentRequirements);
+
+    expect(clients["https://self-hosted.org"].verify).toHaveBeenCalled();
+    expect(clients["https://public.org"].verify).not.toHaveBeenCalled();
+    vi.mocked(Math.random).mockRestore();
+  });
+
+  it("should merge the supported kinds of the routed networks", async () => {
+    const client = createMultiFacilitatorClient(
+      {
+        facilitators: [
+          { url: "https://public.org" },
+          { url: "https://self-hosted.org", networks: ["solana-devnet"] },
+        ],
+      },
+      createClient,
+    );
+
+    const response = await client.supported();
+
+    expect(response.kinds).toEqual([baseKind, solanaKind]);
+  });
+});
@@ -0,0 +1,306 @@
+import { toJsonSafe } from "../shared";
+import {
+  FacilitatorConfig,
+  MultiFacilitatorConfig,
+  RoutedFacilitatorConfig,
+  SupportedPaymentKindsResponse,
+} from "../types";
+import { Network } from "../types/shared/network";
+import { PaymentPayload, PaymentRequirements } from "../types/verify";
+import { FacilitatorError, isRetryableFacilitatorError } from "./facilitatorError";
+import type { FacilitatorClient } from "./useFacilitator";
+
+// bounds the payments and settlements remembered for sticky routing
+const MAX_STICKY_ENTRIES = 10000;
+
+type Member = {
+  config: RoutedFacilitatorConfig;
+  client: FacilitatorClient;
+  supported?: { kinds: Promise<SupportedPaymentKindsResponse>; expiresAt: number };
+  unhealthyUntil: number;
+};
+
+/**
+ * Creates a facilitator client spreading requests over several facilitators.
+ *
+ * Payments are routed by network and scheme to the facilitators whose configuration and
+ * cached /supported response accept them. A facilitator that is down is skipped until its
+ * /supported cache expires, and verify fails over to the next facilitator. Settle is always
+ * sent to the facilitator that verified the payment, since it is not idempotent.
+ *
+ * @param config - The facilitators and how to pick between them
+ * @param createClient - Creates the client of a single facilitator
+ * @param now - Gets the current time in milliseconds, overridable for tests
+ * @returns A facilitator client with the same interface as a single facilitator client
+ */
+export function createMultiFacilitatorClient(
+  config: MultiFacilitatorConfig,
+  createClient: (config: FacilitatorConfig) => FacilitatorClient,
+  now: () => number = Date.now,
+): FacilitatorClient {
+  const { strategy = "ordered", supportedCacheTtlMs = 60000 } = config;
+  const members: Member[] = config.facilitators.map(facilitator => ({
+    config: facilitator,
+    client: createClient(facilitator),
+    unhealthyUntil: 0,
+  }));
+  const verifiedBy = new Map<string, Member>();
+  const settledBy = new Map<string, Member>();
+
+  /**
+   * Marks a facilitator as down until the supported cache TTL has elapsed
+   *
+   * @param member - The facilitator that failed
+   */
+  function markUnhealthy(member: Member): void {
+    member.unhealthyUntil = now() + supportedCacheTtlMs;
+    member.supported = undefined;
+  }
+
+  /**
+   * Gets the cached /supported response of a facilitator, which doubles as its health check
+   *
+   * @param member - The facilitator
+   * @returns The supported payment kinds, or undefined if the facilitator is down
+   */
+  async function getSupported(member: Member): Promise<SupportedPaymentKindsResponse | undefined> {
+    if (member.unhealthyUntil > now()) {
+      return undefined;
+    }
+    if (!member.supported || member.supported.expiresAt <= now()) {
+      member.supported = {
+        kinds: member.client.supported(),
+        expiresAt: now() + supportedCacheTtlMs,
+      };
+    }
+    try {
+      return await member.supported.kinds;
+    } catch {
+      markUnhealthy(member);
+      return undefined;
+    }
+  }
+
+  /**
+   * Orders facilitators according to the strategy
+   *
+   * @param candidates - The facilitators to order
+   * @returns The facilitators, most preferred first
+   */
+  function order(candidates: Member[]): Member[] {
+    if (strategy === "ordered") {
+      return candidates;
+    }
+    // weighted random sampling without replacement
+    const remaining = [...candidates];
+    const ordered: Member[] = [];
+    while (remaining.length > 0) {
+      const totalWeight = remaining.reduce((sum, member) => sum + (member.config.weight ?? 1), 0);
+      let pick = Math.random() * totalWeight;
+      const index = remaining.findIndex(member => (pick -= member.config.weight ?? 1) < 0);
+      ordered.push(...remaining.splice(index === -1 ? remaining.length - 1 : index, 1));
+    }
+    return ordered;
+  }
+
+  /**
+   * Checks whether the configuration of a facilitator routes a network and scheme to it
+   *
+   * @param member - The facilitator
+   * @param network - The network of the payment
+   * @param scheme - The scheme of the payment
+   * @returns True if the payment may be routed to the facilitator
+   */
+  function isRouted(member: Member, network?: Network, scheme?: string): boolean {
+    const { networks, schemes } = member.config;
+    return (
+      (!network || !networks || networks.includes(network)) &&
+      (!scheme || !schemes || schemes.includes(scheme))
+    );
+  }
+
+  /**
+   * Gets the facilitators that can handle a payment, most preferred first. Facilitators that
+   * are down are only kept as a last resort.
+   *
+   * @param paymentRequirements - The requirements of the payment
+   * @returns The facilitators to try, in order
+   */
+  async function getCandidates(paymentRequirements: PaymentRequirements): Promise<Member[]> {
+    const { network, scheme, extra } = paymentRequirements;
+    const routed = members.filter(member => isRouted(member, network, scheme));
+    const supported = await Promise.all(routed.map(getSupported));
+
+    const healthy: Member[] = [];
+    const unhealthy: Member[] = [];
+    routed.forEach((member, index) => {
+      const kinds = supported[index]?.kinds;
+      if (!kinds) {
+        unhealthy.push(member);
+        return;
+      }
+      // the fee payer is part of the requirements, so only its facilitator can settle them
+      const kind = kinds.find(kind => kind.network === network && kind.scheme === scheme);
+      const feePayer = kind?.extra?.feePayer;
+      if (kind && (!feePayer || !extra?.feePayer || feePayer === extra.feePayer)) {
+        healthy.push(member);
+      }
+    });
+    return [...order(healthy), ...order(unhealthy)];
+  }
+
+  /**
+   * Calls facilitators in turn until one answers, skipping those that are down
+   *
+   * @param candidates - The facilitators to call, in order
+   * @param operation - The facilitator operation
+   * @param call - Calls a facilitator
+   * @returns The response of the first facilitator that answered, and that facilitator
+   */
+  async function withFailover<T>(
+    candidates: Member[],
+    operation: FacilitatorError["operation"],
+    call: (member: Member) => Promise<T>,
+  ): Promise<{ response: T; member: Member }> {
+    let lastError: unknown = new FacilitatorError("No facilitator is available", operation);
+    for (const member of candidates) {
+      try {
+        return { response: await call(member), member };
+      } catch (error) {
+        if (!(error instanceof FacilitatorError) || !isRetryableFacilitatorError(error)) {
+          throw error;
+        }
+        markUnhealthy(member);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Remembers which facilitator handled a payment or settlement
+   *
+   * @param map - The map to remember the facilitator in
+   * @param key - The payment or settlement key
+   * @param member - The facilitator
+   */
+  function remember(map: Map<string, Member>, key: string, member: Member): void {
+    map.delete(key);
+    map.set(key, member);
+    if (map.size > MAX_STICKY_ENTRIES) {
+      map.delete(map.keys().next().value!);
+    }
+  }
+
+  /**
+   * Gets the key identifying a payment across verify and settle
+   *
+   * @param payload - The payment payload
+   * @param paymentRequirements - The payment requirements
+   * @returns The payment key
+   */
+  function getPaymentKey(payload: PaymentPayload, paymentRequirements: PaymentRequirements) {
+    return `${paymentRequirements.network}:${JSON.stringify(toJsonSafe(payload.payload))}`;
+  }
+
+  const verify: FacilitatorClient["verify"] = async (payload, paymentRequirements) => {
+    const candidates = await getCandidates(paymentRequirements);
+    if (candidates.length === 0) {
+      throw new FacilitatorError(
+        `No facilitator supports scheme ${paymentRequirements.scheme} on network ${paymentRequirements.network}`,
+        "verify",
+      );
+    }
+
+    const { response, member } = await withFailover(candidates, "verify", member =>
+      member.client.verify(payload, paymentRequirements),
+    );
+    remember(verifiedBy, getPaymentKey(payload, paymentRequirements), member);
+    return response;
+  };
+
+  const settle: FacilitatorClient["settle"] = async (payload, paymentRequirements) => {
+    const key = getPaymentKey(payload, paymentRequirements);
+    const member = verifiedBy.get(key) ?? (await getCandidates(paymentRequirements))[0];
+    if (!member) {
+      throw new FacilitatorError(
+        `No facilitator supports scheme ${paymentRequirements.scheme} on network ${paymentRequirements.network}`,
+        "settle",
+      );
+    }
+    verifiedBy.delete(key);
+
+    const response = await member.client.settle(payload, paymentRequirements);
+    if (response.settlementId) {
+      remember(settledBy, response.settlementId, member);
+    }
+    return response;
+  };
+
+  const getSettlementStatus: FacilitatorClient["getSettlementStatus"] = async settlementId => {
+    const member = settledBy.get(settlementId);
+    if (member) {
+      return member.client.getSettlementStatus(settlementId);
+    }
+
+    // the settlement was started by another client, so ask every facilitator
+    let lastError: unknown = new FacilitatorError(
+      "No facilitator is available",
+      "settlementStatus",
+    );
+    for (const member of members) {
+      try {
+        return await member.client.getSettlementStatus(settlementId);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  };
+
+  const supported: FacilitatorClient["supported"] = async () => {
+    const responses = await Promise.all(members.map(getSupported));
+    if (responses.every(response => !response)) {
+      throw new FacilitatorError("No facilitator is available", "supported");
+    }
+
+    const kinds: SupportedPaymentKindsResponse["kinds"] = [];
+    responses.forEach((response, index) => {
+      response?.kinds
+        .filter(kind => isRouted(members[index], kind.network, kind.scheme))
+        .filter(
+          kind =>
+            !kinds.some(
+              existing =>
+                existing.x402Version === kind.x402Version &&
+                existing.scheme === kind.scheme &&
+                existing.network === kind.network,
+            ),
+        )
+        .forEach(kind => kinds.push(kind));
+    });
+    return { kinds };
+  };
+
+  const list: FacilitatorClient["list"] = async request => {
+    const { response } = await withFailover(order(members), "list", member =>
+      member.client.list(request),
+    );
+    return response;
+  };
+
+  const getCacheStats: FacilitatorClient["getCacheStats"] = () =>
+    members
+      .map(member => member.client.getCacheStats())
+      .reduce(
+        (total, stats) => ({
+          hits: total.hits + stats.hits,
+          staleHits: total.staleHits + stats.staleHits,
+          misses: total.misses + stats.misses,
+          revalidations: total.revalidations + stats.revalidations,
+        }),
+        { hits: 0, staleHits: 0, misses: 0, revalidations: 0 },
+      );
+
+  return { verify, settle, getSettlementStatus, supported, list, getCacheStats };
+}
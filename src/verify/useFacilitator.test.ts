@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { useFacilitator } from "./useFacilitator";
+import { FacilitatorError } from "./facilitatorError";
 import { PaymentPayload, PaymentRequirements } from "../types/verify";
 
 describe("useFacilitator", () => {
@@ -54,6 +55,7 @@ describe("useFacilitator", () => {
           paymentPayload: mockPaymentPayload,
           paymentRequirements: mockPaymentRequirements,
         }),
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -70,6 +72,7 @@ describe("useFacilitator", () => {
           paymentPayload: mockPaymentPayload,
           paymentRequirements: mockPaymentRequirements,
         }),
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -152,6 +155,7 @@ describe("useFacilitator", () => {
           paymentPayload: mockPaymentPayload,
           paymentRequirements: mockPaymentRequirements,
         }),
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -168,6 +172,7 @@ describe("useFacilitator", () => {
           paymentPayload: mockPaymentPayload,
           paymentRequirements: mockPaymentRequirements,
         }),
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -235,6 +240,55 @@ describe("useFacilitator", () => {
     });
   });
 
+  describe("getSettlementStatus", () => {
+    it("should call fetch with the encoded settlement id", async () => {
+      const { getSettlementStatus } = useFacilitator();
+      await getSettlementStatus("exact:base-sepolia:0xtx");
+
+      expect(fetch).toHaveBeenCalledWith(
+        "https://x402.org/facilitator/settle/exact%3Abase-sepolia%3A0xtx",
+        {
+          method: "GET",
+          headers: { "Content-Type": "application/json" },
+          signal: expect.any(AbortSignal),
+        },
+      );
+    });
+
+    it("should include the settle auth headers when createAuthHeaders is provided", async () => {
+      const mockHeaders = {
+        verify: { Authorization: "Bearer verify-token" },
+        settle: { Authorization: "Bearer settle-token" },
+        supported: { Authorization: "Bearer supported-token" },
+      };
+      const { getSettlementStatus } = useFacilitator({
+        url: "https://custom-facilitator.org",
+        createAuthHeaders: async () => mockHeaders,
+      });
+      await getSettlementStatus("exact:base-sepolia:0xtx");
+
+      expect(fetch).toHaveBeenCalledWith(
+        "https://custom-facilitator.org/settle/exact%3Abase-sepolia%3A0xtx",
+        expect.objectContaining({
+          headers: { "Content-Type": "application/json", ...mockHeaders.settle },
+        }),
+      );
+    });
+
+    it("should throw error with detailed message from JSON response", async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        status: 404,
+        statusText: "Not Found",
+        json: async () => ({ error: "Settlement not found" }),
+      });
+      const { getSettlementStatus } = useFacilitator();
+
+      await expect(getSettlementStatus("exact:base-sepolia:0xtx")).rejects.toThrow(
+        "Settlement not found",
+      );
+    });
+  });
+
   describe("supported", () => {
     it("should call fetch with the correct default URL", async () => {
       const { supported } = useFacilitator();
@@ -243,6 +297,7 @@ describe("useFacilitator", () => {
       expect(fetch).toHaveBeenCalledWith("https://x402.org/facilitator/supported", {
         headers: { "Content-Type": "application/json" },
         method: "GET",
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -253,6 +308,7 @@ describe("useFacilitator", () => {
       expect(fetch).toHaveBeenCalledWith("https://custom-facilitator.org/supported", {
         headers: { "Content-Type": "application/json" },
         method: "GET",
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -278,6 +334,7 @@ describe("useFacilitator", () => {
       expect(fetch).toHaveBeenCalledWith("https://x402.org/facilitator/discovery/resources?", {
         method: "GET",
         headers: { "Content-Type": "application/json" },
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -289,6 +346,7 @@ describe("useFacilitator", () => {
       expect(fetch).toHaveBeenCalledWith(`${customUrl}/discovery/resources?`, {
         method: "GET",
         headers: { "Content-Type": "application/json" },
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -306,6 +364,7 @@ describe("useFacilitator", () => {
       expect(fetch).toHaveBeenCalledWith(expectedUrl, {
         method: "GET",
         headers: { "Content-Type": "application/json" },
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -323,6 +382,7 @@ describe("useFacilitator", () => {
       expect(fetch).toHaveBeenCalledWith(expectedUrl, {
         method: "GET",
         headers: { "Content-Type": "application/json" },
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -337,4 +397,265 @@ describe("useFacilitator", () => {
       await expect(list()).rejects.toThrow("Failed to list discovery: 400 Bad Request");
     });
   });
+
+  describe("resilience", () => {
+    const serverError = {
+      status: 503,
+      statusText: "Service Unavailable",
+      json: async () => ({ error: "Unavailable" }),
+    };
+    const ok = { status: 200, statusText: "OK", json: async () => ({ kinds: [] }) };
+
+    it("should throw a FacilitatorError carrying the status, operation and body", async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        status: 400,
+        statusText: "Bad Request",
+        json: async () => ({ error: "Invalid request", issues: [] }),
+      });
+      const { verify } = useFacilitator({ url: "https://facilitator.org", retry: false });
+
+      const error = await verify(mockPaymentPayload, mockPaymentRequirements).catch(e => e);
+
+      expect(error).toBeInstanceOf(FacilitatorError);
+      expect(error).toMatchObject({
+        message: "Invalid request",
+        operation: "verify",
+        status: 400,
+        body: { error: "Invalid request", issues: [] },
+      });
+    });
+
+    it("should abort requests that exceed the operation timeout", async () => {
+      global.fetch = vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) =>
+            init.signal!.addEventListener("abort", () => reject(new Error("aborted"))),
+          ),
+      ) as unknown as typeof fetch;
+      const { supported } = useFacilitator({
+        url: "https://facilitator.org",
+        timeoutMs: { supported: 10 },
+        retry: false,
+      });
+
+      await expect(supported()).rejects.toThrow(
+        "Facilitator supported request timed out after 10ms",
+      );
+    });
+
+    it("should retry idempotent operations after server errors", async () => {
+      global.fetch = vi.fn().mockResolvedValueOnce(serverError).mockResolvedValueOnce(ok);
+      const { supported } = useFacilitator({
+        url: "https://facilitator.org",
+        retry: { retries: 2, minDelayMs: 1, maxDelayMs: 1 },
+      });
+
+      await expect(supported()).resolves.toEqual({ kinds: [] });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry client errors", async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        status: 400,
+        statusText: "Bad Request",
+        json: async () => ({}),
+      });
+      const { supported } = useFacilitator({ url: "https://facilitator.org" });
+
+      await expect(supported()).rejects.toThrow(FacilitatorError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should never retry settle", async () => {
+      global.fetch = vi.fn().mockResolvedValue(serverError);
+      const { settle } = useFacilitator({
+        url: "https://facilitator.org",
+        retry: { retries: 2, minDelayMs: 1, maxDelayMs: 1 },
+      });
+
+      await expect(settle(mockPaymentPayload, mockPaymentRequirements)).rejects.toThrow(
+        "Unavailable",
+      );
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop calling a failing facilitator once the circuit opens", async () => {
+      global.fetch = vi.fn().mockResolvedValue(serverError);
+      const { supported } = useFacilitator({
+        url: "https://facilitator.org",
+        retry: false,
+        circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 },
+      });
+
+      await expect(supported()).rejects.toThrow("Unavailable");
+      await expect(supported()).rejects.toThrow("Unavailable");
+      await expect(supported()).rejects.toThrow("Facilitator circuit breaker is open");
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should count a response that is not JSON as a failure", async () => {
+      const notJson = {
+        status: 200,
+        statusText: "OK",
+        json: async () => {
+          throw new SyntaxError("Unexpected token < in JSON");
+        },
+      };
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(serverError)
+        .mockResolvedValueOnce(notJson)
+        .mockResolvedValueOnce(ok);
+      const { supported } = useFacilitator({
+        url: "https://facilitator.org",
+        retry: false,
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 0 },
+      });
+
+      await expect(supported()).rejects.toThrow("Unavailable");
+      const error = await supported().catch(e => e);
+      expect(error).toBeInstanceOf(FacilitatorError);
+      expect(error).toMatchObject({
+        message: "Facilitator supported response is not valid JSON",
+        operation: "supported",
+        status: 200,
+      });
+      // the failed probe must not keep the circuit half-open forever
+      await expect(supported()).resolves.toEqual({ kinds: [] });
+    });
+  });
+
+  describe("cache", () => {
+    /**
+     * Creates a mocked 200 response
+     *
+     * @param body - The response body
+     * @param headers - The response headers
+     * @returns The mocked response
+     */
+    const response = (body: unknown, headers: Record<string, string> = {}) => ({
+      status: 200,
+      statusText: "OK",
+      headers: new Headers(headers),
+      json: async () => body,
+    });
+    const notModified = (headers: Record<string, string> = {}) => ({
+      status: 304,
+      statusText: "Not Modified",
+      headers: new Headers(headers),
+      json: async () => {
+        throw new Error("No body");
+      },
+    });
+
+    it("should serve supported from the cache while it is fresh", async () => {
+      global.fetch = vi.fn().mockResolvedValue(response({ kinds: [] }));
+      const { supported, getCacheStats } = useFacilitator({ url: "https://facilitator.org" });
+
+      await supported();
+      await supported();
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(getCacheStats()).toEqual({ hits: 1, staleHits: 0, misses: 1, revalidations: 0 });
+    });
+
+    it("should cache list responses per query", async () => {
+      global.fetch = vi.fn().mockResolvedValue(response({ items: [] }));
+      const { list } = useFacilitator({ url: "https://facilitator.org" });
+
+      await list({ limit: 1 });
+      await list({ limit: 1 });
+      await list({ limit: 2 });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not cache responses with Cache-Control no-store", async () => {
+      global.fetch = vi
+        .fn()
+        .mockResolvedValue(response({ kinds: [] }, { "Cache-Control": "no-store" }));
+      const { supported } = useFacilitator({ url: "https://facilitator.org" });
+
+      await supported();
+      await supported();
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should revalidate stale responses with their ETag", async () => {
+      vi.useFakeTimers();
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          response({ kinds: [] }, { "Cache-Control": "max-age=1", ETag: '"v1"' }),
+        )
+        .mockResolvedValueOnce(notModified({ "Cache-Control": "max-age=1" }));
+      const { supported, getCacheStats } = useFacilitator({ url: "https://facilitator.org" });
+
+      await supported();
+      vi.advanceTimersByTime(1000);
+      const result = await supported();
+      vi.useRealTimers();
+
+      expect(result).toEqual({ kinds: [] });
+      expect(fetch).toHaveBeenLastCalledWith(
+        "https://facilitator.org/supported",
+        expect.objectContaining({
+          headers: { "Content-Type": "application/json", "If-None-Match": '"v1"' },
+        }),
+      );
+      expect(getCacheStats().revalidations).toBe(1);
+    });
+
+    it("should serve stale responses while revalidating them in the background", async () => {
+      vi.useFakeTimers();
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          response({ kinds: ["v1"] }, { "Cache-Control": "max-age=1, stale-while-revalidate=10" }),
+        )
+        .mockResolvedValueOnce(response({ kinds: ["v2"] }));
+      const { supported, getCacheStats } = useFacilitator({ url: "https://facilitator.org" });
+
+      await supported();
+      vi.advanceTimersByTime(1000);
+      const stale = await supported();
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+      await vi.advanceTimersByTimeAsync(0);
+      const fresh = await supported();
+      vi.useRealTimers();
+
+      expect(stale).toEqual({ kinds: ["v1"] });
+      expect(fresh).toEqual({ kinds: ["v2"] });
+      expect(getCacheStats()).toMatchObject({ staleHits: 1, hits: 1, misses: 1 });
+    });
+
+    it("should use a custom cache store", async () => {
+      global.fetch = vi.fn().mockResolvedValue(response({ kinds: [] }));
+      const store = {
+        get: vi.fn().mockResolvedValue(undefined),
+        set: vi.fn().mockResolvedValue(undefined),
+        delete: vi.fn(),
+      };
+      const { supported } = useFacilitator({ url: "https://facilitator.org", cache: { store } });
+
+      await supported();
+
+      expect(store.set).toHaveBeenCalledWith(
+        "https://facilitator.org/supported",
+        expect.objectContaining({ value: { kinds: [] } }),
+        60000,
+      );
+    });
+
+    it("should not cache when disabled", async () => {
+      global.fetch = vi.fn().mockResolvedValue(response({ kinds: [] }));
+      const { supported } = useFacilitator({ url: "https://facilitator.org", cache: false });
+
+      await supported();
+      await supported();
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
 });
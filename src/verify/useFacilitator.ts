@@ -3,6 +3,8 @@ import {
   ListDiscoveryResourcesRequest,
   ListDiscoveryResourcesResponse,
   FacilitatorConfig,
+  FacilitatorOperation,
+  MultiFacilitatorConfig,
   SupportedPaymentKindsResponse,
 } from "../types";
 import {
@@ -11,9 +13,26 @@ import {
   SettleResponse,
   VerifyResponse,
 } from "../types/verify";
+import {
+  createInMemoryFacilitatorCache,
+  FacilitatorCacheEntry,
+  FacilitatorCacheStats,
+  parseCacheControl,
+} from "./cache";
+import { createCircuitBreaker } from "./circuitBreaker";
+import { FacilitatorError, isRetryableFacilitatorError } from "./facilitatorError";
+import { createMultiFacilitatorClient } from "./multiFacilitator";
 
 const DEFAULT_FACILITATOR_URL = "https://x402.org/facilitator";
 
+const DEFAULT_TIMEOUTS_MS: Record<FacilitatorOperation, number> = {
+  verify: 10000,
+  settle: 90000,
+  settlementStatus: 10000,
+  supported: 10000,
+  list: 10000,
+};
+
 export type CreateHeaders = () => Promise<{
   verify: Record<string, string>;
   settle: Record<string, string>;
@@ -21,56 +40,362 @@ export type CreateHeaders = () => Promise<{
   list?: Record<string, string>;
 }>;
 
+export type FacilitatorClient = {
+  verify: (
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+  ) => Promise<VerifyResponse>;
+  settle: (
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+  ) => Promise<SettleResponse>;
+  getSettlementStatus: (settlementId: string) => Promise<SettleResponse>;
+  supported: () => Promise<SupportedPaymentKindsResponse>;
+  list: (config?: ListDiscoveryResourcesRequest) => Promise<ListDiscoveryResourcesResponse>;
+  getCacheStats: () => FacilitatorCacheStats;
+};
+
+type FacilitatorResponse = {
+  /** The parsed response body, absent when the facilitator answered 304 Not Modified */
+  data?: unknown;
+  notModified?: boolean;
+  headers?: Headers;
+};
+
 /**
- * Creates a facilitator client for interacting with the X402 payment facilitator service
+ * Creates a facilitator client for interacting with the X402 payment facilitator service.
+ * Every request is bounded by a timeout, idempotent requests are retried with jittered
+ * exponential backoff and a circuit breaker stops calling the facilitator while it is failing.
  *
- * @param facilitator - The facilitator config to use. If not provided, the default facilitator will be used.
+ * @param facilitator - The facilitator config to use, or several facilitators to route payments
+ * between. If not provided, the default facilitator will be used.
  * @returns An object containing verify and settle functions for interacting with the facilitator
  */
-export function useFacilitator(facilitator?: FacilitatorConfig) {
+export function useFacilitator(
+  facilitator?: FacilitatorConfig | MultiFacilitatorConfig,
+): FacilitatorClient {
+  if (facilitator && "facilitators" in facilitator) {
+    return createMultiFacilitatorClient(facilitator, createFacilitatorClient);
+  }
+  return createFacilitatorClient(facilitator);
+}
+
+/**
+ * Creates the client of a single facilitator
+ *
+ * @param facilitator - The facilitator config to use. If not provided, the default facilitator will be used.
+ * @returns The facilitator client
+ */
+function createFacilitatorClient(facilitator?: FacilitatorConfig): FacilitatorClient {
+  const circuitBreaker =
+    facilitator?.circuitBreaker === false
+      ? undefined
+      : createCircuitBreaker(facilitator?.circuitBreaker);
+  const cache =
+    facilitator?.cache === false
+      ? undefined
+      : {
+          store: facilitator?.cache?.store ?? createInMemoryFacilitatorCache(),
+          ttlMs: facilitator?.cache?.ttlMs ?? 60000,
+          staleWhileRevalidateMs: facilitator?.cache?.staleWhileRevalidateMs ?? 0,
+        };
+  const cacheStats: FacilitatorCacheStats = { hits: 0, staleHits: 0, misses: 0, revalidations: 0 };
+  const revalidating = new Set<string>();
+
   /**
-   * Verifies a payment payload with the facilitator service
+   * Gets the headers of a facilitator request, including the auth headers of the operation
    *
-   * @param payload - The payment payload to verify
-   * @param paymentRequirements - The payment requirements to verify against
-   * @returns A promise that resolves to the verification response
+   * @param authHeadersKey - The key of the auth headers to include
+   * @returns A promise that resolves to the request headers
    */
-  async function verify(
-    payload: PaymentPayload,
-    paymentRequirements: PaymentRequirements,
-  ): Promise<VerifyResponse> {
-    const url = facilitator?.url || DEFAULT_FACILITATOR_URL;
-
+  async function getHeaders(
+    authHeadersKey: keyof Awaited<ReturnType<CreateHeaders>>,
+  ): Promise<Record<string, string>> {
     let headers = { "Content-Type": "application/json" };
     if (facilitator?.createAuthHeaders) {
       const authHeaders = await facilitator.createAuthHeaders();
-      headers = { ...headers, ...authHeaders.verify };
+      headers = { ...headers, ...authHeaders[authHeadersKey] };
+    }
+    return headers;
+  }
+
+  /**
+   * Gets the timeout of an operation
+   *
+   * @param operation - The facilitator operation
+   * @returns The timeout in milliseconds
+   */
+  function getTimeoutMs(operation: FacilitatorOperation): number {
+    const timeoutMs = facilitator?.timeoutMs;
+    if (typeof timeoutMs === "number") {
+      return timeoutMs;
     }
+    return timeoutMs?.[operation] ?? DEFAULT_TIMEOUTS_MS[operation];
+  }
 
-    const res = await fetch(`${url}/verify`, {
-      method: "POST",
-      headers,
-      body: JSON.stringify({
-        x402Version: payload.x402Version,
-        paymentPayload: toJsonSafe(payload),
-        paymentRequirements: toJsonSafe(paymentRequirements),
-      }),
-    });
-
-    if (res.status !== 200) {
-      let errorMessage = `Failed to verify payment: ${res.statusText}`;
+  /**
+   * Sends a single request to the facilitator, guarded by the timeout and circuit breaker
+   *
+   * @param operation - The facilitator operation
+   * @param path - The path of the facilitator route, including the query string
+   * @param init - The method, headers and body of the request
+   * @param errorMessage - Builds the error message used when the response has no `error` field
+   * @returns A promise that resolves to the parsed response body and headers, without body if not modified
+   */
+  async function send(
+    operation: FacilitatorOperation,
+    path: string,
+    init: RequestInit,
+    errorMessage: (res: Response) => string,
+  ): Promise<FacilitatorResponse> {
+    if (circuitBreaker && !circuitBreaker.tryAcquire()) {
+      throw new FacilitatorError("Facilitator circuit breaker is open", operation);
+    }
+
+    const url = facilitator?.url || DEFAULT_FACILITATOR_URL;
+    const timeoutMs = getTimeoutMs(operation);
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => abortController.abort(), timeoutMs);
+
+    try {
+      let res: Response;
       try {
-        const errorData = await res.json();
-        if (errorData.error) {
-          errorMessage = errorData.error;
+        res = await fetch(`${url}${path}`, { ...init, signal: abortController.signal });
+      } catch (error) {
+        circuitBreaker?.onFailure();
+        throw new FacilitatorError(
+          abortController.signal.aborted
+            ? `Facilitator ${operation} request timed out after ${timeoutMs}ms`
+            : `Facilitator ${operation} request failed: ${error instanceof Error ? error.message : error}`,
+          operation,
+        );
+      }
+
+      if (res.status === 304) {
+        circuitBreaker?.onSuccess();
+        return { notModified: true, headers: res.headers };
+      }
+
+      if (res.status !== 200) {
+        let body: unknown;
+        try {
+          body = await res.json();
+        } catch {
+          // JSON parsing failed, use default error message
+        }
+        const bodyError = (body as { error?: unknown } | undefined)?.error;
+        const error = new FacilitatorError(
+          typeof bodyError === "string" && bodyError ? bodyError : errorMessage(res),
+          operation,
+          res.status,
+          body,
+        );
+        // the facilitator is healthy if it rejected the request itself
+        if (isRetryableFacilitatorError(error)) {
+          circuitBreaker?.onFailure();
+        } else {
+          circuitBreaker?.onSuccess();
         }
+        throw error;
+      }
+
+      let data: unknown;
+      try {
+        data = await res.json();
       } catch {
-        // JSON parsing failed, use default error message
+        circuitBreaker?.onFailure();
+        throw new FacilitatorError(
+          `Facilitator ${operation} response is not valid JSON`,
+          operation,
+          res.status,
+        );
+      }
+      circuitBreaker?.onSuccess();
+      return { data, headers: res.headers };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Sends a request to the facilitator, retrying idempotent operations that failed because of
+   * the network, a timeout or the facilitator itself
+   *
+   * @param operation - The facilitator operation
+   * @param path - The path of the facilitator route, including the query string
+   * @param init - The method, headers and body of the request
+   * @param errorMessage - Builds the error message used when the response has no `error` field
+   * @returns A promise that resolves to the parsed response body and headers, without body if not modified
+   */
+  async function request(
+    operation: FacilitatorOperation,
+    path: string,
+    init: RequestInit,
+    errorMessage: (res: Response) => string,
+  ): Promise<FacilitatorResponse> {
+    // settling is not idempotent, so a failed settlement is never retried
+    const retry = operation === "settle" ? false : (facilitator?.retry ?? {});
+    const { retries = 2, minDelayMs = 100, maxDelayMs = 2000 } = retry || { retries: 0 };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await send(operation, path, init, errorMessage);
+      } catch (error) {
+        if (
+          !(error instanceof FacilitatorError) ||
+          !isRetryableFacilitatorError(error) ||
+          attempt >= retries ||
+          (circuitBreaker && circuitBreaker.getState() !== "closed")
+        ) {
+          throw error;
+        }
+        // full jitter: a random delay up to the exponential backoff
+        const backoffMs = Math.min(maxDelayMs, minDelayMs * 2 ** attempt);
+        await new Promise(resolve => setTimeout(resolve, Math.random() * backoffMs));
+      }
+    }
+  }
+
+  /**
+   * Stores a response in the cache, unless its Cache-Control forbids it
+   *
+   * @param key - The cache key
+   * @param value - The parsed response body
+   * @param headers - The response headers
+   */
+  async function storeResponse(key: string, value: unknown, headers?: Headers): Promise<void> {
+    if (!cache) {
+      return;
+    }
+    const cacheControl = parseCacheControl(headers?.get("Cache-Control"));
+    if (cacheControl.noStore) {
+      await cache.store.delete(key);
+      return;
+    }
+    const ttlMs = cacheControl.maxAgeMs ?? cache.ttlMs;
+    const staleMs = cacheControl.staleWhileRevalidateMs ?? cache.staleWhileRevalidateMs;
+    const etag = headers?.get("ETag") ?? undefined;
+    // entries with an ETag are kept once stale, since revalidating them is cheap
+    const keepMs = ttlMs + (etag ? Math.max(staleMs, cache.ttlMs) : staleMs);
+    if (keepMs <= 0) {
+      return;
+    }
+    const now = Date.now();
+    await cache.store.set(
+      key,
+      { value, etag, expiresAt: now + ttlMs, staleUntil: now + ttlMs + staleMs },
+      keepMs,
+    );
+  }
+
+  /**
+   * Fetches a response and stores it in the cache, revalidating the cached entry with its ETag
+   *
+   * @param key - The cache key
+   * @param entry - The cached entry, if any
+   * @param operation - The facilitator operation
+   * @param path - The path of the facilitator route, including the query string
+   * @param init - The method and headers of the request
+   * @param errorMessage - Builds the error message used when the response has no `error` field
+   * @returns A promise that resolves to the parsed response body
+   */
+  async function fetchAndStore(
+    key: string,
+    entry: FacilitatorCacheEntry | undefined,
+    operation: FacilitatorOperation,
+    path: string,
+    init: RequestInit,
+    errorMessage: (res: Response) => string,
+  ): Promise<unknown> {
+    const headers = entry?.etag ? { ...init.headers, "If-None-Match": entry.etag } : init.headers;
+    const response = await request(operation, path, { ...init, headers }, errorMessage);
+    if (response.notModified && entry) {
+      cacheStats.revalidations++;
+      await storeResponse(key, entry.value, response.headers);
+      return entry.value;
+    }
+    await storeResponse(key, response.data, response.headers);
+    return response.data;
+  }
+
+  /**
+   * Sends a cacheable GET request, serving fresh cached responses and stale ones while they
+   * are revalidated in the background
+   *
+   * @param operation - The facilitator operation
+   * @param path - The path of the facilitator route, including the query string
+   * @param init - The method and headers of the request
+   * @param errorMessage - Builds the error message used when the response has no `error` field
+   * @returns A promise that resolves to the parsed response body
+   */
+  async function cachedRequest(
+    operation: FacilitatorOperation,
+    path: string,
+    init: RequestInit,
+    errorMessage: (res: Response) => string,
+  ): Promise<unknown> {
+    if (!cache) {
+      return (await request(operation, path, init, errorMessage)).data;
+    }
+
+    const key = `${facilitator?.url || DEFAULT_FACILITATOR_URL}${path}`;
+    const entry = await cache.store.get(key);
+    const now = Date.now();
+    if (entry && now < entry.expiresAt) {
+      cacheStats.hits++;
+      return entry.value;
+    }
+    if (entry && now < entry.staleUntil) {
+      cacheStats.staleHits++;
+      if (!revalidating.has(key)) {
+        revalidating.add(key);
+        fetchAndStore(key, entry, operation, path, init, errorMessage)
+          .catch(() => {
+            // the stale entry keeps being served until it is revalidated or expires
+          })
+          .finally(() => revalidating.delete(key));
       }
-      throw new Error(errorMessage);
+      return entry.value;
     }
 
-    const data = await res.json();
+    cacheStats.misses++;
+    return fetchAndStore(key, entry, operation, path, init, errorMessage);
+  }
+
+  /**
+   * Gets the cache statistics of the supported and list responses
+   *
+   * @returns A snapshot of the cache statistics
+   */
+  function getCacheStats(): FacilitatorCacheStats {
+    return { ...cacheStats };
+  }
+
+  /**
+   * Verifies a payment payload with the facilitator service
+   *
+   * @param payload - The payment payload to verify
+   * @param paymentRequirements - The payment requirements to verify against
+   * @returns A promise that resolves to the verification response
+   */
+  async function verify(
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+  ): Promise<VerifyResponse> {
+    const { data } = await request(
+      "verify",
+      "/verify",
+      {
+        method: "POST",
+        headers: await getHeaders("verify"),
+        body: JSON.stringify({
+          x402Version: payload.x402Version,
+          paymentPayload: toJsonSafe(payload),
+          paymentRequirements: toJsonSafe(paymentRequirements),
+        }),
+      },
+      res => `Failed to verify payment: ${res.statusText}`,
+    );
     return data as VerifyResponse;
   }
 
@@ -85,68 +410,52 @@ export function useFacilitator(facilitator?: FacilitatorConfig) {
     payload: PaymentPayload,
     paymentRequirements: PaymentRequirements,
   ): Promise<SettleResponse> {
-    const url = facilitator?.url || DEFAULT_FACILITATOR_URL;
-
-    let headers = { "Content-Type": "application/json" };
-    if (facilitator?.createAuthHeaders) {
-      const authHeaders = await facilitator.createAuthHeaders();
-      headers = { ...headers, ...authHeaders.settle };
-    }
-
-    const res = await fetch(`${url}/settle`, {
-      method: "POST",
-      headers,
-      body: JSON.stringify({
-        x402Version: payload.x402Version,
-        paymentPayload: toJsonSafe(payload),
-        paymentRequirements: toJsonSafe(paymentRequirements),
-      }),
-    });
-
-    if (res.status !== 200) {
-      let errorMessage = `Failed to settle payment: ${res.status} ${res.statusText}`;
-      try {
-        const errorData = await res.json();
-        if (errorData.error) {
-          errorMessage = errorData.error;
-        }
-      } catch {
-        // JSON parsing failed, use default error message
-      }
-      throw new Error(errorMessage);
-    }
+    const { data } = await request(
+      "settle",
+      "/settle",
+      {
+        method: "POST",
+        headers: await getHeaders("settle"),
+        body: JSON.stringify({
+          x402Version: payload.x402Version,
+          paymentPayload: toJsonSafe(payload),
+          paymentRequirements: toJsonSafe(paymentRequirements),
+        }),
+      },
+      res => `Failed to settle payment: ${res.status} ${res.statusText}`,
+    );
+    return data as SettleResponse;
+  }
 
-    const data = await res.json();
+  /**
+   * Gets the status of a settlement the facilitator settled asynchronously, i.e. for which
+   * `settle` returned a "pending" status and a settlement id
+   *
+   * @param settlementId - The settlement id returned by `settle`
+   * @returns A promise that resolves to the settlement response, with its current status
+   */
+  async function getSettlementStatus(settlementId: string): Promise<SettleResponse> {
+    const { data } = await request(
+      "settlementStatus",
+      `/settle/${encodeURIComponent(settlementId)}`,
+      { method: "GET", headers: await getHeaders("settle") },
+      res => `Failed to get settlement status: ${res.status} ${res.statusText}`,
+    );
     return data as SettleResponse;
   }
 
   /**
    * Gets the supported payment kinds from the facilitator server.
-   * Auto-detects V2 format and converts to V1 format for backward compatibility.
    *
    * @returns A promise that resolves to the supported payment kinds
    */
   async function supported(): Promise<SupportedPaymentKindsResponse> {
-    const url = facilitator?.url || DEFAULT_FACILITATOR_URL;
-
-    let headers = { "Content-Type": "application/json" };
-    if (facilitator?.createAuthHeaders) {
-      const authHeaders = await facilitator.createAuthHeaders();
-      headers = { ...headers, ...authHeaders.supported };
-    }
-
-    const res = await fetch(`${url}/supported`, {
-      method: "GET",
-      headers,
-    });
-
-    if (res.status !== 200) {
-      throw new Error(`Failed to get supported payment kinds: ${res.statusText}`);
-    }
-
-    const data = await res.json();
-
-    // V1 format - return as is
+    const data = await cachedRequest(
+      "supported",
+      "/supported",
+      { method: "GET", headers: await getHeaders("supported") },
+      res => `Failed to get supported payment kinds: ${res.statusText}`,
+    );
     return data as SupportedPaymentKindsResponse;
   }
 
@@ -159,37 +468,22 @@ export function useFacilitator(facilitator?: FacilitatorConfig) {
   async function list(
     config: ListDiscoveryResourcesRequest = {},
   ): Promise<ListDiscoveryResourcesResponse> {
-    const url = facilitator?.url || DEFAULT_FACILITATOR_URL;
-
-    let headers = { "Content-Type": "application/json" };
-    if (facilitator?.createAuthHeaders) {
-      const authHeaders = await facilitator.createAuthHeaders();
-      if (authHeaders.list) {
-        headers = { ...headers, ...authHeaders.list };
-      }
-    }
-
     const urlParams = new URLSearchParams(
       Object.entries(config)
         .filter(([_, value]) => value !== undefined)
         .map(([key, value]) => [key, String(value)]),
     );
 
-    const res = await fetch(`${url}/discovery/resources?${urlParams.toString()}`, {
-      method: "GET",
-      headers,
-    });
-
-    if (res.status !== 200) {
-      const text = res.statusText;
-      throw new Error(`Failed to list discovery: ${res.status} ${text}`);
-    }
-
-    const data = await res.json();
+    const data = await cachedRequest(
+      "list",
+      `/discovery/resources?${urlParams.toString()}`,
+      { method: "GET", headers: await getHeaders("list") },
+      res => `Failed to list discovery: ${res.status} ${res.statusText}`,
+    );
     return data as ListDiscoveryResourcesResponse;
   }
 
-  return { verify, settle, supported, list };
+  return { verify, settle, getSettlementStatus, supported, list, getCacheStats };
 }
 
-export const { verify, settle, supported, list } = useFacilitator();
+export const { verify, settle, getSettlementStatus, supported, list } = useFacilitator();